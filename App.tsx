@@ -1,13 +1,43 @@
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality, Type, FunctionDeclaration } from '@google/genai';
-import { Sentiment, FeedbackMessage, TranscriptionEntry } from './types';
-import { decode, decodeAudioData, createPcmBlob } from './services/audio-processing';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import { Type, FunctionDeclaration } from '@google/genai';
+import { Sentiment, FeedbackCategory, FeedbackSeverity, AnswerAnalysis, InterviewConfig, JobRequirement, QuestionSet, StoredSession, ConnectionState, SessionMedia } from './types';
+import { getPersona, loadInterviewConfig, normalizeInterviewConfig, saveInterviewConfig } from './services/interview-config';
+import { SessionPromptOptions } from './services/system-prompt';
+import { segmentQuestions } from './services/question-segmentation';
+import { LiveInterviewTransport } from './services/live-transport';
+import { createGeminiTransport } from './services/gemini-transport';
+import { fetchLiveToken } from './services/live-token';
+import { createMockTransport } from './services/mock-transport';
+import mockInterview from './fixtures/mock-interview';
+import { useInterviewSession } from './hooks/useInterviewSession';
+import { useInterviewTimers } from './hooks/useInterviewTimers';
+import { getQuestionSet } from './services/question-bank';
+import { finalMinutesInstruction, FINAL_MINUTES_MS, formatDuration, resolveAnswerLimits, wrapUpInstruction } from './services/answer-timer';
+import { FeedbackPatch, upsertAnalysis } from './services/interview-session';
+import { getSession, saveSession } from './services/session-store';
+import { createTranslator } from './services/i18n';
+import { I18nContext } from './hooks/useI18n';
+import { shortcutLabel, useKeyboardShortcuts } from './hooks/useKeyboardShortcuts';
+import { useHighContrast } from './hooks/useHighContrast';
+import { useAnswerAnalysis } from './hooks/useAnswerAnalysis';
 import VideoPreview from './components/VideoPreview';
 import InterviewerAvatar from './components/InterviewerAvatar';
 import FeedbackList from './components/FeedbackList';
-
-const MODEL_NAME = 'gemini-2.5-flash-native-audio-preview-09-2025';
+import InterviewSetup from './components/InterviewSetup';
+import PreflightCheck from './components/PreflightCheck';
+import CoveragePanel from './components/CoveragePanel';
+import ScorecardView from './components/ScorecardView';
+import SessionHistory from './components/SessionHistory';
+import ProgressDashboard from './components/ProgressDashboard';
+import SpeechGauges from './components/SpeechGauges';
+import NonVerbalGauges from './components/NonVerbalGauges';
+import RecordingPlayer, { SeekRequest } from './components/RecordingPlayer';
+import QuestionTranscript from './components/QuestionTranscript';
+import ConnectionIndicator from './components/ConnectionIndicator';
+import AnswerTimer from './components/AnswerTimer';
+import TranscriptComposer from './components/TranscriptComposer';
+import LiveCaptions from './components/LiveCaptions';
 
 // Define tools for the model to use to communicate feedback to the UI
 const provideFeedbackTool: FunctionDeclaration = {
@@ -16,395 +46,630 @@ const provideFeedbackTool: FunctionDeclaration = {
   parameters: {
     type: Type.OBJECT,
     properties: {
-      category: { type: Type.STRING, description: 'The area of feedback (e.g., Posture, Tone, Content, Pace)' },
+      category: {
+        type: Type.STRING,
+        enum: Object.values(FeedbackCategory),
+        description: 'The area of feedback'
+      },
       message: { type: Type.STRING, description: 'The constructive feedback message' },
       sentiment: { 
         type: Type.STRING, 
         enum: [Sentiment.POSITIVE, Sentiment.NEUTRAL, Sentiment.IMPROVEMENT],
         description: 'The tone of the feedback'
       },
+      severity: {
+        type: Type.STRING,
+        enum: Object.values(FeedbackSeverity),
+        description: 'Optional: how much an improvement matters, from low to high'
+      },
+      quote: { type: Type.STRING, description: "Optional: a short verbatim excerpt of the candidate's words the feedback refers to" },
     },
     required: ['category', 'message', 'sentiment']
   }
 };
 
-const App: React.FC = () => {
-  const [isActive, setIsActive] = useState(false);
-  const [isSpeaking, setIsSpeaking] = useState(false);
-  const [feedbacks, setFeedbacks] = useState<FeedbackMessage[]>([]);
-  const [transcriptions, setTranscriptions] = useState<TranscriptionEntry[]>([]);
-  const [error, setError] = useState<string | null>(null);
-
-  // Audio refs
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const outputAudioContextRef = useRef<AudioContext | null>(null);
-  const nextStartTimeRef = useRef<number>(0);
-  const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
-  const sessionRef = useRef<any>(null);
-  const transcriptionBufferRef = useRef({ user: '', model: '' });
-
-  const stopSession = useCallback(() => {
-    if (sessionRef.current) {
-      sessionRef.current.close?.();
-      sessionRef.current = null;
-    }
-    setIsActive(false);
-    setIsSpeaking(false);
-    sourcesRef.current.forEach(s => s.stop());
-    sourcesRef.current.clear();
-  }, []);
-
-  const startSession = async () => {
-    try {
-      setError(null);
-      setIsActive(true);
-      
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      
-      // Setup Audio Contexts
-      if (!audioContextRef.current) audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-      if (!outputAudioContextRef.current) outputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-      
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-
-      const sessionPromise = ai.live.connect({
-        model: MODEL_NAME,
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } },
-          },
-          systemInstruction: `You are a real-time interview system.
-            Language rules:
-            - All interaction must be strictly in English.
-            - Transcribe speech only in English.
-            - If speech is unclear or in another language, ask the user to repeat in English.
-
-            You have two roles:
-            1. Interviewer
-            2. Communication coach
-
-            Interview behavior:
-            - Start with a brief introduction.
-            - Ask one interview question at a time.
-            - Wait until the candidate finishes speaking before responding.
-            - Ask follow-up questions when answers are unclear or incomplete.
-            - Adapt questions based on previous responses.
-            - Maintain interview context throughout the session.
-
-            Live coaching behavior:
-            - Continuously observe live audio and video input.
-            - Detect clear communication signals such as:
-              - Excess filler words
-              - Speaking too fast or too slowly
-              - Answer drifting from the question
-              - Strong clarity or structure
-              - Limited eye contact or excessive movement
-            - Provide feedback ONLY when a clear signal is detected.
-            - Feedback must be under 12 words.
-            - Do not repeat the same feedback consecutively.
-            - Do not interrupt the candidate while speaking.
-
-            Feedback scope:
-            - Speech pace
-            - Clarity and structure
-            - Relevance of answers
-            - Use of filler words
-            - Basic non-verbal cues (eye direction, posture)
-
-            Restrictions:
-            - Do not provide medical, psychological, or diagnostic advice.
-            - Feedback must be skill-focused and observational.
-
-            Ending the interview:
-            - When the candidate says “end interview”, stop asking questions.
-            - Generate a concise post-interview performance summary including:
-              - Strengths
-              - Areas for improvement
-              - Communication observations`,
-          tools: [{ functionDeclarations: [provideFeedbackTool] }],
-          inputAudioTranscription: {},
-          outputAudioTranscription: {},
+const markRequirementCoveredTool: FunctionDeclaration = {
+  name: 'markRequirementCovered',
+  description: 'Mark a job description requirement as covered once you have asked a question that probes it.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      requirementId: { type: Type.STRING, description: 'The requirement id from the system instructions (e.g., R1)' },
+      note: { type: Type.STRING, description: 'Optional short note on how the requirement was probed' },
+    },
+    required: ['requirementId']
+  }
+};
+
+const markQuestionTool: FunctionDeclaration = {
+  name: 'markQuestion',
+  description: 'Record that you are asking the candidate an interview question or a follow-up.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      question: { type: Type.STRING, description: 'The question as asked, in one sentence' },
+      isFollowUp: { type: Type.BOOLEAN, description: 'True if this follows up on the answer to the previous question' },
+    },
+    required: ['question', 'isFollowUp']
+  }
+};
+
+const getNextQuestionTool: FunctionDeclaration = {
+  name: 'getNextQuestion',
+  description: 'Fetch the next question from the interview plan, with follow-up hints, a time limit and rubric notes.',
+};
+
+const scoreSchema = { type: Type.NUMBER, description: 'Score from 1 (poor) to 5 (excellent)' };
+
+const submitSummaryTool: FunctionDeclaration = {
+  name: 'submitSummary',
+  description: 'Submit the structured end-of-interview performance report.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      strengths: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'What the candidate did well' },
+      improvements: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Concrete areas for improvement' },
+      scores: {
+        type: Type.OBJECT,
+        properties: {
+          pace: scoreSchema,
+          clarity: scoreSchema,
+          structure: scoreSchema,
+          relevance: scoreSchema,
+          nonVerbal: scoreSchema,
         },
-        callbacks: {
-          onopen: () => {
-            console.log('Gemini Live session opened');
-            const source = audioContextRef.current!.createMediaStreamSource(stream);
-            const scriptProcessor = audioContextRef.current!.createScriptProcessor(4096, 1, 1);
-            
-            scriptProcessor.onaudioprocess = (e) => {
-              const inputData = e.inputBuffer.getChannelData(0);
-              const pcmBlob = createPcmBlob(inputData);
-              sessionPromise.then(session => {
-                session.sendRealtimeInput({ media: pcmBlob });
-              });
-            };
-            
-            source.connect(scriptProcessor);
-            scriptProcessor.connect(audioContextRef.current!.destination);
-          },
-          onmessage: async (msg: LiveServerMessage) => {
-            // Handle Audio Output
-            const audioData = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-            if (audioData) {
-              setIsSpeaking(true);
-              const ctx = outputAudioContextRef.current!;
-              nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
-              
-              const audioBuffer = await decodeAudioData(decode(audioData), ctx, 24000, 1);
-              const source = ctx.createBufferSource();
-              source.buffer = audioBuffer;
-              source.connect(ctx.destination);
-              source.onended = () => {
-                sourcesRef.current.delete(source);
-                if (sourcesRef.current.size === 0) setIsSpeaking(false);
-              };
-              source.start(nextStartTimeRef.current);
-              nextStartTimeRef.current += audioBuffer.duration;
-              sourcesRef.current.add(source);
-            }
-
-            // Handle Interruptions
-            if (msg.serverContent?.interrupted) {
-              sourcesRef.current.forEach(s => s.stop());
-              sourcesRef.current.clear();
-              nextStartTimeRef.current = 0;
-              setIsSpeaking(false);
-            }
-
-            // Handle Transcriptions
-            if (msg.serverContent?.inputTranscription) {
-              transcriptionBufferRef.current.user += msg.serverContent.inputTranscription.text;
-            }
-            if (msg.serverContent?.outputTranscription) {
-              transcriptionBufferRef.current.model += msg.serverContent.outputTranscription.text;
-            }
-            if (msg.serverContent?.turnComplete) {
-              const uText = transcriptionBufferRef.current.user;
-              const mText = transcriptionBufferRef.current.model;
-              if (uText || mText) {
-                setTranscriptions(prev => [
-                  ...prev,
-                  ...(uText ? [{ role: 'user', text: uText, timestamp: Date.now() } as TranscriptionEntry] : []),
-                  ...(mText ? [{ role: 'model', text: mText, timestamp: Date.now() } as TranscriptionEntry] : []),
-                ]);
-              }
-              transcriptionBufferRef.current = { user: '', model: '' };
-            }
-
-            // Handle Tool Calls (Feedback)
-            if (msg.toolCall) {
-              for (const fc of msg.toolCall.functionCalls) {
-                if (fc.name === 'provideFeedback') {
-                  const args = fc.args as any;
-                  setFeedbacks(prev => [{
-                    id: Math.random().toString(36).substr(2, 9),
-                    category: args.category,
-                    message: args.message,
-                    sentiment: args.sentiment as Sentiment,
-                    timestamp: Date.now()
-                  }, ...prev]);
-                  
-                  // Acknowledge tool response
-                  sessionPromise.then(session => {
-                    session.sendToolResponse({
-                      functionResponses: { id: fc.id, name: fc.name, response: { result: "feedback_received" } }
-                    });
-                  });
-                }
-              }
-            }
-          },
-          onerror: (e) => {
-            console.error('Session error:', e);
-            setError('Communication lost. Please try restarting the session.');
-            stopSession();
+        required: ['pace', 'clarity', 'structure', 'relevance', 'nonVerbal']
+      },
+      questionRatings: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            question: { type: Type.STRING, description: 'The question as asked' },
+            rating: scoreSchema,
+            comment: { type: Type.STRING, description: 'One-sentence justification' },
           },
-          onclose: () => {
-            console.log('Session closed');
-            setIsActive(false);
-          }
+          required: ['question', 'rating']
         }
-      });
+      },
+      overallComment: { type: Type.STRING, description: 'One or two sentence overall assessment' },
+    },
+    required: ['strengths', 'improvements', 'scores', 'questionRatings']
+  }
+};
+
+// The scripted transport runs the whole UI offline, e.g. for demos or without the token server
+const USE_MOCK_TRANSPORT = new URLSearchParams(window.location.search).get('transport') === 'mock';
+
+const createTransport = (sessionId: string): LiveInterviewTransport =>
+  USE_MOCK_TRANSPORT ? createMockTransport(mockInterview) : createGeminiTransport(() => fetchLiveToken(sessionId));
+
+const getSessionTools = (requirements: JobRequirement[], plan: QuestionSet | null): FunctionDeclaration[] => [
+  provideFeedbackTool,
+  markQuestionTool,
+  submitSummaryTool,
+  ...(requirements.length ? [markRequirementCoveredTool] : []),
+  ...(plan ? [getNextQuestionTool] : []),
+];
+
+const App: React.FC = () => {
+  const {
+    state: session,
+    isActive,
+    isPaused,
+    isSummarizing,
+    connectionState,
+    sessionId,
+    recordingInfo,
+    speechMetrics,
+    nonVerbalMetrics,
+    isCandidateSpeaking,
+    sessionMode,
+    speakReplies,
+    setSpeakReplies,
+    sendTypedAnswer,
+    startSession: startInterviewSession,
+    endSession: endInterviewSession,
+    togglePause,
+    isMuted,
+    toggleMute,
+    sendFrame,
+    sendInstruction,
+    processFaceSample,
+    shouldSendFrame,
+    mediaStream,
+    outputAnalyser,
+    inputAnalyser,
+    handleSessionRenamed,
+    handleSessionDeleted,
+    updateFeedback,
+    addAnswerAnalysis,
+    dismissError,
+  } = useInterviewSession({ createTransport, getTools: getSessionTools });
+  const { isSpeaking, feedbacks, transcriptions, transcriptionBuffer, requirements, scorecard, questionMarkers, answerAnalyses, plan, error } = session;
+  const [config, setConfig] = useState<InterviewConfig>(loadInterviewConfig);
+  const [isSetupOpen, setIsSetupOpen] = useState(false);
+  const [isScorecardOpen, setIsScorecardOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isDashboardOpen, setIsDashboardOpen] = useState(false);
+  const [viewedSession, setViewedSession] = useState<StoredSession | null>(null);
+  const [seekRequest, setSeekRequest] = useState<SeekRequest | null>(null);
+  const [isHighContrast, setIsHighContrast] = useHighContrast();
+  // A typed answer in progress counts as the candidate answering
+  const [isTyping, setIsTyping] = useState(false);
+  // A start waiting on the pre-flight device check
+  const [pendingStart, setPendingStart] = useState<{ config: InterviewConfig; options: SessionPromptOptions } | null>(null);
+  const isTextSession = isActive && sessionMode === 'text';
+  const persona = getPersona(viewedSession?.config.personaId ?? config.personaId);
+  // The UI follows the interview language
+  const i18n = useMemo(() => createTranslator(config.language), [config.language]);
+  const { t } = i18n;
 
-      sessionRef.current = await sessionPromise;
-    } catch (err) {
-      console.error('Failed to start session:', err);
-      setError('Could not access microphone or camera. Please check permissions.');
-      setIsActive(false);
+  useEffect(() => {
+    document.documentElement.lang = config.language;
+  }, [config.language]);
+
+  // While browsing history, the panels replay the stored session read-only
+  const shownTranscriptions = viewedSession?.transcriptions ?? transcriptions;
+  const shownFeedbacks = viewedSession?.feedbacks ?? feedbacks;
+  const shownRequirements = viewedSession?.requirements ?? requirements;
+  const shownScorecard = viewedSession ? viewedSession.scorecard : scorecard;
+  const shownSessionId = viewedSession?.id ?? sessionId;
+  const shownRecording = viewedSession ? viewedSession.recording ?? null : recordingInfo;
+  const isReviewing = !isActive && shownSessionId !== null && shownRecording !== null;
+  const shownMarkers = viewedSession ? viewedSession.questionMarkers ?? [] : questionMarkers;
+  const questionTurns = useMemo(
+    () => segmentQuestions(shownTranscriptions, shownFeedbacks, shownMarkers, viewedSession?.endedAt ?? null),
+    [shownTranscriptions, shownFeedbacks, shownMarkers, viewedSession],
+  );
+  const shownAnalyses = viewedSession ? viewedSession.answerAnalyses ?? [] : answerAnalyses;
+
+  const requestStart = (requested: InterviewConfig, options: SessionPromptOptions = {}) => {
+    // Retries reuse a stored session's config, which may predate newer settings
+    const config = normalizeInterviewConfig(requested);
+    setIsSetupOpen(false);
+    setConfig(config);
+    saveInterviewConfig(config);
+    setPendingStart({ config, options });
+  };
+
+  const startSession = (media: SessionMedia) => {
+    if (!pendingStart) return;
+    setPendingStart(null);
+    setViewedSession(null);
+    setIsHistoryOpen(false);
+    setSeekRequest(null);
+    startInterviewSession(pendingStart.config, media, pendingStart.options);
+  };
+
+  const cancelPreflight = () => {
+    // Retries skip the setup form, so only a fresh start goes back to it
+    if (!pendingStart?.options.retryQuestion) setIsSetupOpen(true);
+    setPendingStart(null);
+  };
+
+  const endSession = async () => {
+    await endInterviewSession();
+    setIsScorecardOpen(true);
+  };
+
+  // Pins and ratings on a past session are written straight back to history
+  const handleFeedbackUpdate = (ids: string[], patch: FeedbackPatch) => {
+    if (!viewedSession) {
+      updateFeedback(ids, patch);
+      return;
     }
+    const updated: StoredSession = {
+      ...viewedSession,
+      feedbacks: viewedSession.feedbacks.map(fb => (ids.includes(fb.id) ? { ...fb, ...patch } : fb)),
+      updatedAt: Date.now(),
+    };
+    setViewedSession(updated);
+    saveSession(updated).catch(err => console.error('Failed to save session:', err));
   };
 
-  const handleFrame = useCallback((base64: string) => {
-    if (sessionRef.current && isActive) {
-      sessionRef.current.sendRealtimeInput({
-        media: { data: base64, mimeType: 'image/jpeg' }
-      });
+  // Breakdowns of past sessions are written straight back to history, even once the candidate has moved on
+  const handleAnswerAnalyzed = (id: string, analysis: AnswerAnalysis) => {
+    const withAnalysis = (stored: StoredSession): StoredSession => ({
+      ...stored,
+      answerAnalyses: upsertAnalysis(stored.answerAnalyses ?? [], analysis),
+      updatedAt: Date.now(),
+    });
+    if (id === sessionId) addAnswerAnalysis(analysis);
+    if (viewedSession?.id === id) {
+      const updated = withAnalysis(viewedSession);
+      setViewedSession(updated);
+      if (id !== sessionId) saveSession(updated).catch(err => console.error('Failed to save session:', err));
+    } else if (id !== sessionId) {
+      getSession(id)
+        .then(stored => stored && saveSession(withAnalysis(stored)))
+        .catch(err => console.error('Failed to save session:', err));
     }
-  }, [isActive]);
+  };
+
+  const answerAnalysis = useAnswerAnalysis({
+    sessionId: shownSessionId,
+    config: viewedSession?.config ?? config,
+    turns: questionTurns,
+    analyses: shownAnalyses,
+    // Browsing history never spends analyses without asking
+    auto: !viewedSession,
+    isActive: isActive && !viewedSession,
+    onAnalyzed: handleAnswerAnalyzed,
+  });
+
+  const handleFrame = useCallback((base64: string) => {
+    if (isActive) sendFrame(base64);
+  }, [isActive, sendFrame]);
+
+  // A planned question's own time limit overrides the configured answer limits
+  const plannedQuestion = useMemo(
+    () => (plan && plan.current > 0 ? getQuestionSet(config.questionSetId)?.questions[plan.current - 1] ?? null : null),
+    [plan, config.questionSetId],
+  );
+  const answerLimits = resolveAnswerLimits(config, plannedQuestion?.timeLimitSec);
+  const timers = useInterviewTimers({
+    isActive,
+    isRunning: connectionState === ConnectionState.CONNECTED && !isPaused && !isSummarizing,
+    isInterviewerSpeaking: isSpeaking,
+    isCandidateSpeaking: isCandidateSpeaking || (isTextSession && isTyping),
+    limits: answerLimits,
+    interviewMinutes: config.interviewMinutes ?? null,
+    onAnswerOverrun: elapsedMs => sendInstruction(wrapUpInstruction(elapsedMs)),
+    onFinalMinutes: remainingMs => sendInstruction(finalMinutesInstruction(remainingMs)),
+    onTimeUp: () => endSession(),
+  });
+
+  const canPause = isActive && !isSummarizing && connectionState === ConnectionState.CONNECTED;
+  const canMute = isActive && sessionMode !== 'text';
+  useKeyboardShortcuts({
+    start: !isActive && !pendingStart ? () => setIsSetupOpen(true) : undefined,
+    pause: canPause ? togglePause : undefined,
+    end: isActive && !isSummarizing ? endSession : undefined,
+    mute: canMute ? toggleMute : undefined,
+  });
 
   return (
-    <div className="flex flex-col h-screen overflow-hidden bg-slate-950">
-      {/* Header */}
-      <header className="h-16 flex items-center justify-between px-6 glass border-b border-slate-800 z-10">
-        <div className="flex items-center space-x-3">
-          <div className="w-10 h-10 rounded-xl bg-blue-600 flex items-center justify-center shadow-lg shadow-blue-900/20">
-            <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-6 h-6 text-white">
-              <path fillRule="evenodd" d="M12 2.25c-5.385 0-9.75 4.365-9.75 9.75s4.365 9.75 9.75 9.75 9.75-4.365 9.75-9.75S17.385 2.25 12 2.25ZM12.75 6a.75.75 0 0 0-1.5 0v6c0 .414.336.75.75.75h4.5a.75.75 0 0 0 0-1.5h-3.75V6Z" clipRule="evenodd" />
-            </svg>
-          </div>
-          <div>
-            <h1 className="text-lg font-bold text-slate-100 leading-tight">Gemini Interview Coach</h1>
-            <p className="text-[10px] text-slate-400 uppercase tracking-widest">Real-Time Performance Analysis</p>
-          </div>
-        </div>
-        
-        <div className="flex items-center space-x-4">
-          {!isActive ? (
-            <button
-              onClick={startSession}
-              className="px-6 py-2 bg-blue-600 hover:bg-blue-500 text-white font-semibold rounded-full shadow-lg transition-all active:scale-95 flex items-center space-x-2"
-            >
-              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
-                <path strokeLinecap="round" strokeLinejoin="round" d="M5.25 5.653c0-.856.917-1.398 1.667-.986l11.54 6.347a1.125 1.125 0 0 1 0 1.972l-11.54 6.347a1.125 1.125 0 0 1-1.667-.986V5.653Z" />
+    <I18nContext.Provider value={i18n}>
+      <div className="flex flex-col h-screen overflow-hidden bg-slate-950">
+        {/* Header */}
+        <header className="h-16 flex items-center justify-between px-6 glass border-b border-slate-800 z-10">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 rounded-xl bg-blue-600 flex items-center justify-center shadow-lg shadow-blue-900/20">
+              <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-6 h-6 text-white">
+                <path fillRule="evenodd" d="M12 2.25c-5.385 0-9.75 4.365-9.75 9.75s4.365 9.75 9.75 9.75 9.75-4.365 9.75-9.75S17.385 2.25 12 2.25ZM12.75 6a.75.75 0 0 0-1.5 0v6c0 .414.336.75.75.75h4.5a.75.75 0 0 0 0-1.5h-3.75V6Z" clipRule="evenodd" />
               </svg>
-              <span>Start Interview</span>
-            </button>
-          ) : (
+            </div>
+            <div>
+              <h1 className="text-lg font-bold text-slate-100 leading-tight">{t('appTitle')}</h1>
+              <p className="text-[10px] text-slate-400 uppercase tracking-widest">{t('appTagline')}</p>
+            </div>
+          </div>
+          
+          <div className="flex items-center space-x-4">
+            {isActive && plan && (
+              <div className="flex flex-col items-end space-y-1" title={plan.title}>
+                <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">
+                  {plan.current > 0 ? t('questionProgress', { current: plan.current, total: plan.total }) : t('plannedQuestions', { total: plan.total })}
+                </span>
+                <div
+                  className="w-32 h-1 bg-slate-800 rounded-full overflow-hidden"
+                  role="progressbar"
+                  aria-valuemin={0}
+                  aria-valuemax={plan.total}
+                  aria-valuenow={plan.current}
+                  aria-label={t('planProgressLabel')}
+                >
+                  <div className="h-full bg-blue-500 transition-all" style={{ width: `${(plan.current / plan.total) * 100}%` }} />
+                </div>
+              </div>
+            )}
+            {isActive && !plan && questionTurns.length > 0 && (
+              <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">{t('questionNumber', { number: questionTurns.length })}</span>
+            )}
+            {isActive && timers.interviewRemainingMs !== null && (
+              <span
+                className={`text-xs font-mono font-semibold ${timers.interviewRemainingMs <= FINAL_MINUTES_MS ? 'text-red-300' : 'text-slate-400'}`}
+                role="timer"
+                aria-label={t('timeRemainingLabel')}
+              >
+                {t('timeLeft', { time: formatDuration(timers.interviewRemainingMs) })}
+              </span>
+            )}
+            {isActive && <ConnectionIndicator state={connectionState} isPaused={isPaused} />}
+            {isActive && (
+              <button
+                onClick={togglePause}
+                disabled={!canPause}
+                aria-keyshortcuts={shortcutLabel('pause')}
+                title={shortcutLabel('pause')}
+                className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 font-semibold rounded-full transition-all active:scale-95 disabled:opacity-50"
+              >
+                {isPaused ? t('resume') : t('pause')}
+              </button>
+            )}
+            {canMute && (
+              <button
+                onClick={toggleMute}
+                aria-pressed={isMuted}
+                aria-keyshortcuts={shortcutLabel('mute')}
+                title={shortcutLabel('mute')}
+                className={`px-4 py-2 font-semibold rounded-full transition-all active:scale-95 ${isMuted ? 'bg-amber-600/20 text-amber-300 border border-amber-500/50' : 'bg-slate-800 hover:bg-slate-700 text-slate-200'}`}
+              >
+                {isMuted ? t('unmuteMic') : t('muteMic')}
+              </button>
+            )}
             <button
-              onClick={stopSession}
-              className="px-6 py-2 bg-red-600/20 hover:bg-red-600/30 text-red-400 border border-red-500/50 font-semibold rounded-full transition-all active:scale-95"
+              onClick={() => setIsHighContrast(!isHighContrast)}
+              aria-pressed={isHighContrast}
+              className={`px-3 py-2 text-xs font-bold uppercase tracking-wider rounded-full transition-all ${isHighContrast ? 'bg-slate-100 text-slate-950' : 'bg-slate-800 hover:bg-slate-700 text-slate-300'}`}
             >
-              End Session
+              {t('highContrast')}
             </button>
-          )}
-        </div>
-      </header>
-
-      {/* Main Content */}
-      <main className="flex-1 flex overflow-hidden p-6 gap-6">
-        {/* Left Side: Video & Interaction */}
-        <div className="flex-1 flex flex-col space-y-6">
-          <div className="flex-1 flex gap-6 min-h-0">
-            {/* User Feed */}
-            <div className="flex-1 flex flex-col">
-              <div className="flex items-center mb-3 space-x-2">
-                <div className="w-2 h-2 rounded-full bg-blue-500 animate-pulse" />
-                <span className="text-sm font-semibold text-slate-300">Candidate View</span>
+            {!isActive && (
+              <button
+                onClick={() => setIsHistoryOpen(open => !open)}
+                className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 font-semibold rounded-full transition-all"
+              >
+                {t('history')}
+              </button>
+            )}
+            {!isActive && (
+              <button
+                onClick={() => setIsDashboardOpen(true)}
+                className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 font-semibold rounded-full transition-all"
+              >
+                {t('progress')}
+              </button>
+            )}
+            {!isActive && shownScorecard && (
+              <button
+                onClick={() => setIsScorecardOpen(true)}
+                className="px-4 py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 font-semibold rounded-full transition-all"
+              >
+                {t('viewScorecard')}
+              </button>
+            )}
+            {!isActive ? (
+              <button
+                onClick={() => setIsSetupOpen(true)}
+                aria-keyshortcuts={shortcutLabel('start')}
+                title={shortcutLabel('start')}
+                className="px-6 py-2 bg-blue-600 hover:bg-blue-500 text-white font-semibold rounded-full shadow-lg transition-all active:scale-95 flex items-center space-x-2"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M5.25 5.653c0-.856.917-1.398 1.667-.986l11.54 6.347a1.125 1.125 0 0 1 0 1.972l-11.54 6.347a1.125 1.125 0 0 1-1.667-.986V5.653Z" />
+                </svg>
+                <span>{t('startInterview')}</span>
+              </button>
+            ) : (
+              <button
+                onClick={endSession}
+                disabled={isSummarizing}
+                aria-keyshortcuts={shortcutLabel('end')}
+                title={shortcutLabel('end')}
+                className="px-6 py-2 bg-red-600/20 hover:bg-red-600/30 text-red-400 border border-red-500/50 font-semibold rounded-full transition-all active:scale-95 disabled:opacity-50"
+              >
+                {isSummarizing ? t('preparingReport') : t('endSession')}
+              </button>
+            )}
+          </div>
+        </header>
+
+        {/* Main Content */}
+        <main className="flex-1 flex overflow-hidden p-6 gap-6">
+          {/* Left Side: Video & Interaction */}
+          <div className="flex-1 flex flex-col space-y-6">
+            <div className="flex-1 flex gap-6 min-h-0">
+              {/* User Feed */}
+              <div className="flex-1 flex flex-col">
+                <div className="flex items-center mb-3 space-x-2">
+                  <div className={`w-2 h-2 rounded-full ${isCandidateSpeaking ? 'bg-emerald-500 animate-pulse' : 'bg-blue-500'}`} />
+                  <span className="text-sm font-semibold text-slate-300">{isReviewing ? t('sessionRecording') : t('candidateView')}</span>
+                  {isActive && isCandidateSpeaking && (
+                    <span className="text-[10px] font-bold text-emerald-400 uppercase tracking-widest">{t('speaking')}</span>
+                  )}
+                  {isActive && (
+                    <div className="flex-1 flex justify-end">
+                      <AnswerTimer elapsedMs={timers.answerMs} lastAnswerMs={timers.lastAnswerMs} limits={answerLimits} phase={timers.phase} />
+                    </div>
+                  )}
+                </div>
+                {isReviewing ? (
+                  <RecordingPlayer
+                    sessionId={shownSessionId!}
+                    recording={shownRecording!}
+                    transcriptions={shownTranscriptions}
+                    feedbacks={shownFeedbacks}
+                    seekRequest={seekRequest}
+                  />
+                ) : (
+                  <VideoPreview
+                    isActive={isActive}
+                    stream={mediaStream}
+                    onFrame={handleFrame}
+                    onFaceSample={processFaceSample}
+                    shouldSendFrame={shouldSendFrame}
+                    micAnalyser={inputAnalyser}
+                  />
+                )}
+              </div>
+
+              {/* Coach Feed */}
+              <div className="w-1/3 flex flex-col glass rounded-2xl overflow-hidden shadow-2xl">
+                 <div className="flex items-center p-4 border-b border-slate-800 space-x-2">
+                  <div className="w-2 h-2 rounded-full bg-emerald-500" />
+                  <span className="text-sm font-semibold text-slate-300">{t('coachTitle', { name: persona.name })}</span>
+                </div>
+                <div className="flex-1 flex items-center justify-center bg-slate-900/50">
+                  <InterviewerAvatar name={persona.name} isSpeaking={isSpeaking} analyser={isActive ? outputAnalyser : null} />
+                </div>
               </div>
-              <VideoPreview isActive={isActive} onFrame={handleFrame} />
             </div>
 
-            {/* Coach Feed */}
-            <div className="w-1/3 flex flex-col glass rounded-2xl overflow-hidden shadow-2xl">
-               <div className="flex items-center p-4 border-b border-slate-800 space-x-2">
-                <div className="w-2 h-2 rounded-full bg-emerald-500" />
-                <span className="text-sm font-semibold text-slate-300">AI Coach (Alex)</span>
+            {isActive && sessionMode !== 'text' && <SpeechGauges metrics={speechMetrics} />}
+            {isActive && sessionMode === 'video' && <NonVerbalGauges metrics={nonVerbalMetrics} />}
+
+            {/* Bottom Transcription Area */}
+            <div className={`${isTextSession ? 'h-72' : 'h-48'} glass rounded-2xl p-4 overflow-hidden flex flex-col`}>
+              <div className="flex items-center justify-between mb-3">
+                <h4 className="text-xs font-bold text-slate-500 uppercase tracking-widest">
+                  {viewedSession ? t('transcriptOf', { title: viewedSession.title }) : t('liveTranscript')}
+                </h4>
+                {viewedSession && (
+                  <button
+                    onClick={() => setViewedSession(null)}
+                    className="text-[10px] font-bold uppercase tracking-wider text-blue-400 hover:text-blue-300"
+                  >
+                    {t('backToCurrent')}
+                  </button>
+                )}
               </div>
-              <div className="flex-1 flex items-center justify-center bg-slate-900/50">
-                <InterviewerAvatar isSpeaking={isSpeaking} />
+              <div className="flex-1 overflow-y-auto space-y-3 pr-2 custom-scrollbar">
+                <QuestionTranscript
+                  transcriptions={shownTranscriptions}
+                  turns={questionTurns}
+                  onRetry={isActive ? undefined : turn => requestStart(viewedSession?.config ?? config, { retryQuestion: turn.question })}
+                  analysis={{
+                    analyses: shownAnalyses,
+                    statusOf: answerAnalysis.statusOf,
+                    canAnalyze: answerAnalysis.canAnalyze,
+                    onAnalyze: answerAnalysis.analyze,
+                  }}
+                />
               </div>
+              {isActive && <LiveCaptions buffer={transcriptionBuffer} interviewerName={persona.name} repliesMuted={!speakReplies} />}
+              {isTextSession && (
+                <TranscriptComposer
+                  onSend={sendTypedAnswer}
+                  speakReplies={speakReplies}
+                  onSpeakRepliesChange={setSpeakReplies}
+                  onDraftChange={setIsTyping}
+                  disabled={isPaused || isSummarizing || connectionState !== ConnectionState.CONNECTED}
+                />
+              )}
             </div>
           </div>
 
-          {/* Bottom Transcription Area */}
-          <div className="h-48 glass rounded-2xl p-4 overflow-hidden flex flex-col">
-            <h4 className="text-xs font-bold text-slate-500 uppercase tracking-widest mb-3">Live Transcript</h4>
-            <div className="flex-1 overflow-y-auto space-y-3 pr-2 custom-scrollbar">
-              {transcriptions.length === 0 ? (
-                <p className="text-slate-600 italic text-sm text-center py-8">Transcription will appear as you speak...</p>
-              ) : (
-                transcriptions.map((t, i) => (
-                  <div key={i} className={`flex space-x-3 ${t.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-                    <div className={`max-w-[80%] px-4 py-2 rounded-2xl text-sm ${
-                      t.role === 'user' 
-                        ? 'bg-blue-600/20 text-blue-100 rounded-tr-none' 
-                        : 'bg-slate-800 text-slate-200 rounded-tl-none'
-                    }`}>
-                      <p>{t.text}</p>
-                    </div>
-                  </div>
-                ))
-              )}
+          {/* Right Side: Real-time Feedback Panel */}
+          <div className="w-80 flex flex-col space-y-4">
+            {shownRequirements.length > 0 && <CoveragePanel requirements={shownRequirements} />}
+            <div className="glass rounded-2xl p-5 flex flex-col flex-1 min-h-0 overflow-hidden">
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="font-bold text-slate-100 flex items-center space-x-2">
+                  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5 text-amber-500">
+                    <path strokeLinecap="round" strokeLinejoin="round" d="m3.75 13.5 10.5-11.25L12 10.5h8.25L9.75 21.75 12 13.5H3.75Z" />
+                  </svg>
+                  <span>{t('performanceFeed')}</span>
+                </h2>
+                <span className="bg-slate-800 text-slate-400 text-[10px] px-2 py-0.5 rounded font-bold">{shownFeedbacks.length}</span>
+              </div>
+              <FeedbackList
+                feedbacks={shownFeedbacks}
+                onSelect={isReviewing ? fb => setSeekRequest({ timestamp: fb.timestamp, key: Date.now() }) : undefined}
+                onUpdate={handleFeedbackUpdate}
+                announceNew={isActive && !viewedSession}
+              />
             </div>
           </div>
-        </div>
-
-        {/* Right Side: Real-time Feedback Panel */}
-        <div className="w-80 flex flex-col space-y-4">
-          <div className="glass rounded-2xl p-5 flex flex-col h-full overflow-hidden">
-            <div className="flex items-center justify-between mb-6">
-              <h2 className="font-bold text-slate-100 flex items-center space-x-2">
-                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5 text-amber-500">
-                  <path strokeLinecap="round" strokeLinejoin="round" d="m3.75 13.5 10.5-11.25L12 10.5h8.25L9.75 21.75 12 13.5H3.75Z" />
+        </main>
+
+        {/* Setup Overlay */}
+        {isSetupOpen && !isActive && (
+          <InterviewSetup
+            initialConfig={config}
+            onStart={requestStart}
+            onCancel={() => setIsSetupOpen(false)}
+          />
+        )}
+
+        {/* Pre-flight Device Check */}
+        {pendingStart && !isActive && <PreflightCheck onReady={startSession} onCancel={cancelPreflight} />}
+
+        {/* Scorecard Overlay */}
+        {isScorecardOpen && !isActive && shownScorecard && (
+          <ScorecardView scorecard={shownScorecard} feedbacks={shownFeedbacks} onClose={() => setIsScorecardOpen(false)} />
+        )}
+
+        {/* Progress Dashboard */}
+        {isDashboardOpen && !isActive && <ProgressDashboard onClose={() => setIsDashboardOpen(false)} />}
+
+        {/* History Sidebar */}
+        {isHistoryOpen && !isActive && (
+          <SessionHistory
+            selectedId={viewedSession?.id ?? null}
+            onSelect={setViewedSession}
+            onRenamed={renamed => {
+              handleSessionRenamed(renamed);
+              setViewedSession(prev => (prev?.id === renamed.id ? renamed : prev));
+            }}
+            onDeleted={id => {
+              handleSessionDeleted(id);
+              setViewedSession(prev => (prev?.id === id ? null : prev));
+            }}
+            onClose={() => setIsHistoryOpen(false)}
+          />
+        )}
+
+        {/* Error Overlay */}
+        {error && (
+          <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-6">
+            <div className="bg-slate-900 border border-red-500/50 p-8 rounded-3xl max-w-md w-full shadow-2xl text-center">
+              <div className="w-16 h-16 bg-red-600/20 rounded-full flex items-center justify-center mx-auto mb-6">
+                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-8 h-8 text-red-500">
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v3.75m9-.75a9 9 0 1 1-18 0 9 9 0 0 1 18 0Zm-9 3.75h.008v.008H12v-.008Z" />
                 </svg>
-                <span>Performance Feed</span>
-              </h2>
-              <span className="bg-slate-800 text-slate-400 text-[10px] px-2 py-0.5 rounded font-bold">{feedbacks.length}</span>
+              </div>
+              <h3 className="text-xl font-bold text-white mb-2">{t('sessionError')}</h3>
+              <p className="text-slate-400 mb-8">{error}</p>
+              <button 
+                onClick={dismissError}
+                className="w-full py-3 bg-slate-800 hover:bg-slate-700 text-white font-semibold rounded-xl transition-all"
+              >
+                {t('dismiss')}
+              </button>
             </div>
-            <FeedbackList feedbacks={feedbacks} />
           </div>
-        </div>
-      </main>
-
-      {/* Error Overlay */}
-      {error && (
-        <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-6">
-          <div className="bg-slate-900 border border-red-500/50 p-8 rounded-3xl max-w-md w-full shadow-2xl text-center">
-            <div className="w-16 h-16 bg-red-600/20 rounded-full flex items-center justify-center mx-auto mb-6">
-              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-8 h-8 text-red-500">
-                <path strokeLinecap="round" strokeLinejoin="round" d="M12 9v3.75m9-.75a9 9 0 1 1-18 0 9 9 0 0 1 18 0Zm-9 3.75h.008v.008H12v-.008Z" />
+        )}
+
+        {/* Splash Screen */}
+        {!isActive && shownTranscriptions.length === 0 && (
+          <div className="fixed inset-0 flex items-center justify-center pointer-events-none z-0 opacity-20">
+            <div className="text-center">
+              <div className="w-64 h-64 bg-blue-600/20 rounded-full blur-[100px] absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2" />
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={0.5} stroke="currentColor" className="w-48 h-48 text-slate-700 mx-auto mb-8 animate-pulse">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M12 18.75a6 6 0 0 0 6-6v-1.5m-6 7.5a6 6 0 0 1-6-6v-1.5m6 7.5v3.75m-3.75 0h7.5M12 15.75a3 3 0 0 1-3-3V4.5a3 3 0 1 1 6 0v8.25a3 3 0 0 1-3 3Z" />
               </svg>
+              <h2 className="text-4xl font-bold text-slate-800">{t('splashTitle')}</h2>
+              <p className="text-slate-700 max-w-sm mx-auto mt-4">{t('splashBody')}</p>
             </div>
-            <h3 className="text-xl font-bold text-white mb-2">Session Error</h3>
-            <p className="text-slate-400 mb-8">{error}</p>
-            <button 
-              onClick={() => setError(null)}
-              className="w-full py-3 bg-slate-800 hover:bg-slate-700 text-white font-semibold rounded-xl transition-all"
-            >
-              Dismiss
-            </button>
-          </div>
-        </div>
-      )}
-
-      {/* Splash Screen */}
-      {!isActive && transcriptions.length === 0 && (
-        <div className="fixed inset-0 flex items-center justify-center pointer-events-none z-0 opacity-20">
-          <div className="text-center">
-            <div className="w-64 h-64 bg-blue-600/20 rounded-full blur-[100px] absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2" />
-            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={0.5} stroke="currentColor" className="w-48 h-48 text-slate-700 mx-auto mb-8 animate-pulse">
-              <path strokeLinecap="round" strokeLinejoin="round" d="M12 18.75a6 6 0 0 0 6-6v-1.5m-6 7.5a6 6 0 0 1-6-6v-1.5m6 7.5v3.75m-3.75 0h7.5M12 15.75a3 3 0 0 1-3-3V4.5a3 3 0 1 1 6 0v8.25a3 3 0 0 1-3 3Z" />
-            </svg>
-            <h2 className="text-4xl font-bold text-slate-800">Ready to Interview?</h2>
-            <p className="text-slate-700 max-w-sm mx-auto mt-4">Connect your mic and camera to start your personalized coaching session.</p>
           </div>
-        </div>
-      )}
+        )}
 
-      <style>{`
-        .custom-scrollbar::-webkit-scrollbar {
-          width: 4px;
-        }
-        .custom-scrollbar::-webkit-scrollbar-track {
-          background: transparent;
-        }
-        .custom-scrollbar::-webkit-scrollbar-thumb {
-          background: rgba(255, 255, 255, 0.1);
-          border-radius: 10px;
-        }
-        .custom-scrollbar::-webkit-scrollbar-thumb:hover {
-          background: rgba(255, 255, 255, 0.2);
-        }
-        @keyframes slide-in {
-          from { opacity: 0; transform: translateX(20px); }
-          to { opacity: 1; transform: translateX(0); }
-        }
-        .animate-slide-in {
-          animation: slide-in 0.3s ease-out forwards;
-        }
-      `}</style>
-    </div>
+        <style>{`
+          .custom-scrollbar::-webkit-scrollbar {
+            width: 4px;
+          }
+          .custom-scrollbar::-webkit-scrollbar-track {
+            background: transparent;
+          }
+          .custom-scrollbar::-webkit-scrollbar-thumb {
+            background: rgba(255, 255, 255, 0.1);
+            border-radius: 10px;
+          }
+          .custom-scrollbar::-webkit-scrollbar-thumb:hover {
+            background: rgba(255, 255, 255, 0.2);
+          }
+          @keyframes slide-in {
+            from { opacity: 0; transform: translateX(20px); }
+            to { opacity: 1; transform: translateX(0); }
+          }
+          .animate-slide-in {
+            animation: slide-in 0.3s ease-out forwards;
+          }
+        `}</style>
+      </div>
+    </I18nContext.Provider>
   );
 };
 
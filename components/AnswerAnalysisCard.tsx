@@ -0,0 +1,119 @@
+import React from 'react';
+import { AnswerAnalysis, StarPart } from '../types';
+import { AnalysisStatus } from '../hooks/useAnswerAnalysis';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../services/i18n';
+
+interface AnswerAnalysisCardProps {
+  analysis?: AnswerAnalysis;
+  status?: AnalysisStatus;
+  /** Left out when the answer is too short to analyze. */
+  onAnalyze?: () => void;
+}
+
+const STAR_LABEL_KEYS: Record<StarPart, MessageKey> = {
+  [StarPart.SITUATION]: 'starSituation',
+  [StarPart.TASK]: 'starTask',
+  [StarPart.ACTION]: 'starAction',
+  [StarPart.RESULT]: 'starResult',
+};
+
+/** Expandable STAR breakdown of one answer; missing parts are outlined so they stand out when skimming. */
+const AnswerAnalysisCard: React.FC<AnswerAnalysisCardProps> = ({ analysis, status, onAnalyze }) => {
+  const { t } = useI18n();
+  const analyzeButton = onAnalyze && (
+    <button
+      type="button"
+      onClick={onAnalyze}
+      className="text-[10px] font-bold uppercase tracking-wider text-blue-400 hover:text-blue-300"
+    >
+      {t('analyzeAnswer')}
+    </button>
+  );
+
+  if (status?.pending) {
+    return <p className="text-[10px] text-slate-500 italic" role="status">{t('analyzingAnswer')}</p>;
+  }
+  if (!analysis) {
+    if (status && !status.pending) {
+      return (
+        <div className="flex items-center space-x-3 text-[10px]">
+          <span className="text-red-400">{t('analysisFailed', { message: status.error })}</span>
+          {analyzeButton}
+        </div>
+      );
+    }
+    return analyzeButton || null;
+  }
+
+  const covered = analysis.star.filter(s => s.present).length;
+
+  return (
+    <details className="group rounded-xl border border-slate-800 bg-slate-900/60">
+      <summary className="flex items-center justify-between px-3 py-2 cursor-pointer list-none">
+        <span className="text-[10px] font-bold uppercase tracking-widest text-slate-400">
+          <span className="inline-block mr-1 transition-transform group-open:rotate-90" aria-hidden="true">›</span>
+          {t('starBreakdown')}
+        </span>
+        <span className="flex items-center space-x-1">
+          {analysis.star.map(segment => (
+            <span
+              key={segment.part}
+              title={`${t(STAR_LABEL_KEYS[segment.part])}: ${t(segment.present ? 'starPresent' : 'starMissing')}`}
+              className={`w-5 h-5 flex items-center justify-center rounded text-[10px] font-bold ${
+                segment.present ? 'bg-green-500/20 text-green-300' : 'border border-dashed border-amber-500 text-amber-400'
+              }`}
+            >
+              {t(STAR_LABEL_KEYS[segment.part]).charAt(0)}
+            </span>
+          ))}
+          <span className="sr-only">{t('starCoverage', { count: covered })}</span>
+        </span>
+      </summary>
+
+      <div className="px-3 pb-3 space-y-3 text-xs">
+        <ul className="space-y-2">
+          {analysis.star.map(segment => (
+            <li
+              key={segment.part}
+              className={`rounded-lg px-3 py-2 ${segment.present ? 'bg-slate-800/60' : 'border border-dashed border-amber-500/60 bg-amber-500/5'}`}
+            >
+              <div className="flex items-center justify-between mb-1">
+                <span className="font-bold text-slate-200">{t(STAR_LABEL_KEYS[segment.part])}</span>
+                <span className={`text-[10px] font-bold uppercase tracking-wider ${segment.present ? 'text-green-400' : 'text-amber-400'}`}>
+                  {segment.present ? `✓ ${t('starPresent')}` : `! ${t('starMissing')}`}
+                </span>
+              </div>
+              {segment.quote && <p className="italic text-slate-300">“{segment.quote}”</p>}
+              {segment.note && <p className="text-slate-400 mt-1">{segment.note}</p>}
+            </li>
+          ))}
+        </ul>
+
+        <div className={`rounded-lg px-3 py-2 ${analysis.impact.quantified ? 'bg-slate-800/60' : 'border border-dashed border-amber-500/60 bg-amber-500/5'}`}>
+          <p className={`font-bold mb-1 ${analysis.impact.quantified ? 'text-green-400' : 'text-amber-400'}`}>
+            {analysis.impact.quantified ? `✓ ${t('impactQuantified')}` : `! ${t('impactNotQuantified')}`}
+          </p>
+          {analysis.impact.metrics.length > 0 && (
+            <div className="flex flex-wrap gap-1 mb-1">
+              {analysis.impact.metrics.map(metric => (
+                <span key={metric} className="px-2 py-0.5 rounded-full bg-green-500/10 text-green-300 text-[10px]">{metric}</span>
+              ))}
+            </div>
+          )}
+          {analysis.impact.suggestion && <p className="text-slate-400">{analysis.impact.suggestion}</p>}
+        </div>
+
+        {analysis.rewrite && (
+          <div>
+            <p className="text-[10px] font-bold uppercase tracking-widest text-blue-400 mb-1">{t('suggestedRewrite')}</p>
+            <p className="text-slate-200 whitespace-pre-line leading-relaxed">{analysis.rewrite}</p>
+          </div>
+        )}
+        {analyzeButton}
+      </div>
+    </details>
+  );
+};
+
+export default AnswerAnalysisCard;
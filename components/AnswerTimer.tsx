@@ -0,0 +1,48 @@
+
+import React from 'react';
+import { AnswerLimits } from '../types';
+import { AnswerPhase, formatDuration } from '../services/answer-timer';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../services/i18n';
+
+interface AnswerTimerProps {
+  elapsedMs: number | null;
+  lastAnswerMs: number | null;
+  limits: AnswerLimits;
+  phase: AnswerPhase;
+}
+
+const PHASE_STYLES: Record<Exclude<AnswerPhase, 'idle'>, { bar: string; text: string; hint: MessageKey | null }> = {
+  answering: { bar: 'bg-blue-500', text: 'text-slate-300', hint: null },
+  overSoft: { bar: 'bg-amber-500', text: 'text-amber-300', hint: 'answerWrapUp' },
+  overHard: { bar: 'bg-red-500', text: 'text-red-300', hint: 'answerOverTime' },
+};
+
+/** Elapsed time for the current answer against its soft and hard limits. */
+const AnswerTimer: React.FC<AnswerTimerProps> = ({ elapsedMs, lastAnswerMs, limits, phase }) => {
+  const { t } = useI18n();
+  if (phase === 'idle' || elapsedMs === null) {
+    return lastAnswerMs === null ? null : (
+      <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{t('lastAnswer', { time: formatDuration(lastAnswerMs) })}</span>
+    );
+  }
+
+  const style = PHASE_STYLES[phase];
+  const softPercent = (limits.softSec / limits.hardSec) * 100;
+  const percent = Math.min(100, (elapsedMs / (limits.hardSec * 1000)) * 100);
+
+  return (
+    <div className="flex items-center space-x-3" role="timer" aria-label={t('answerTime')}>
+      {style.hint && <span className={`text-[10px] font-bold uppercase tracking-widest ${style.text}`} role="status">{t(style.hint)}</span>}
+      <div className="relative w-24 h-1.5 bg-slate-800 rounded-full overflow-hidden">
+        <div className={`h-full transition-all ${style.bar}`} style={{ width: `${percent}%` }} />
+        <div className="absolute top-0 h-full w-px bg-slate-400/60" style={{ left: `${softPercent}%` }} title={t('nudgeAt', { time: formatDuration(limits.softSec * 1000) })} />
+      </div>
+      <span className={`text-xs font-mono font-semibold ${style.text}`}>
+        {formatDuration(elapsedMs)}<span className="text-slate-500"> / {formatDuration(limits.hardSec * 1000)}</span>
+      </span>
+    </div>
+  );
+};
+
+export default AnswerTimer;
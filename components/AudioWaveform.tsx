@@ -0,0 +1,87 @@
+
+import React, { useEffect, useRef } from 'react';
+import { usePrefersReducedMotion } from '../hooks/usePrefersReducedMotion';
+import { computeRms } from '../services/speech-analytics';
+
+interface AudioWaveformProps {
+  analyser: AnalyserNode | null;
+  /** Stroke color for the waveform. */
+  color: string;
+  label: string;
+  /** Receives the current level (0–1) on every drawn frame. */
+  onLevel?: (level: number) => void;
+  className?: string;
+}
+
+// Speech rarely exceeds this RMS, so it maps to a full level
+const FULL_SCALE_RMS = 0.25;
+// With reduced motion the level is redrawn as a static bar this often instead of every frame
+const REDUCED_MOTION_INTERVAL_MS = 500;
+
+/** Canvas waveform of an AnalyserNode's time-domain signal, drawn once per animation frame. */
+const AudioWaveform: React.FC<AudioWaveformProps> = ({ analyser, color, label, onLevel, className }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const reducedMotion = usePrefersReducedMotion();
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const samples = analyser ? new Float32Array(analyser.fftSize) : null;
+
+    const draw = () => {
+      const ratio = window.devicePixelRatio || 1;
+      const width = Math.round(canvas.clientWidth * ratio);
+      const height = Math.round(canvas.clientHeight * ratio);
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+      ctx.clearRect(0, 0, width, height);
+
+      if (samples && analyser) analyser.getFloatTimeDomainData(samples);
+      const level = samples ? Math.min(1, computeRms(samples) / FULL_SCALE_RMS) : 0;
+      onLevel?.(level);
+
+      ctx.strokeStyle = color;
+      ctx.fillStyle = color;
+      ctx.lineWidth = 2 * ratio;
+      ctx.lineCap = 'round';
+
+      if (reducedMotion || !samples) {
+        // A centered bar whose length follows the level, without a moving trace
+        const barWidth = Math.max(ctx.lineWidth, width * level);
+        ctx.fillRect((width - barWidth) / 2, height / 2 - ctx.lineWidth / 2, barWidth, ctx.lineWidth);
+        return;
+      }
+
+      ctx.beginPath();
+      const step = samples.length / width;
+      for (let x = 0; x < width; x++) {
+        const y = height / 2 + samples[Math.floor(x * step)] * (height / 2) * 0.9;
+        if (x === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+      }
+      ctx.stroke();
+    };
+
+    if (reducedMotion) {
+      draw();
+      const interval = window.setInterval(draw, REDUCED_MOTION_INTERVAL_MS);
+      return () => clearInterval(interval);
+    }
+
+    let frame = 0;
+    const loop = () => {
+      draw();
+      frame = requestAnimationFrame(loop);
+    };
+    loop();
+    return () => cancelAnimationFrame(frame);
+  }, [analyser, color, onLevel, reducedMotion]);
+
+  return <canvas ref={canvasRef} className={className} role="img" aria-label={label} />;
+};
+
+export default AudioWaveform;
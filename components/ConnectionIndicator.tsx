@@ -0,0 +1,39 @@
+
+import React from 'react';
+import { ConnectionState } from '../types';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../services/i18n';
+
+interface ConnectionIndicatorProps {
+  state: ConnectionState;
+  isPaused: boolean;
+}
+
+interface StateStyle {
+  label: MessageKey;
+  dot: string;
+  text: string;
+}
+
+const STATE_STYLES: Record<ConnectionState, StateStyle> = {
+  [ConnectionState.IDLE]: { label: 'connectionOffline', dot: 'bg-slate-500', text: 'text-slate-400' },
+  [ConnectionState.CONNECTING]: { label: 'connectionConnecting', dot: 'bg-blue-500 animate-pulse', text: 'text-blue-300' },
+  [ConnectionState.CONNECTED]: { label: 'connectionLive', dot: 'bg-emerald-500', text: 'text-emerald-300' },
+  [ConnectionState.RECONNECTING]: { label: 'connectionReconnecting', dot: 'bg-amber-500 animate-pulse', text: 'text-amber-300' },
+};
+
+const ConnectionIndicator: React.FC<ConnectionIndicatorProps> = ({ state, isPaused }) => {
+  const { t } = useI18n();
+  const style: StateStyle = isPaused && state === ConnectionState.CONNECTED
+    ? { label: 'connectionPaused', dot: 'bg-slate-400', text: 'text-slate-300' }
+    : STATE_STYLES[state];
+
+  return (
+    <div className="flex items-center space-x-2 px-3 py-1 rounded-full bg-slate-900/60 border border-slate-800" role="status">
+      <div className={`w-2 h-2 rounded-full ${style.dot}`} />
+      <span className={`text-[10px] font-bold uppercase tracking-widest ${style.text}`}>{t(style.label)}</span>
+    </div>
+  );
+};
+
+export default ConnectionIndicator;
@@ -0,0 +1,40 @@
+
+import React from 'react';
+import { JobRequirement } from '../types';
+
+interface CoveragePanelProps {
+  requirements: JobRequirement[];
+}
+
+const CoveragePanel: React.FC<CoveragePanelProps> = ({ requirements }) => {
+  const coveredCount = requirements.filter(r => r.covered).length;
+
+  return (
+    <div className="glass rounded-2xl p-5 flex flex-col max-h-64 overflow-hidden">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="font-bold text-slate-100 text-sm">Requirement Coverage</h2>
+        <span className="bg-slate-800 text-slate-400 text-[10px] px-2 py-0.5 rounded font-bold">
+          {coveredCount}/{requirements.length}
+        </span>
+      </div>
+      <div className="h-1 bg-slate-800 rounded-full mb-3 overflow-hidden">
+        <div
+          className="h-full bg-emerald-500 transition-all duration-500"
+          style={{ width: `${requirements.length ? (coveredCount / requirements.length) * 100 : 0}%` }}
+        />
+      </div>
+      <ul className="flex-1 overflow-y-auto space-y-2 pr-2 custom-scrollbar">
+        {requirements.map(r => (
+          <li key={r.id} className="flex items-start space-x-2 text-xs" title={r.note}>
+            <span className={`mt-0.5 w-3 h-3 flex-shrink-0 rounded-full border ${
+              r.covered ? 'bg-emerald-500 border-emerald-400' : 'border-slate-600'
+            }`} />
+            <span className={r.covered ? 'text-slate-300' : 'text-slate-500'}>{r.text}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default CoveragePanel;
@@ -1,38 +1,213 @@
 
-import React from 'react';
-import { FeedbackMessage, Sentiment } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { FeedbackMessage, FeedbackRating, FeedbackSource, Sentiment } from '../types';
+import { categoryKey, collapseFeedback, CollapsedFeedback, groupByCategory } from '../services/feedback-grouping';
+import { FeedbackPatch } from '../services/interview-session';
+import { MessageKey, SEVERITY_KEYS } from '../services/i18n';
+import { useI18n } from '../hooks/useI18n';
 
 interface FeedbackListProps {
   feedbacks: FeedbackMessage[];
+  onSelect?: (feedback: FeedbackMessage) => void;
+  /** Applies a pin or rating change to the given tips; omit to make the list read-only. */
+  onUpdate?: (ids: string[], patch: FeedbackPatch) => void;
+  /** Announces each new tip to screen readers; set during a live session. */
+  announceNew?: boolean;
 }
 
-const FeedbackList: React.FC<FeedbackListProps> = ({ feedbacks }) => {
-  const sortedFeedbacks = [...feedbacks].sort((a, b) => b.timestamp - a.timestamp);
+const SENTIMENT_LABELS: Record<Sentiment, MessageKey> = {
+  [Sentiment.POSITIVE]: 'sentimentPositive',
+  [Sentiment.NEUTRAL]: 'sentimentNeutral',
+  [Sentiment.IMPROVEMENT]: 'sentimentImprove',
+};
+
+// Shapes as well as colors, so sentiment doesn't rely on color alone
+const SENTIMENT_ICONS: Record<Sentiment, string> = {
+  [Sentiment.POSITIVE]: '✓',
+  [Sentiment.NEUTRAL]: '•',
+  [Sentiment.IMPROVEMENT]: '!',
+};
+
+const SENTIMENT_FILTERS: { value: Sentiment | 'all'; label: MessageKey }[] = [
+  { value: 'all', label: 'sentimentAll' },
+  ...Object.values(Sentiment).map(value => ({ value, label: SENTIMENT_LABELS[value] })),
+];
+
+const SENTIMENT_CLASSES: Record<Sentiment, string> = {
+  [Sentiment.POSITIVE]: 'bg-emerald-950/20 border-emerald-500 text-emerald-200',
+  [Sentiment.IMPROVEMENT]: 'bg-amber-950/20 border-amber-500 text-amber-200',
+  [Sentiment.NEUTRAL]: 'bg-slate-800/50 border-slate-500 text-slate-200',
+};
+
+interface FeedbackCardProps {
+  item: CollapsedFeedback;
+  onSelect?: (feedback: FeedbackMessage) => void;
+  onUpdate?: (ids: string[], patch: FeedbackPatch) => void;
+}
+
+const FeedbackCard: React.FC<FeedbackCardProps> = ({ item, onSelect, onUpdate }) => {
+  const { t, category, formatTime } = useI18n();
+  const { feedback: fb, repeats, pinned } = item;
+  const sentimentLabel = t(SENTIMENT_LABELS[fb.sentiment] ?? 'sentimentNeutral');
+  const rating = fb.rating ?? repeats.find(r => r.rating)?.rating;
+  // Repeats are the same advice, so pins and ratings apply to the whole cluster
+  const clusterIds = [fb.id, ...repeats.map(r => r.id)];
+
+  const rate = (value: FeedbackRating) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onUpdate?.(clusterIds, { rating: rating === value ? undefined : value });
+  };
+
+  const togglePin = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onUpdate?.(clusterIds, { pinned: !pinned });
+  };
 
   return (
-    <div className="flex flex-col space-y-4 max-h-full overflow-y-auto pr-2 custom-scrollbar">
-      {sortedFeedbacks.length === 0 ? (
-        <div className="text-center py-10 text-slate-500 italic">
-          Coach tips will appear here in real-time...
+    <div
+      onClick={onSelect ? () => onSelect(fb) : undefined}
+      role={onSelect ? 'button' : undefined}
+      title={onSelect ? t('jumpToMoment') : undefined}
+      className={`p-4 rounded-xl border-l-4 transition-all animate-slide-in ${onSelect ? 'cursor-pointer hover:brightness-125' : ''} ${SENTIMENT_CLASSES[fb.sentiment] ?? SENTIMENT_CLASSES[Sentiment.NEUTRAL]}`}
+    >
+      <div className="flex justify-between items-start mb-1">
+        <span className="text-xs font-bold uppercase tracking-wider opacity-70">
+          <span className="mr-1.5" aria-hidden="true" title={sentimentLabel}>{SENTIMENT_ICONS[fb.sentiment] ?? SENTIMENT_ICONS[Sentiment.NEUTRAL]}</span>
+          <span className="sr-only">{sentimentLabel}: </span>
+          {category(fb.category)}
+          {fb.source === FeedbackSource.ANALYTICS && (
+            <span className="ml-2 px-1.5 py-0.5 rounded bg-slate-900/60 text-[9px] tracking-widest" title={t('localBadgeTitle')}>{t('localBadge')}</span>
+          )}
+          {fb.severity && (
+            <span className="ml-2 px-1.5 py-0.5 rounded bg-slate-900/60 text-[9px] tracking-widest" title={t('severityTitle')}>{t(SEVERITY_KEYS[fb.severity])}</span>
+          )}
+          {repeats.length > 0 && (
+            <span className="ml-2 px-1.5 py-0.5 rounded bg-slate-900/60 text-[9px] tracking-widest" title={t('repeatsTitle', { count: repeats.length + 1 })}>×{repeats.length + 1}</span>
+          )}
+        </span>
+        <span className="text-[10px] opacity-50">{formatTime(fb.timestamp)}</span>
+      </div>
+      <p className="text-sm font-medium leading-relaxed">{fb.message}</p>
+      {fb.transcriptSpan && (
+        <p className="mt-1 text-xs italic opacity-60 line-clamp-2" title={t('whatYouSaid')}>“{fb.transcriptSpan.quote}”</p>
+      )}
+      {onUpdate && (
+        <div className="flex items-center justify-end space-x-3 mt-2 text-[10px] font-bold uppercase tracking-wider">
+          <button onClick={togglePin} aria-pressed={pinned} className={pinned ? 'text-blue-300' : 'opacity-50 hover:opacity-100'}>
+            {pinned ? t('pinned') : t('pin')}
+          </button>
+          <button onClick={rate('up')} aria-pressed={rating === 'up'} aria-label={t('helpful')} className={rating === 'up' ? 'text-emerald-300' : 'opacity-50 hover:opacity-100'}>
+            👍
+          </button>
+          <button onClick={rate('down')} aria-pressed={rating === 'down'} aria-label={t('notHelpful')} className={rating === 'down' ? 'text-red-300' : 'opacity-50 hover:opacity-100'}>
+            👎
+          </button>
         </div>
-      ) : (
-        sortedFeedbacks.map((fb) => (
-          <div 
-            key={fb.id} 
-            className={`p-4 rounded-xl border-l-4 transition-all animate-slide-in ${
-              fb.sentiment === Sentiment.POSITIVE ? 'bg-emerald-950/20 border-emerald-500 text-emerald-200' :
-              fb.sentiment === Sentiment.IMPROVEMENT ? 'bg-amber-950/20 border-amber-500 text-amber-200' :
-              'bg-slate-800/50 border-slate-500 text-slate-200'
-            }`}
-          >
-            <div className="flex justify-between items-start mb-1">
-              <span className="text-xs font-bold uppercase tracking-wider opacity-70">{fb.category}</span>
-              <span className="text-[10px] opacity-50">{new Date(fb.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}</span>
-            </div>
-            <p className="text-sm font-medium leading-relaxed">{fb.message}</p>
+      )}
+    </div>
+  );
+};
+
+const FeedbackList: React.FC<FeedbackListProps> = ({ feedbacks, onSelect, onUpdate, announceNew }) => {
+  const [categoryFilter, setCategoryFilter] = useState<string>('all');
+  const [sentimentFilter, setSentimentFilter] = useState<Sentiment | 'all'>('all');
+  const [isGrouped, setIsGrouped] = useState(false);
+  const { t, category, locale } = useI18n();
+  const [announcement, setAnnouncement] = useState('');
+  // Newest tip already seen, so only tips arriving after it are announced
+  const lastSeenRef = useRef(0);
+
+  useEffect(() => {
+    const newest = feedbacks.reduce((a: FeedbackMessage | null, fb: FeedbackMessage) => (!a || fb.timestamp > a.timestamp ? fb : a), null);
+    if (announceNew && newest && newest.timestamp > lastSeenRef.current) {
+      setAnnouncement(t('tipAnnouncement', {
+        sentiment: t(SENTIMENT_LABELS[newest.sentiment] ?? 'sentimentNeutral'),
+        category: category(newest.category),
+        message: newest.message,
+      }));
+    }
+    lastSeenRef.current = newest?.timestamp ?? 0;
+  }, [feedbacks, announceNew, t, category]);
+
+  const categories = useMemo(() => {
+    const byKey = new Map<string, string>();
+    feedbacks.forEach(fb => byKey.set(categoryKey(fb.category), category(fb.category)));
+    return [...byKey.entries()].sort((a, b) => a[1].localeCompare(b[1], locale));
+  }, [feedbacks, category, locale]);
+
+  const items = useMemo(() => {
+    const filtered = feedbacks
+      .filter(fb => categoryFilter === 'all' || categoryKey(fb.category) === categoryFilter)
+      .filter(fb => sentimentFilter === 'all' || fb.sentiment === sentimentFilter)
+      .sort((a, b) => b.timestamp - a.timestamp);
+    const collapsed = collapseFeedback(filtered);
+    // Pinned tips stay on top; otherwise newest first
+    return [...collapsed.filter(i => i.pinned), ...collapsed.filter(i => !i.pinned)];
+  }, [feedbacks, categoryFilter, sentimentFilter]);
+
+  const renderCard = (item: CollapsedFeedback) => (
+    <FeedbackCard key={item.feedback.id} item={item} onSelect={onSelect} onUpdate={onUpdate} />
+  );
+
+  return (
+    <div className="flex flex-col min-h-0 flex-1">
+      <div className="sr-only" role="status" aria-live="polite">{announcement}</div>
+      {feedbacks.length > 0 && (
+        <div className="space-y-2 mb-4">
+          <div className="flex items-center space-x-2">
+            <select
+              value={categoryFilter}
+              onChange={e => setCategoryFilter(e.target.value)}
+              aria-label={t('filterByCategory')}
+              className="flex-1 min-w-0 px-2 py-1 bg-slate-800 border border-slate-700 rounded-lg text-xs text-slate-200 focus:outline-none focus:border-blue-500"
+            >
+              <option value="all">{t('allCategories')}</option>
+              {categories.map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+            </select>
+            <button
+              onClick={() => setIsGrouped(g => !g)}
+              aria-pressed={isGrouped}
+              className={`px-2 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider ${isGrouped ? 'bg-blue-600/30 text-blue-200' : 'bg-slate-800 text-slate-400 hover:text-slate-200'}`}
+            >
+              {t('group')}
+            </button>
           </div>
-        ))
+          <div className="flex space-x-1" role="group" aria-label={t('filterBySentiment')}>
+            {SENTIMENT_FILTERS.map(f => (
+              <button
+                key={f.value}
+                onClick={() => setSentimentFilter(f.value)}
+                aria-pressed={sentimentFilter === f.value}
+                className={`flex-1 px-2 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wider ${sentimentFilter === f.value ? 'bg-slate-700 text-slate-100' : 'bg-slate-800/50 text-slate-500 hover:text-slate-300'}`}
+              >
+                {t(f.label)}
+              </button>
+            ))}
+          </div>
+        </div>
       )}
+
+      <div className="flex flex-col space-y-4 max-h-full overflow-y-auto pr-2 custom-scrollbar">
+        {feedbacks.length === 0 ? (
+          <div className="text-center py-10 text-slate-500 italic">
+            {t('feedEmpty')}
+          </div>
+        ) : items.length === 0 ? (
+          <div className="text-center py-10 text-slate-500 italic">{t('feedNoMatch')}</div>
+        ) : isGrouped ? (
+          groupByCategory(items).map(group => (
+            <div key={group.category} className="space-y-3">
+              <div className="flex items-center justify-between border-b border-slate-800 pb-1">
+                <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{category(group.items[0].feedback.category)}</span>
+                <span className="bg-slate-800 text-slate-400 text-[10px] px-2 py-0.5 rounded font-bold">{group.count}</span>
+              </div>
+              {group.items.map(renderCard)}
+            </div>
+          ))
+        ) : (
+          items.map(renderCard)
+        )}
+      </div>
     </div>
   );
 };
@@ -0,0 +1,346 @@
+
+import React, { useState } from 'react';
+import { InterviewConfig, InterviewType, QuestionSet, Seniority } from '../types';
+import { ANSWER_LIMIT_PRESETS, INTERVIEW_LANGUAGES, INTERVIEW_LENGTH_OPTIONS, INTERVIEW_TYPE_LABELS, PERSONAS, ROLE_SUGGESTIONS, SENIORITY_LABELS } from '../services/interview-config';
+import { extractRequirements, readDocumentText } from '../services/document-text';
+import { addCustomQuestionSet, BUILT_IN_QUESTION_SETS, deleteCustomQuestionSet, loadCustomQuestionSets, readQuestionSetFile } from '../services/question-bank';
+
+interface InterviewSetupProps {
+  initialConfig: InterviewConfig;
+  onStart: (config: InterviewConfig) => void;
+  onCancel: () => void;
+}
+
+interface DocumentFieldProps {
+  label: string;
+  placeholder: string;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+const DocumentField: React.FC<DocumentFieldProps> = ({ label, placeholder, value, onChange }) => {
+  const [isReading, setIsReading] = useState(false);
+  const [readError, setReadError] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsReading(true);
+    setReadError(null);
+    try {
+      onChange(await readDocumentText(file));
+    } catch (err) {
+      console.error('Failed to read document:', err);
+      setReadError('Could not read that file. Try pasting the text instead.');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-bold text-slate-500 uppercase tracking-widest">{label}</span>
+        <label className="text-[10px] font-bold uppercase tracking-wider text-blue-400 hover:text-blue-300 cursor-pointer">
+          {isReading ? 'Reading...' : 'Upload'}
+          <input type="file" accept=".txt,.md,.markdown,.pdf,text/plain,text/markdown,application/pdf" onChange={handleFile} className="hidden" />
+        </label>
+      </div>
+      <textarea
+        value={value}
+        onChange={e => onChange(e.target.value)}
+        placeholder={placeholder}
+        rows={5}
+        className="px-4 py-2 bg-slate-800 border border-slate-700 rounded-xl text-slate-100 text-sm focus:outline-none focus:border-blue-500 resize-none custom-scrollbar"
+      />
+      {readError && <p className="text-xs text-red-400">{readError}</p>}
+    </div>
+  );
+};
+
+interface QuestionPlanFieldProps {
+  value: string | null;
+  onChange: (questionSetId: string | null) => void;
+}
+
+const formatLimit = (seconds: number) =>
+  seconds % 60 === 0 ? `${seconds / 60} min` : `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+const QuestionPlanField: React.FC<QuestionPlanFieldProps> = ({ value, onChange }) => {
+  const [customSets, setCustomSets] = useState<QuestionSet[]>(loadCustomQuestionSets);
+  const [importError, setImportError] = useState<string | null>(null);
+  const selected = [...BUILT_IN_QUESTION_SETS, ...customSets].find(s => s.id === value) ?? null;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImportError(null);
+    try {
+      const set = await readQuestionSetFile(file);
+      setCustomSets(addCustomQuestionSet(set));
+      onChange(set.id);
+    } catch (err) {
+      console.error('Failed to import question set:', err);
+      setImportError(err instanceof Error ? err.message : 'Could not import that file.');
+    }
+  };
+
+  const handleDelete = () => {
+    if (!selected || selected.builtIn) return;
+    setCustomSets(deleteCustomQuestionSet(selected.id));
+    onChange(null);
+  };
+
+  return (
+    <div className="flex flex-col space-y-2 mb-6">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-bold text-slate-500 uppercase tracking-widest">Question Plan</span>
+        <div className="flex items-center space-x-3">
+          {selected && !selected.builtIn && (
+            <button type="button" onClick={handleDelete} className="text-[10px] font-bold uppercase tracking-wider text-red-400 hover:text-red-300">
+              Delete
+            </button>
+          )}
+          <label className="text-[10px] font-bold uppercase tracking-wider text-blue-400 hover:text-blue-300 cursor-pointer">
+            Import
+            <input type="file" accept=".json,.yaml,.yml,application/json,application/yaml,text/yaml" onChange={handleFile} className="hidden" />
+          </label>
+        </div>
+      </div>
+      <select
+        value={value ?? ''}
+        onChange={e => onChange(e.target.value || null)}
+        className="px-4 py-2 bg-slate-800 border border-slate-700 rounded-xl text-slate-100 focus:outline-none focus:border-blue-500"
+      >
+        <option value="">None (the interviewer improvises)</option>
+        <optgroup label="Built-in">
+          {BUILT_IN_QUESTION_SETS.map(s => <option key={s.id} value={s.id}>{s.title} · {s.questions.length} questions</option>)}
+        </optgroup>
+        {customSets.length > 0 && (
+          <optgroup label="Imported">
+            {customSets.map(s => <option key={s.id} value={s.id}>{s.title} · {s.questions.length} questions</option>)}
+          </optgroup>
+        )}
+      </select>
+      {importError && <p className="text-xs text-red-400">{importError}</p>}
+      {selected && (
+        <div className="bg-slate-800/50 rounded-xl p-3 max-h-40 overflow-y-auto custom-scrollbar">
+          {selected.description && <p className="text-xs text-slate-400 mb-2">{selected.description}</p>}
+          <ol className="space-y-1 list-decimal list-inside text-xs text-slate-300">
+            {selected.questions.map(q => (
+              <li key={q.id}>
+                {q.text}
+                {q.timeLimitSec && <span className="ml-2 text-[10px] text-slate-500">{formatLimit(q.timeLimitSec)}</span>}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const InterviewSetup: React.FC<InterviewSetupProps> = ({ initialConfig, onStart, onCancel }) => {
+  const [config, setConfig] = useState<InterviewConfig>(initialConfig);
+
+  const update = <K extends keyof InterviewConfig>(key: K, value: InterviewConfig[K]) => {
+    setConfig(prev => ({ ...prev, [key]: value }));
+  };
+
+  const updateLimit = (key: keyof InterviewConfig['answerLimits'], minutes: number) => {
+    if (!Number.isFinite(minutes) || minutes <= 0) return;
+    setConfig(prev => ({ ...prev, answerLimits: { ...prev.answerLimits, [key]: Math.round(minutes * 60) } }));
+  };
+
+  const requirementCount = extractRequirements(config.jobDescription).length;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const { softSec, hardSec } = config.answerLimits;
+    onStart({ ...config, jobRole: config.jobRole.trim(), answerLimits: { softSec, hardSec: Math.max(softSec, hardSec) } });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-40 flex items-center justify-center p-6">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-slate-900 border border-slate-700 p-8 rounded-3xl max-w-2xl w-full shadow-2xl max-h-full overflow-y-auto custom-scrollbar"
+      >
+        <h3 className="text-xl font-bold text-white mb-1">Interview Setup</h3>
+        <p className="text-slate-400 text-sm mb-6">Tailor the mock interview before you start.</p>
+
+        <div className="grid grid-cols-2 gap-4 mb-6">
+          <label className="col-span-2 flex flex-col space-y-2">
+            <span className="text-xs font-bold text-slate-500 uppercase tracking-widest">Job Role</span>
+            <input
+              list="role-suggestions"
+              value={config.jobRole}
+              onChange={e => update('jobRole', e.target.value)}
+              required
+              className="px-4 py-2 bg-slate-800 border border-slate-700 rounded-xl text-slate-100 focus:outline-none focus:border-blue-500"
+            />
+            <datalist id="role-suggestions">
+              {ROLE_SUGGESTIONS.map(role => <option key={role} value={role} />)}
+            </datalist>
+          </label>
+
+          <label className="flex flex-col space-y-2">
+            <span className="text-xs font-bold text-slate-500 uppercase tracking-widest">Seniority</span>
+            <select
+              value={config.seniority}
+              onChange={e => update('seniority', e.target.value as Seniority)}
+              className="px-4 py-2 bg-slate-800 border border-slate-700 rounded-xl text-slate-100 focus:outline-none focus:border-blue-500"
+            >
+              {Object.values(Seniority).map(s => <option key={s} value={s}>{SENIORITY_LABELS[s]}</option>)}
+            </select>
+          </label>
+
+          <label className="flex flex-col space-y-2">
+            <span className="text-xs font-bold text-slate-500 uppercase tracking-widest">Interview Type</span>
+            <select
+              value={config.interviewType}
+              onChange={e => {
+                const interviewType = e.target.value as InterviewType;
+                update('interviewType', interviewType);
+                update('answerLimits', ANSWER_LIMIT_PRESETS[interviewType]);
+              }}
+              className="px-4 py-2 bg-slate-800 border border-slate-700 rounded-xl text-slate-100 focus:outline-none focus:border-blue-500"
+            >
+              {Object.values(InterviewType).map(t => <option key={t} value={t}>{INTERVIEW_TYPE_LABELS[t]}</option>)}
+            </select>
+          </label>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4 mb-2">
+          <DocumentField
+            label="Job Description"
+            placeholder="Paste the job description, or upload a .txt, .md or .pdf file"
+            value={config.jobDescription}
+            onChange={value => update('jobDescription', value)}
+          />
+          <DocumentField
+            label="Résumé"
+            placeholder="Paste your résumé, or upload a .txt, .md or .pdf file"
+            value={config.resume}
+            onChange={value => update('resume', value)}
+          />
+        </div>
+        <p className="text-[10px] text-slate-500 mb-6">
+          {requirementCount > 0
+            ? `${requirementCount} requirement${requirementCount === 1 ? '' : 's'} detected for coverage tracking.`
+            : 'Optional. Bulleted requirements in the job description are tracked for coverage.'}
+        </p>
+
+        <QuestionPlanField value={config.questionSetId} onChange={id => update('questionSetId', id)} />
+
+        <div className="grid grid-cols-3 gap-4 mb-2">
+          <label className="flex flex-col space-y-2">
+            <span className="text-xs font-bold text-slate-500 uppercase tracking-widest">Answer Nudge (min)</span>
+            <input
+              type="number"
+              min={0.5}
+              step={0.5}
+              value={config.answerLimits.softSec / 60}
+              onChange={e => updateLimit('softSec', e.target.valueAsNumber)}
+              className="px-4 py-2 bg-slate-800 border border-slate-700 rounded-xl text-slate-100 focus:outline-none focus:border-blue-500"
+            />
+          </label>
+          <label className="flex flex-col space-y-2">
+            <span className="text-xs font-bold text-slate-500 uppercase tracking-widest">Answer Limit (min)</span>
+            <input
+              type="number"
+              min={config.answerLimits.softSec / 60}
+              step={0.5}
+              value={config.answerLimits.hardSec / 60}
+              onChange={e => updateLimit('hardSec', e.target.valueAsNumber)}
+              className="px-4 py-2 bg-slate-800 border border-slate-700 rounded-xl text-slate-100 focus:outline-none focus:border-blue-500"
+            />
+          </label>
+          <label className="flex flex-col space-y-2">
+            <span className="text-xs font-bold text-slate-500 uppercase tracking-widest">Interview Length</span>
+            <select
+              value={config.interviewMinutes ?? ''}
+              onChange={e => update('interviewMinutes', e.target.value ? Number(e.target.value) : null)}
+              className="px-4 py-2 bg-slate-800 border border-slate-700 rounded-xl text-slate-100 focus:outline-none focus:border-blue-500"
+            >
+              <option value="">No limit</option>
+              {INTERVIEW_LENGTH_OPTIONS.map(m => <option key={m} value={m}>{m} minutes</option>)}
+            </select>
+          </label>
+        </div>
+        <p className="text-[10px] text-slate-500 mb-6">
+          You get a nudge at the first mark and the interviewer asks you to wrap up at the second. Planned questions with their own time limit use it instead. When the interview length runs out, the summary starts automatically.
+        </p>
+
+        <label className="flex flex-col space-y-2 mb-2">
+          <span className="text-xs font-bold text-slate-500 uppercase tracking-widest">Interview Language</span>
+          <select
+            value={config.language}
+            onChange={e => update('language', e.target.value)}
+            className="px-4 py-2 bg-slate-800 border border-slate-700 rounded-xl text-slate-100 focus:outline-none focus:border-blue-500"
+          >
+            {INTERVIEW_LANGUAGES.map(l => <option key={l.code} value={l.code} lang={l.code}>{l.label}</option>)}
+          </select>
+        </label>
+        <p className="text-[10px] text-slate-500 mb-6">
+          The interviewer speaks, transcribes and coaches in this language, and the app's labels follow it.
+        </p>
+
+        <span className="block text-xs font-bold text-slate-500 uppercase tracking-widest mb-2">Interviewer</span>
+        <div className="grid grid-cols-2 gap-3 mb-6">
+          {PERSONAS.map(persona => (
+            <button
+              key={persona.id}
+              type="button"
+              onClick={() => update('personaId', persona.id)}
+              className={`p-4 rounded-xl border text-left transition-all ${
+                config.personaId === persona.id
+                  ? 'bg-blue-600/20 border-blue-500 text-blue-100'
+                  : 'bg-slate-800/50 border-slate-700 text-slate-300 hover:border-slate-500'
+              }`}
+            >
+              <div className="flex justify-between items-center">
+                <span className="font-semibold">{persona.name}</span>
+                <span className="text-[10px] uppercase tracking-wider opacity-60">{persona.voiceName}</span>
+              </div>
+              <p className="text-xs opacity-70 mt-1">{persona.description}</p>
+            </button>
+          ))}
+        </div>
+
+        <label className="flex items-center space-x-3 mb-8 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={config.recordSession}
+            onChange={e => update('recordSession', e.target.checked)}
+            className="w-4 h-4 accent-blue-600"
+          />
+          <span className="text-sm text-slate-300">
+            Record this session locally
+            <span className="block text-[10px] text-slate-500">Camera, mic and interviewer audio are saved in this browser only, for review with feedback.</span>
+          </span>
+        </label>
+
+        <div className="flex space-x-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="flex-1 py-3 bg-slate-800 hover:bg-slate-700 text-white font-semibold rounded-xl transition-all"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            className="flex-1 py-3 bg-blue-600 hover:bg-blue-500 text-white font-semibold rounded-xl transition-all active:scale-95"
+          >
+            Start Interview
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default InterviewSetup;
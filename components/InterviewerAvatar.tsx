@@ -1,36 +1,55 @@
 
-import React from 'react';
+import React, { useCallback, useEffect, useRef } from 'react';
+import { usePrefersReducedMotion } from '../hooks/usePrefersReducedMotion';
+import { useI18n } from '../hooks/useI18n';
+import AudioWaveform from './AudioWaveform';
 
 interface InterviewerAvatarProps {
+  name: string;
   isSpeaking: boolean;
+  /** Analyser on the interviewer's playback, driving the waveform and pulse. */
+  analyser: AnalyserNode | null;
 }
 
-const InterviewerAvatar: React.FC<InterviewerAvatarProps> = ({ isSpeaking }) => {
+// How much the avatar grows at full level
+const MAX_PULSE_SCALE = 0.12;
+
+const InterviewerAvatar: React.FC<InterviewerAvatarProps> = ({ name, isSpeaking, analyser }) => {
+  const avatarRef = useRef<HTMLDivElement>(null);
+  const reducedMotion = usePrefersReducedMotion();
+  const { t } = useI18n();
+
+  // Written straight to the element so the pulse doesn't re-render React every frame
+  const handleLevel = useCallback((level: number) => {
+    if (avatarRef.current) avatarRef.current.style.transform = `scale(${1 + level * MAX_PULSE_SCALE})`;
+  }, []);
+
+  useEffect(() => {
+    if (reducedMotion && avatarRef.current) avatarRef.current.style.transform = '';
+  }, [reducedMotion]);
+
   return (
     <div className="flex flex-col items-center justify-center p-8 space-y-6">
-      <div className={`relative w-32 h-32 rounded-full bg-gradient-to-tr from-blue-600 to-indigo-500 shadow-xl flex items-center justify-center transition-all duration-500 ${isSpeaking ? 'scale-110 shadow-blue-500/50 pulse-ring' : 'scale-100'}`}>
+      <div
+        ref={avatarRef}
+        className={`relative w-32 h-32 rounded-full bg-gradient-to-tr from-blue-600 to-indigo-500 shadow-xl flex items-center justify-center transition-shadow duration-500 ${isSpeaking ? 'shadow-blue-500/50' : ''} ${isSpeaking && !reducedMotion ? 'pulse-ring' : ''}`}
+      >
         <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={1.5} stroke="currentColor" className="w-16 h-16 text-white">
           <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 6a3.75 3.75 0 1 1-7.5 0 3.75 3.75 0 0 1 7.5 0ZM4.501 20.118a7.5 7.5 0 0 1 14.998 0A17.933 17.933 0 0 1 12 21.75c-2.676 0-5.216-.584-7.499-1.632Z" />
         </svg>
       </div>
       <div className="text-center">
-        <h3 className="text-xl font-semibold text-slate-100">Alex</h3>
-        <p className="text-slate-400 text-sm">{isSpeaking ? 'Speaking...' : 'Listening...'}</p>
-      </div>
-      
-      {/* Waveform Visualization Placeholder */}
-      <div className="flex items-end space-x-1 h-8">
-        {[...Array(12)].map((_, i) => (
-          <div
-            key={i}
-            className={`w-1 rounded-full bg-blue-400 transition-all duration-150 ${isSpeaking ? 'animate-bounce' : 'h-1'}`}
-            style={{ 
-              height: isSpeaking ? `${Math.random() * 100}%` : '4px',
-              animationDelay: `${i * 0.05}s`
-            }}
-          />
-        ))}
+        <h3 className="text-xl font-semibold text-slate-100">{name}</h3>
+        <p className="text-slate-400 text-sm">{isSpeaking ? t('avatarSpeaking') : t('avatarListening')}</p>
       </div>
+
+      <AudioWaveform
+        analyser={analyser}
+        color="#60a5fa"
+        label={t('voiceLevel', { name })}
+        onLevel={reducedMotion ? undefined : handleLevel}
+        className="w-40 h-8"
+      />
     </div>
   );
 };
@@ -0,0 +1,52 @@
+import React from 'react';
+import { useI18n } from '../hooks/useI18n';
+
+interface LiveCaptionsProps {
+  /** Partial text of the current turn, before it is committed to the transcript. */
+  buffer: { user: string; model: string };
+  interviewerName: string;
+  /** Whether the interviewer's replies are muted, so the captions are the only way to follow them. */
+  repliesMuted: boolean;
+}
+
+// Long turns keep only their tail so the caption stays two lines or so
+const MAX_CAPTION_CHARS = 160;
+
+const tail = (text: string) => {
+  const trimmed = text.trim();
+  if (trimmed.length <= MAX_CAPTION_CHARS) return trimmed;
+  const cut = trimmed.slice(-MAX_CAPTION_CHARS);
+  return `…${cut.slice(cut.indexOf(' ') + 1)}`;
+};
+
+/**
+ * Streams the in-progress turn as captions. The candidate's own line is never
+ * announced, and the interviewer's only when their replies are muted: otherwise
+ * they are already heard, and announcing every fragment would drown out the tips.
+ */
+const LiveCaptions: React.FC<LiveCaptionsProps> = ({ buffer, interviewerName, repliesMuted }) => {
+  const { t } = useI18n();
+  const lines = [
+    { speaker: t('captionYou'), text: tail(buffer.user), className: 'text-blue-200' },
+    { speaker: interviewerName, text: tail(buffer.model), className: 'text-slate-200' },
+  ].filter(line => line.text);
+
+  return (
+    <>
+      {/* Mounted before the reply starts so screen readers pick up each addition */}
+      {repliesMuted && <div className="sr-only" aria-live="polite">{buffer.model}</div>}
+      {lines.length > 0 && (
+        <div className="mt-3 px-3 py-2 rounded-xl bg-black/60 space-y-1" role="region" aria-label={t('liveCaptions')}>
+          {lines.map(line => (
+            <p key={line.speaker} className={`text-sm leading-snug ${line.className}`}>
+              <span className="font-bold mr-2">{line.speaker}:</span>
+              {line.text}
+            </p>
+          ))}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default LiveCaptions;
@@ -0,0 +1,57 @@
+
+import React from 'react';
+import { FaceDistance, NonVerbalMetrics } from '../types';
+import { useI18n } from '../hooks/useI18n';
+import { MessageKey } from '../services/i18n';
+import { Gauge } from './SpeechGauges';
+
+interface NonVerbalGaugesProps {
+  metrics: NonVerbalMetrics;
+}
+
+const DISTANCE_LABELS: Record<Exclude<FaceDistance, 'unknown'>, MessageKey> = {
+  close: 'distanceTooClose',
+  ok: 'gaugeGood',
+  far: 'distanceTooFar',
+};
+
+const NonVerbalGauges: React.FC<NonVerbalGaugesProps> = ({ metrics }) => {
+  const { t } = useI18n();
+  const { isFaceVisible, eyeContactRatio, headMotion, centerOffset, distance } = metrics;
+
+  return (
+    <div className="glass rounded-2xl px-4 py-3 flex items-center gap-4">
+      <div className="flex items-center space-x-2">
+        <div className={`w-2 h-2 rounded-full ${isFaceVisible ? 'bg-emerald-500' : 'bg-slate-600'}`} />
+        <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest whitespace-nowrap">{t('gaugePresence')}</span>
+      </div>
+      <Gauge
+        label={t('categoryEyeContact')}
+        value={(eyeContactRatio * 100).toFixed(0)}
+        unit="%"
+        fill={eyeContactRatio}
+        tone={!isFaceVisible ? 'neutral' : eyeContactRatio < 0.4 ? 'warn' : 'good'}
+      />
+      <Gauge
+        label={t('gaugeHeadMotion')}
+        value={headMotion.toFixed(2)}
+        fill={headMotion}
+        tone={headMotion > 0.6 ? 'warn' : 'neutral'}
+      />
+      <Gauge
+        label={t('gaugeCentering')}
+        value={isFaceVisible ? t(centerOffset > 0.2 ? 'gaugeOff' : 'gaugeGood') : '—'}
+        fill={isFaceVisible ? 1 - centerOffset / 0.5 : 0}
+        tone={isFaceVisible && centerOffset > 0.2 ? 'warn' : 'good'}
+      />
+      <Gauge
+        label={t('gaugeDistance')}
+        value={distance === 'unknown' ? '—' : t(DISTANCE_LABELS[distance])}
+        fill={distance === 'ok' ? 1 : distance === 'unknown' ? 0 : 0.5}
+        tone={distance === 'close' || distance === 'far' ? 'warn' : 'good'}
+      />
+    </div>
+  );
+};
+
+export default NonVerbalGauges;
@@ -0,0 +1,321 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { DeviceSelection, SessionMedia, SessionMode } from '../types';
+import {
+  assessFrame, FrameAssessment, listMediaDevices, loadDeviceSelection, MediaDeviceLists,
+  openMediaStream, playTestTone, saveDeviceSelection, supportsSpeakerSelection,
+} from '../services/media-devices';
+import { computeRms, rmsToDb } from '../services/speech-analytics';
+
+interface PreflightCheckProps {
+  onReady: (media: SessionMedia) => void;
+  onCancel: () => void;
+}
+
+const FRAME_CHECK_INTERVAL_MS = 500;
+// Small frames are plenty for brightness checks and keep them cheap
+const FRAME_CHECK_WIDTH = 160;
+const FRAME_CHECK_HEIGHT = 120;
+const METER_FLOOR_DB = -60;
+
+const LIGHTING_MESSAGES: Record<FrameAssessment['lighting'], string> = {
+  ok: 'Lighting looks good',
+  dark: 'Too dark — add light in front of you',
+  bright: 'Overexposed — reduce direct light',
+  backlit: 'Backlit — avoid a bright window behind you',
+};
+
+const MODE_OPTIONS: { value: SessionMode; label: string; description: string }[] = [
+  { value: 'video', label: 'Video', description: 'Camera and mic' },
+  { value: 'audio', label: 'Audio only', description: 'Mic, camera off' },
+  { value: 'text', label: 'Text chat', description: 'Type your answers' },
+];
+
+const FRAMING_MESSAGES: Record<FrameAssessment['framing'], string> = {
+  ok: 'You are in frame',
+  empty: 'Center yourself in the frame',
+};
+
+interface DeviceSelectProps {
+  label: string;
+  devices: MediaDeviceInfo[];
+  value: string | null;
+  onChange: (id: string | null) => void;
+  disabled?: boolean;
+}
+
+const DeviceSelect: React.FC<DeviceSelectProps> = ({ label, devices, value, onChange, disabled }) => (
+  <label className="flex flex-col space-y-2">
+    <span className="text-xs font-bold text-slate-500 uppercase tracking-widest">{label}</span>
+    <select
+      value={value ?? ''}
+      onChange={e => onChange(e.target.value || null)}
+      disabled={disabled}
+      className="px-4 py-2 bg-slate-800 border border-slate-700 rounded-xl text-slate-100 text-sm focus:outline-none focus:border-blue-500 disabled:opacity-50"
+    >
+      <option value="">System default</option>
+      {devices.map((d, i) => <option key={d.deviceId || i} value={d.deviceId}>{d.label || `${label} ${i + 1}`}</option>)}
+    </select>
+  </label>
+);
+
+const CheckRow: React.FC<{ ok: boolean; message: string }> = ({ ok, message }) => (
+  <div className="flex items-center space-x-2 text-xs">
+    <div className={`w-2 h-2 rounded-full ${ok ? 'bg-emerald-500' : 'bg-amber-500'}`} />
+    <span className={ok ? 'text-slate-300' : 'text-amber-300'}>{message}</span>
+  </div>
+);
+
+const PreflightCheck: React.FC<PreflightCheckProps> = ({ onReady, onCancel }) => {
+  const [selection, setSelection] = useState<DeviceSelection>(loadDeviceSelection);
+  const [mode, setMode] = useState<SessionMode>('video');
+  const [speakReplies, setSpeakReplies] = useState(false);
+  const [devices, setDevices] = useState<MediaDeviceLists>({ cameras: [], microphones: [], speakers: [] });
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [level, setLevel] = useState(0);
+  const [assessment, setAssessment] = useState<FrameAssessment | null>(null);
+  const [isPlayingTone, setIsPlayingTone] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Set once the stream is handed to the session so unmounting doesn't stop it
+  const handedOffRef = useRef(false);
+
+  // Reopen the shared stream whenever the mode or a capture device changes
+  useEffect(() => {
+    setStream(null);
+    setAssessment(null);
+    if (mode === 'text') return;
+    let cancelled = false;
+    let opened: MediaStream | null = null;
+    openMediaStream(selection, mode === 'video')
+      .then(async result => {
+        if (cancelled) {
+          result.getTracks().forEach(track => track.stop());
+          return;
+        }
+        opened = result;
+        setStream(result);
+        setDevices(await listMediaDevices());
+      })
+      .catch(err => {
+        console.error('Pre-flight media error:', err);
+        if (cancelled) return;
+        // Step down a mode rather than blocking the interview
+        if (mode === 'video') {
+          setError('Could not access the camera, so this will be an audio-only interview. Check permissions to use video.');
+          setMode('audio');
+        } else {
+          setError('Could not access the microphone, so you can type your answers instead. Check permissions to answer by voice.');
+          setMode('text');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      if (opened && !handedOffRef.current) opened.getTracks().forEach(track => track.stop());
+    };
+  }, [mode, selection.cameraId, selection.microphoneId]);
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = stream;
+  }, [stream]);
+
+  // Live mic level meter
+  useEffect(() => {
+    if (!stream?.getAudioTracks().length) {
+      setLevel(0);
+      return;
+    }
+    const ctx = new AudioContext();
+    const analyser = ctx.createAnalyser();
+    analyser.fftSize = 1024;
+    ctx.createMediaStreamSource(stream).connect(analyser);
+    const samples = new Float32Array(analyser.fftSize);
+    let frame = 0;
+    const tick = () => {
+      analyser.getFloatTimeDomainData(samples);
+      const db = rmsToDb(computeRms(samples));
+      setLevel(Math.min(1, Math.max(0, (db - METER_FLOOR_DB) / -METER_FLOOR_DB)));
+      frame = requestAnimationFrame(tick);
+    };
+    tick();
+    return () => {
+      cancelAnimationFrame(frame);
+      ctx.close();
+    };
+  }, [stream]);
+
+  // Framing and lighting checks on downscaled frames
+  useEffect(() => {
+    if (!stream?.getVideoTracks().length) return;
+    const interval = window.setInterval(() => {
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (!video || !canvas || video.readyState < 2) return;
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+      if (!ctx) return;
+      ctx.drawImage(video, 0, 0, FRAME_CHECK_WIDTH, FRAME_CHECK_HEIGHT);
+      setAssessment(assessFrame(ctx.getImageData(0, 0, FRAME_CHECK_WIDTH, FRAME_CHECK_HEIGHT)));
+    }, FRAME_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [stream]);
+
+  const update = (key: keyof DeviceSelection, value: string | null) => {
+    setSelection(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleTestTone = async () => {
+    setIsPlayingTone(true);
+    try {
+      await playTestTone(selection.speakerId);
+    } catch (err) {
+      console.error('Test tone failed:', err);
+    } finally {
+      setIsPlayingTone(false);
+    }
+  };
+
+  const chooseMode = (next: SessionMode) => {
+    setError(null);
+    setMode(next);
+  };
+
+  const canJoin = mode === 'text' || stream !== null;
+
+  const handleJoin = () => {
+    if (!canJoin) return;
+    saveDeviceSelection(selection);
+    handedOffRef.current = true;
+    onReady({
+      mode,
+      stream: mode === 'text' ? null : stream,
+      speakerId: selection.speakerId,
+      speakReplies: mode !== 'text' || speakReplies,
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-40 flex items-center justify-center p-6">
+      <div className="bg-slate-900 border border-slate-700 p-8 rounded-3xl max-w-3xl w-full shadow-2xl max-h-full overflow-y-auto custom-scrollbar">
+        <h3 className="text-xl font-bold text-white mb-1">Pre-flight Check</h3>
+        <p className="text-slate-400 text-sm mb-6">Check your camera, mic and speakers before the interviewer joins.</p>
+
+        <div className="grid grid-cols-3 gap-3 mb-6" role="radiogroup" aria-label="Interview mode">
+          {MODE_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              type="button"
+              role="radio"
+              aria-checked={mode === option.value}
+              onClick={() => chooseMode(option.value)}
+              className={`p-3 rounded-xl border text-left transition-all ${
+                mode === option.value
+                  ? 'bg-blue-600/20 border-blue-500 text-blue-100'
+                  : 'bg-slate-800/50 border-slate-700 text-slate-300 hover:border-slate-500'
+              }`}
+            >
+              <span className="block text-sm font-semibold">{option.label}</span>
+              <span className="block text-xs opacity-70">{option.description}</span>
+            </button>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-6 mb-6">
+          <div className="flex flex-col space-y-3">
+            <div className="relative w-full aspect-video rounded-2xl overflow-hidden border border-slate-700 bg-slate-950">
+              <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover scale-x-[-1]" />
+              <canvas ref={canvasRef} width={FRAME_CHECK_WIDTH} height={FRAME_CHECK_HEIGHT} className="hidden" />
+              {mode !== 'video' && (
+                <div className="absolute inset-0 flex items-center justify-center text-sm text-slate-500">
+                  {mode === 'audio' ? 'Camera off' : 'Camera and mic off'}
+                </div>
+              )}
+            </div>
+            {mode === 'video' && assessment && (
+              <div className="space-y-1">
+                <CheckRow ok={assessment.lighting === 'ok'} message={LIGHTING_MESSAGES[assessment.lighting]} />
+                <CheckRow ok={assessment.framing === 'ok'} message={FRAMING_MESSAGES[assessment.framing]} />
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-col space-y-4">
+            <DeviceSelect
+              label="Camera"
+              devices={devices.cameras}
+              value={selection.cameraId}
+              onChange={id => update('cameraId', id)}
+              disabled={mode !== 'video'}
+            />
+            <div className="space-y-2">
+              <DeviceSelect
+                label="Microphone"
+                devices={devices.microphones}
+                value={selection.microphoneId}
+                onChange={id => update('microphoneId', id)}
+                disabled={mode === 'text'}
+              />
+              <div className="h-2 bg-slate-800 rounded-full overflow-hidden" role="meter" aria-label="Microphone level" aria-valuenow={Math.round(level * 100)} aria-valuemin={0} aria-valuemax={100}>
+                <div
+                  className={`h-full transition-[width] duration-75 ${level > 0.9 ? 'bg-red-500' : level > 0.25 ? 'bg-emerald-500' : 'bg-slate-500'}`}
+                  style={{ width: `${level * 100}%` }}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <DeviceSelect
+                label="Speaker"
+                devices={devices.speakers}
+                value={selection.speakerId}
+                onChange={id => update('speakerId', id)}
+                disabled={!supportsSpeakerSelection()}
+              />
+              <button
+                type="button"
+                onClick={handleTestTone}
+                disabled={isPlayingTone}
+                className="text-[10px] font-bold uppercase tracking-wider text-blue-400 hover:text-blue-300 disabled:opacity-50"
+              >
+                {isPlayingTone ? 'Playing...' : 'Play Test Tone'}
+              </button>
+            </div>
+            {mode === 'text' && (
+              <label className="flex items-center space-x-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={speakReplies}
+                  onChange={e => setSpeakReplies(e.target.checked)}
+                  className="w-4 h-4 accent-blue-600"
+                />
+                <span className="text-sm text-slate-300">Read the interviewer's replies aloud</span>
+              </label>
+            )}
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+
+        <div className="flex space-x-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="flex-1 py-3 bg-slate-800 hover:bg-slate-700 text-white font-semibold rounded-xl transition-all"
+          >
+            Back
+          </button>
+          <button
+            type="button"
+            onClick={handleJoin}
+            disabled={!canJoin}
+            className="flex-1 py-3 bg-blue-600 hover:bg-blue-500 text-white font-semibold rounded-xl transition-all active:scale-95 disabled:opacity-50"
+          >
+            Join Interview
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PreflightCheck;
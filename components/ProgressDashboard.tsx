@@ -0,0 +1,103 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { StoredSession } from '../types';
+import { listSessions } from '../services/session-store';
+import { computeCategoryRatios, computeSessionMetrics, topImprovementThemes } from '../services/progress-metrics';
+import TrendChart from './TrendChart';
+
+interface ProgressDashboardProps {
+  onClose: () => void;
+}
+
+const ProgressDashboard: React.FC<ProgressDashboardProps> = ({ onClose }) => {
+  const [sessions, setSessions] = useState<StoredSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    listSessions()
+      .then(all => setSessions(all.filter(s => s.transcriptions.length > 0 || s.feedbacks.length > 0)))
+      .catch(err => console.error('Failed to load sessions:', err))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  // Oldest first so the charts read left to right
+  const metrics = useMemo(
+    () => sessions.map(computeSessionMetrics).filter(m => m.speakingMinutes > 0).reverse(),
+    [sessions],
+  );
+  const ratios = useMemo(() => computeCategoryRatios(sessions), [sessions]);
+  const themes = useMemo(() => topImprovementThemes(sessions), [sessions]);
+
+  const series = (pick: (m: typeof metrics[number]) => number) =>
+    metrics.map(m => ({ label: new Date(m.startedAt).toLocaleDateString(), value: pick(m) }));
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-40 flex items-center justify-center p-6">
+      <div className="bg-slate-900 border border-slate-700 p-8 rounded-3xl max-w-4xl w-full shadow-2xl max-h-full overflow-y-auto custom-scrollbar">
+        <div className="flex items-start justify-between mb-6">
+          <div>
+            <h3 className="text-xl font-bold text-white mb-1">Progress Dashboard</h3>
+            <p className="text-slate-400 text-sm">
+              {isLoading ? 'Loading sessions...' : `Trends across ${sessions.length} saved session${sessions.length === 1 ? '' : 's'}.`}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-200 text-sm">Close</button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-4 mb-8">
+          <TrendChart title="Filler Words" unit="/ min" color="#f59e0b" lowerIsBetter points={series(m => m.fillersPerMinute)} />
+          <TrendChart title="Speaking Pace" unit="wpm" color="#3b82f6" points={series(m => m.wordsPerMinute)} />
+          <TrendChart title="Answer Length" unit="words" color="#10b981" points={series(m => m.averageAnswerWords)} />
+        </div>
+
+        <div className="grid grid-cols-2 gap-6">
+          <div>
+            <h4 className="text-xs font-bold text-slate-500 uppercase tracking-widest mb-3">Feedback by Category</h4>
+            {ratios.length === 0 ? (
+              <p className="text-slate-600 italic text-sm">No feedback recorded yet.</p>
+            ) : (
+              <div className="space-y-3">
+                {ratios.map(r => {
+                  const total = r.positive + r.improvement;
+                  return (
+                    <div key={r.category}>
+                      <div className="flex justify-between text-xs mb-1">
+                        <span className="font-semibold text-slate-300">{r.category}</span>
+                        <span className="text-slate-500">{r.positive} positive · {r.improvement} to improve</span>
+                      </div>
+                      <div className="flex h-2 rounded-full overflow-hidden bg-slate-800">
+                        <div className="bg-emerald-500" style={{ width: `${(r.positive / total) * 100}%` }} />
+                        <div className="bg-amber-500" style={{ width: `${(r.improvement / total) * 100}%` }} />
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <h4 className="text-xs font-bold text-slate-500 uppercase tracking-widest mb-3">Recurring Improvement Themes</h4>
+            {themes.length === 0 ? (
+              <p className="text-slate-600 italic text-sm">No recurring themes yet.</p>
+            ) : (
+              <ol className="space-y-2">
+                {themes.map((t, i) => (
+                  <li key={i} className="p-3 rounded-xl border-l-4 bg-amber-950/20 border-amber-500 text-amber-200">
+                    <div className="flex justify-between items-start mb-1">
+                      <span className="text-xs font-bold uppercase tracking-wider opacity-70">{t.category}</span>
+                      <span className="text-[10px] opacity-60">{t.count}× in {t.sessionCount} session{t.sessionCount === 1 ? '' : 's'}</span>
+                    </div>
+                    <p className="text-sm font-medium">{t.label}</p>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProgressDashboard;
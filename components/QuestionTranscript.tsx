@@ -0,0 +1,107 @@
+
+import React from 'react';
+import { AnswerAnalysis, QuestionTurn, TranscriptionEntry } from '../types';
+import { AnalysisStatus } from '../hooks/useAnswerAnalysis';
+import { useI18n } from '../hooks/useI18n';
+import { Translator } from '../services/i18n';
+import { preambleEntries } from '../services/question-segmentation';
+import AnswerAnalysisCard from './AnswerAnalysisCard';
+
+/** STAR breakdowns of top-level questions; follow-up answers are folded into their parent's. */
+export interface TranscriptAnalysisProps {
+  analyses: AnswerAnalysis[];
+  statusOf: (turnId: string) => AnalysisStatus | undefined;
+  canAnalyze: (turn: QuestionTurn) => boolean;
+  onAnalyze: (turn: QuestionTurn) => void;
+}
+
+interface QuestionTranscriptProps {
+  transcriptions: TranscriptionEntry[];
+  turns: QuestionTurn[];
+  onRetry?: (turn: QuestionTurn) => void;
+  analysis?: TranscriptAnalysisProps;
+}
+
+const TranscriptBubble: React.FC<{ entry: TranscriptionEntry }> = ({ entry }) => (
+  <div className={`flex space-x-3 ${entry.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+    <div className={`max-w-[80%] px-4 py-2 rounded-2xl text-sm ${
+      entry.role === 'user'
+        ? 'bg-blue-600/20 text-blue-100 rounded-tr-none'
+        : 'bg-slate-800 text-slate-200 rounded-tl-none'
+    }`}>
+      <p>{entry.text}</p>
+    </div>
+  </div>
+);
+
+const formatSpan = (turn: QuestionTurn, t: Translator['t']) => {
+  if (turn.endedAt === null) return t('turnInProgress');
+  const seconds = Math.max(0, Math.round((turn.endedAt - turn.startedAt) / 1000));
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+};
+
+const TurnGroup: React.FC<{
+  turn: QuestionTurn;
+  label: string;
+  onRetry?: (turn: QuestionTurn) => void;
+  analysis?: TranscriptAnalysisProps;
+}> = ({ turn, label, onRetry, analysis }) => {
+  const { t } = useI18n();
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between border-b border-slate-800 pb-1">
+        <div className="flex items-center space-x-2 min-w-0">
+          <span className="text-[10px] font-bold text-blue-400 uppercase tracking-widest whitespace-nowrap">{label}</span>
+          <span className="text-xs text-slate-400 truncate" title={turn.question}>{turn.question}</span>
+        </div>
+        <div className="flex items-center space-x-3 text-[10px] text-slate-500 whitespace-nowrap ml-2">
+          <span>{formatSpan(turn, t)}</span>
+          {turn.feedbackIds.length > 0 && <span>{t('tipCount', { count: turn.feedbackIds.length })}</span>}
+          {onRetry && (
+            <button
+              onClick={() => onRetry(turn)}
+              className="font-bold uppercase tracking-wider text-blue-400 hover:text-blue-300"
+            >
+              {t('retry')}
+            </button>
+          )}
+        </div>
+      </div>
+      {turn.entries.map((entry, i) => <TranscriptBubble key={i} entry={entry} />)}
+      {turn.followUps.length > 0 && (
+        <div className="pl-4 border-l border-slate-800 space-y-3">
+          {turn.followUps.map((followUp, i) => (
+            <TurnGroup key={followUp.id} turn={followUp} label={`${label}.${i + 1}`} onRetry={onRetry} />
+          ))}
+        </div>
+      )}
+      {analysis && (
+        <AnswerAnalysisCard
+          analysis={analysis.analyses.find(a => a.turnId === turn.id)}
+          status={analysis.statusOf(turn.id)}
+          onAnalyze={analysis.canAnalyze(turn) ? () => analysis.onAnalyze(turn) : undefined}
+        />
+      )}
+    </div>
+  );
+};
+
+const QuestionTranscript: React.FC<QuestionTranscriptProps> = ({ transcriptions, turns, onRetry, analysis }) => {
+  const { t } = useI18n();
+  if (transcriptions.length === 0) {
+    return <p className="text-slate-600 italic text-sm text-center py-8">{t('transcriptEmpty')}</p>;
+  }
+
+  const preamble = preambleEntries(transcriptions, turns);
+
+  return (
+    <>
+      {preamble.map((entry, i) => <TranscriptBubble key={i} entry={entry} />)}
+      {turns.map((turn, i) => (
+        <TurnGroup key={turn.id} turn={turn} label={t('questionLabel', { number: i + 1 })} onRetry={onRetry} analysis={analysis} />
+      ))}
+    </>
+  );
+};
+
+export default QuestionTranscript;
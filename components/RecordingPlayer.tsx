@@ -0,0 +1,122 @@
+
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { FeedbackMessage, RecordingInfo, Sentiment, TranscriptionEntry } from '../types';
+import { getRecording } from '../services/session-store';
+import { buildCaptions } from '../services/session-export';
+
+export interface SeekRequest {
+  timestamp: number;
+  key: number;
+}
+
+interface RecordingPlayerProps {
+  sessionId: string;
+  recording: RecordingInfo;
+  transcriptions: TranscriptionEntry[];
+  feedbacks: FeedbackMessage[];
+  seekRequest: SeekRequest | null;
+}
+
+// How long a feedback card stays overlaid after its timestamp
+const FEEDBACK_OVERLAY_MS = 4000;
+
+const RecordingPlayer: React.FC<RecordingPlayerProps> = ({ sessionId, recording, transcriptions, feedbacks, seekRequest }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [src, setSrc] = useState<string | null>(null);
+  const [isMissing, setIsMissing] = useState(false);
+  const [currentMs, setCurrentMs] = useState(0);
+
+  useEffect(() => {
+    let url: string | null = null;
+    setSrc(null);
+    setIsMissing(false);
+    getRecording(sessionId)
+      .then(blob => {
+        if (!blob) {
+          setIsMissing(true);
+          return;
+        }
+        url = URL.createObjectURL(blob);
+        setSrc(url);
+      })
+      .catch(err => {
+        console.error('Failed to load recording:', err);
+        setIsMissing(true);
+      });
+    return () => {
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (!seekRequest || !videoRef.current) return;
+    videoRef.current.currentTime = Math.max(0, (seekRequest.timestamp - recording.startedAt) / 1000);
+    videoRef.current.play().catch(() => {});
+  }, [seekRequest, recording.startedAt]);
+
+  const captions = useMemo(() => buildCaptions(transcriptions, recording.startedAt), [transcriptions, recording.startedAt]);
+  const caption = captions.find(c => currentMs >= c.start && currentMs <= c.end);
+  const activeFeedback = feedbacks.filter(fb => {
+    const offset = fb.timestamp - recording.startedAt;
+    return currentMs >= offset && currentMs - offset <= FEEDBACK_OVERLAY_MS;
+  });
+
+  const durationMs = recording.durationMs || 1;
+
+  return (
+    <div className="flex flex-col space-y-2">
+      <div className="relative w-full aspect-video rounded-2xl overflow-hidden border-2 border-slate-700 glass shadow-2xl bg-black">
+        {isMissing ? (
+          <div className="w-full h-full flex items-center justify-center text-slate-500 italic text-sm">Recording not available</div>
+        ) : (
+          <video
+            ref={videoRef}
+            src={src ?? undefined}
+            controls
+            playsInline
+            onTimeUpdate={e => setCurrentMs(e.currentTarget.currentTime * 1000)}
+            className="w-full h-full object-contain"
+          />
+        )}
+        <div className="absolute top-4 right-4 flex flex-col items-end space-y-2 pointer-events-none">
+          {activeFeedback.map(fb => (
+            <div
+              key={fb.id}
+              className={`max-w-xs px-3 py-2 rounded-xl border-l-4 text-xs backdrop-blur animate-slide-in ${
+                fb.sentiment === Sentiment.POSITIVE ? 'bg-emerald-950/70 border-emerald-500 text-emerald-200' :
+                fb.sentiment === Sentiment.IMPROVEMENT ? 'bg-amber-950/70 border-amber-500 text-amber-200' :
+                'bg-slate-800/80 border-slate-500 text-slate-200'
+              }`}
+            >
+              <span className="font-bold uppercase tracking-wider opacity-70 mr-1">{fb.category}</span>
+              {fb.message}
+            </div>
+          ))}
+        </div>
+        {caption && (
+          <div className="absolute bottom-14 left-1/2 -translate-x-1/2 max-w-[85%] px-3 py-1.5 bg-black/70 rounded-lg text-sm text-slate-100 text-center pointer-events-none">
+            {caption.text}
+          </div>
+        )}
+      </div>
+      <div className="relative h-2 bg-slate-800 rounded-full">
+        <div className="absolute inset-y-0 left-0 bg-blue-500/40 rounded-full" style={{ width: `${Math.min(100, (currentMs / durationMs) * 100)}%` }} />
+        {feedbacks.map(fb => (
+          <button
+            key={fb.id}
+            onClick={() => {
+              if (videoRef.current) videoRef.current.currentTime = Math.max(0, (fb.timestamp - recording.startedAt) / 1000);
+            }}
+            title={`${fb.category}: ${fb.message}`}
+            className={`absolute top-1/2 -translate-y-1/2 w-2 h-2 rounded-full ${
+              fb.sentiment === Sentiment.POSITIVE ? 'bg-emerald-400' : fb.sentiment === Sentiment.IMPROVEMENT ? 'bg-amber-400' : 'bg-slate-400'
+            }`}
+            style={{ left: `${Math.min(100, Math.max(0, ((fb.timestamp - recording.startedAt) / durationMs) * 100))}%` }}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default RecordingPlayer;
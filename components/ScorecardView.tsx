@@ -0,0 +1,109 @@
+
+import React, { useMemo } from 'react';
+import { FeedbackMessage, InterviewScorecard, ScoreDimension } from '../types';
+import { averageScore, MAX_SCORE, SCORE_DIMENSION_LABELS } from '../services/scorecard';
+import { summarizeRatings } from '../services/feedback-grouping';
+
+interface ScorecardViewProps {
+  scorecard: InterviewScorecard;
+  /** The session's tips, summarised by how the candidate rated them. */
+  feedbacks?: FeedbackMessage[];
+  onClose: () => void;
+}
+
+const ScorecardView: React.FC<ScorecardViewProps> = ({ scorecard, feedbacks = [], onClose }) => {
+  const ratings = useMemo(() => summarizeRatings(feedbacks), [feedbacks]);
+
+  return (
+    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-40 flex items-center justify-center p-6">
+      <div className="bg-slate-900 border border-slate-700 p-8 rounded-3xl max-w-3xl w-full shadow-2xl max-h-full overflow-y-auto custom-scrollbar">
+        <div className="flex items-start justify-between mb-6">
+          <div>
+            <h3 className="text-xl font-bold text-white mb-1">Interview Scorecard</h3>
+            {scorecard.overallComment && <p className="text-slate-400 text-sm max-w-xl">{scorecard.overallComment}</p>}
+          </div>
+          <div className="text-right">
+            <div className="text-3xl font-bold text-blue-400">{averageScore(scorecard).toFixed(1)}</div>
+            <div className="text-[10px] text-slate-500 uppercase tracking-widest">out of {MAX_SCORE}</div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-5 gap-3 mb-8">
+          {Object.values(ScoreDimension).map(dim => (
+            <div key={dim} className="bg-slate-800/50 rounded-xl p-3">
+              <div className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2">{SCORE_DIMENSION_LABELS[dim]}</div>
+              <div className="text-lg font-semibold text-slate-100 mb-2">{scorecard.scores[dim] > 0 ? scorecard.scores[dim].toFixed(1) : '—'}</div>
+              <div className="h-1 bg-slate-700 rounded-full overflow-hidden">
+                <div className="h-full bg-blue-500" style={{ width: `${(scorecard.scores[dim] / MAX_SCORE) * 100}%` }} />
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-6 mb-8">
+          <div>
+            <h4 className="text-xs font-bold text-emerald-400 uppercase tracking-widest mb-3">Strengths</h4>
+            <ul className="space-y-2">
+              {scorecard.strengths.map((s, i) => (
+                <li key={i} className="p-3 rounded-xl border-l-4 bg-emerald-950/20 border-emerald-500 text-emerald-200 text-sm">{s}</li>
+              ))}
+            </ul>
+          </div>
+          <div>
+            <h4 className="text-xs font-bold text-amber-400 uppercase tracking-widest mb-3">Areas for Improvement</h4>
+            <ul className="space-y-2">
+              {scorecard.improvements.map((s, i) => (
+                <li key={i} className="p-3 rounded-xl border-l-4 bg-amber-950/20 border-amber-500 text-amber-200 text-sm">{s}</li>
+              ))}
+            </ul>
+          </div>
+        </div>
+
+        {scorecard.questionRatings.length > 0 && (
+          <div className="mb-8">
+            <h4 className="text-xs font-bold text-slate-500 uppercase tracking-widest mb-3">Questions</h4>
+            <div className="space-y-2">
+              {scorecard.questionRatings.map((q, i) => (
+                <div key={i} className="flex items-start justify-between bg-slate-800/50 rounded-xl p-3">
+                  <div className="pr-4">
+                    <p className="text-sm text-slate-200 font-medium">{q.question}</p>
+                    {q.comment && <p className="text-xs text-slate-400 mt-1">{q.comment}</p>}
+                  </div>
+                  <span className="text-sm font-bold text-blue-400 whitespace-nowrap">{q.rating.toFixed(1)} / {MAX_SCORE}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {ratings.helpful + ratings.unhelpful > 0 && (
+          <div className="mb-8">
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="text-xs font-bold text-slate-500 uppercase tracking-widest">Tip Ratings</h4>
+              <span className="text-xs text-slate-400">
+                <span className="text-emerald-400 font-bold">{ratings.helpful}</span> helpful · <span className="text-red-400 font-bold">{ratings.unhelpful}</span> not helpful
+              </span>
+            </div>
+            <div className="space-y-2">
+              {ratings.categories.map(c => (
+                <div key={c.category} className="flex items-center justify-between bg-slate-800/50 rounded-xl px-3 py-2 text-sm">
+                  <span className="text-slate-200">{c.category}</span>
+                  <span className="text-xs text-slate-400 whitespace-nowrap">👍 {c.helpful} · 👎 {c.unhelpful}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <button
+          onClick={onClose}
+          className="w-full py-3 bg-slate-800 hover:bg-slate-700 text-white font-semibold rounded-xl transition-all"
+        >
+          Close
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ScorecardView;
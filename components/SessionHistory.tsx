@@ -0,0 +1,166 @@
+
+import React, { useEffect, useState } from 'react';
+import { StoredSession } from '../types';
+import { deleteSession, getSession, listSessions, renameSession, saveSession } from '../services/session-store';
+import { EXPORT_FORMAT_LABELS, ExportFormat, exportSession, parseSessionJson } from '../services/session-export';
+
+interface SessionHistoryProps {
+  selectedId: string | null;
+  onSelect: (session: StoredSession) => void;
+  onRenamed: (session: StoredSession) => void;
+  onDeleted: (id: string) => void;
+  onClose: () => void;
+}
+
+const formatDuration = (session: StoredSession) => {
+  const end = session.endedAt ?? session.updatedAt;
+  const minutes = Math.max(0, Math.round((end - session.startedAt) / 60000));
+  return `${minutes} min`;
+};
+
+const SessionHistory: React.FC<SessionHistoryProps> = ({ selectedId, onSelect, onRenamed, onDeleted, onClose }) => {
+  const [sessions, setSessions] = useState<StoredSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [exportingId, setExportingId] = useState<string | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listSessions()
+      .then(setSessions)
+      .catch(err => console.error('Failed to load sessions:', err))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const startRename = (session: StoredSession) => {
+    setEditingId(session.id);
+    setDraftTitle(session.title);
+  };
+
+  const commitRename = async () => {
+    const id = editingId;
+    const title = draftTitle.trim();
+    setEditingId(null);
+    if (!id || !title) return;
+    try {
+      const renamed = await renameSession(id, title);
+      if (renamed) {
+        setSessions(prev => prev.map(s => (s.id === id ? renamed : s)));
+        onRenamed(renamed);
+      }
+    } catch (err) {
+      console.error('Failed to rename session:', err);
+    }
+  };
+
+  const handleDelete = async (session: StoredSession) => {
+    if (!window.confirm(`Delete "${session.title}"? This cannot be undone.`)) return;
+    try {
+      await deleteSession(session.id);
+      setSessions(prev => prev.filter(s => s.id !== session.id));
+      onDeleted(session.id);
+    } catch (err) {
+      console.error('Failed to delete session:', err);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImportError(null);
+    try {
+      let session = parseSessionJson(await file.text());
+      if (await getSession(session.id)) {
+        session = { ...session, id: crypto.randomUUID() };
+      }
+      await saveSession(session);
+      setSessions(prev => [session, ...prev].sort((a, b) => b.startedAt - a.startedAt));
+      onSelect(session);
+    } catch (err) {
+      console.error('Failed to import session:', err);
+      setImportError(err instanceof Error ? err.message : 'Could not import that file.');
+    }
+  };
+
+  return (
+    <aside className="fixed top-16 left-0 bottom-0 w-80 glass border-r border-slate-800 z-30 flex flex-col animate-slide-in">
+      <div className="flex items-center justify-between p-4 border-b border-slate-800">
+        <h2 className="font-bold text-slate-100">Past Sessions</h2>
+        <div className="flex items-center space-x-3 text-sm">
+          <label className="text-blue-400 hover:text-blue-300 cursor-pointer">
+            Import
+            <input type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+          </label>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-200">Close</button>
+        </div>
+      </div>
+      {importError && <p className="px-4 pt-3 text-xs text-red-400">{importError}</p>}
+      <div className="flex-1 overflow-y-auto p-3 space-y-2 custom-scrollbar">
+        {isLoading ? (
+          <p className="text-slate-500 italic text-sm text-center py-8">Loading...</p>
+        ) : sessions.length === 0 ? (
+          <p className="text-slate-500 italic text-sm text-center py-8">No saved sessions yet.</p>
+        ) : (
+          sessions.map(session => (
+            <div
+              key={session.id}
+              className={`p-3 rounded-xl border transition-all ${
+                session.id === selectedId ? 'bg-blue-600/20 border-blue-500' : 'bg-slate-800/50 border-slate-700 hover:border-slate-500'
+              }`}
+            >
+              {editingId === session.id ? (
+                <input
+                  autoFocus
+                  value={draftTitle}
+                  onChange={e => setDraftTitle(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={e => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="w-full px-2 py-1 bg-slate-900 border border-slate-600 rounded text-sm text-slate-100 focus:outline-none focus:border-blue-500"
+                />
+              ) : (
+                <button onClick={() => onSelect(session)} className="w-full text-left">
+                  <p className="text-sm font-semibold text-slate-100 truncate">{session.title}</p>
+                </button>
+              )}
+              <div className="flex items-center justify-between mt-2">
+                <span className="text-[10px] text-slate-500">
+                  {new Date(session.startedAt).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })} · {formatDuration(session)} · {session.feedbacks.length} tips
+                </span>
+                <div className="flex space-x-2 text-[10px] font-bold uppercase tracking-wider">
+                  <button
+                    onClick={() => setExportingId(id => (id === session.id ? null : session.id))}
+                    className="text-slate-400 hover:text-slate-200"
+                  >
+                    Export
+                  </button>
+                  <button onClick={() => startRename(session)} className="text-slate-400 hover:text-slate-200">Rename</button>
+                  <button onClick={() => handleDelete(session)} className="text-red-400 hover:text-red-300">Delete</button>
+                </div>
+              </div>
+              {exportingId === session.id && (
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(format => (
+                    <button
+                      key={format}
+                      onClick={() => exportSession(session, format)}
+                      className="px-2 py-1 bg-slate-900 hover:bg-slate-700 border border-slate-700 rounded text-[10px] text-slate-300"
+                    >
+                      {EXPORT_FORMAT_LABELS[format]}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </aside>
+  );
+};
+
+export default SessionHistory;
@@ -0,0 +1,90 @@
+
+import React from 'react';
+import { SpeechMetrics } from '../types';
+import { useI18n } from '../hooks/useI18n';
+
+interface SpeechGaugesProps {
+  metrics: SpeechMetrics;
+}
+
+interface GaugeProps {
+  label: string;
+  value: string;
+  unit?: string;
+  fill: number;
+  tone: 'good' | 'warn' | 'neutral';
+}
+
+const TONE_CLASSES: Record<GaugeProps['tone'], string> = {
+  good: 'bg-emerald-500',
+  warn: 'bg-amber-500',
+  neutral: 'bg-blue-500',
+};
+
+export const Gauge: React.FC<GaugeProps> = ({ label, value, unit, fill, tone }) => (
+  <div className="flex-1 min-w-0">
+    <div className="flex items-baseline justify-between mb-1">
+      <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider truncate">{label}</span>
+      <span className="text-xs font-semibold text-slate-200 ml-2">
+        {value}{unit && <span className="text-[10px] text-slate-500 ml-0.5">{unit}</span>}
+      </span>
+    </div>
+    <div className="h-1 bg-slate-800 rounded-full overflow-hidden">
+      <div
+        className={`h-full transition-all duration-300 ${TONE_CLASSES[tone]}`}
+        style={{ width: `${Math.min(100, Math.max(0, fill * 100))}%` }}
+      />
+    </div>
+  </div>
+);
+
+const SpeechGauges: React.FC<SpeechGaugesProps> = ({ metrics }) => {
+  const { t } = useI18n();
+  const { wordsPerMinute, fillersPerMinute, fillerCount, averagePauseMs, talkTimeRatio, loudnessDb, isVoiceActive } = metrics;
+
+  return (
+    <div className="glass rounded-2xl px-4 py-3 flex items-center gap-4">
+      <div className="flex items-center space-x-2">
+        <div className={`w-2 h-2 rounded-full ${isVoiceActive ? 'bg-emerald-500 animate-pulse' : 'bg-slate-600'}`} />
+        <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest whitespace-nowrap">{t('gaugeSpeech')}</span>
+      </div>
+      <Gauge
+        label={t('gaugePace')}
+        value={wordsPerMinute.toFixed(0)}
+        unit={t('unitWpm')}
+        fill={wordsPerMinute / 200}
+        tone={wordsPerMinute === 0 ? 'neutral' : wordsPerMinute > 170 || wordsPerMinute < 100 ? 'warn' : 'good'}
+      />
+      <Gauge
+        label={t('gaugeFillers')}
+        value={fillerCount.toString()}
+        unit={t('fillerRate', { rate: fillersPerMinute.toFixed(1) })}
+        fill={fillersPerMinute / 10}
+        tone={fillersPerMinute > 5 ? 'warn' : 'good'}
+      />
+      <Gauge
+        label={t('gaugeAvgPause')}
+        value={(averagePauseMs / 1000).toFixed(1)}
+        unit="s"
+        fill={averagePauseMs / 3000}
+        tone="neutral"
+      />
+      <Gauge
+        label={t('gaugeTalkTime')}
+        value={(talkTimeRatio * 100).toFixed(0)}
+        unit="%"
+        fill={talkTimeRatio}
+        tone="neutral"
+      />
+      <Gauge
+        label={t('gaugeLoudness')}
+        value={loudnessDb.toFixed(0)}
+        unit="dB"
+        fill={(loudnessDb + 60) / 60}
+        tone={isVoiceActive && loudnessDb < -40 ? 'warn' : 'neutral'}
+      />
+    </div>
+  );
+};
+
+export default SpeechGauges;
@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { useI18n } from '../hooks/useI18n';
+
+interface TranscriptComposerProps {
+  onSend: (text: string) => void;
+  /** Whether the interviewer's replies are also played aloud. */
+  speakReplies: boolean;
+  onSpeakRepliesChange: (speak: boolean) => void;
+  /** Reports whether an answer is being typed, so it counts against the answer timer. */
+  onDraftChange?: (hasDraft: boolean) => void;
+  disabled?: boolean;
+}
+
+/** Answer box for text sessions; Enter sends, Shift+Enter starts a new line. */
+const TranscriptComposer: React.FC<TranscriptComposerProps> = ({ onSend, speakReplies, onSpeakRepliesChange, onDraftChange, disabled }) => {
+  const { t } = useI18n();
+  const [draft, setDraft] = useState('');
+
+  const updateDraft = (value: string) => {
+    setDraft(value);
+    onDraftChange?.(value.trim() !== '');
+  };
+
+  const send = () => {
+    if (disabled || !draft.trim()) return;
+    onSend(draft);
+    updateDraft('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      send();
+    }
+  };
+
+  return (
+    <div className="mt-3 space-y-2">
+      <div className="flex items-end space-x-2">
+        <textarea
+          value={draft}
+          onChange={e => updateDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          disabled={disabled}
+          rows={2}
+          placeholder={t('composerPlaceholder')}
+          aria-label={t('composerLabel')}
+          className="flex-1 px-3 py-2 bg-slate-800 border border-slate-700 rounded-xl text-sm text-slate-100 resize-none focus:outline-none focus:border-blue-500 disabled:opacity-50"
+        />
+        <button
+          type="button"
+          onClick={send}
+          disabled={disabled || !draft.trim()}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white text-sm font-semibold rounded-xl transition-all active:scale-95 disabled:opacity-50"
+        >
+          {t('send')}
+        </button>
+      </div>
+      <label className="flex items-center space-x-2 text-[10px] font-bold uppercase tracking-wider text-slate-500 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={speakReplies}
+          onChange={e => onSpeakRepliesChange(e.target.checked)}
+          className="w-3 h-3 accent-blue-600"
+        />
+        <span>{t('readRepliesAloud')}</span>
+      </label>
+    </div>
+  );
+};
+
+export default TranscriptComposer;
@@ -0,0 +1,74 @@
+
+import React from 'react';
+
+export interface TrendPoint {
+  label: string;
+  value: number;
+}
+
+interface TrendChartProps {
+  title: string;
+  unit: string;
+  points: TrendPoint[];
+  color: string;
+  lowerIsBetter?: boolean;
+}
+
+const WIDTH = 320;
+const HEIGHT = 120;
+const PADDING = 12;
+
+const TrendChart: React.FC<TrendChartProps> = ({ title, unit, points, color, lowerIsBetter = false }) => {
+  const values = points.map(p => p.value);
+  const max = Math.max(...values, 1);
+  const min = Math.min(...values, 0);
+  const range = max - min || 1;
+
+  const coords = points.map((p, i) => ({
+    x: points.length > 1 ? PADDING + (i / (points.length - 1)) * (WIDTH - PADDING * 2) : WIDTH / 2,
+    y: HEIGHT - PADDING - ((p.value - min) / range) * (HEIGHT - PADDING * 2),
+    point: p,
+  }));
+
+  const latest = values[values.length - 1] ?? 0;
+  const previous = values[values.length - 2];
+  const delta = previous === undefined ? 0 : latest - previous;
+  const improving = lowerIsBetter ? delta < 0 : delta > 0;
+
+  return (
+    <div className="bg-slate-800/50 rounded-xl p-4">
+      <div className="flex items-start justify-between mb-2">
+        <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">{title}</span>
+        <div className="text-right">
+          <span className="text-lg font-semibold text-slate-100">{latest.toFixed(1)}</span>
+          <span className="text-[10px] text-slate-500 ml-1">{unit}</span>
+          {previous !== undefined && delta !== 0 && (
+            <div className={`text-[10px] font-bold ${improving ? 'text-emerald-400' : 'text-amber-400'}`}>
+              {delta > 0 ? '▲' : '▼'} {Math.abs(delta).toFixed(1)}
+            </div>
+          )}
+        </div>
+      </div>
+      {points.length === 0 ? (
+        <p className="text-slate-600 italic text-xs text-center py-8">No data yet</p>
+      ) : (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-28" role="img" aria-label={`${title} trend`}>
+          <polyline
+            fill="none"
+            stroke={color}
+            strokeWidth={2}
+            strokeLinejoin="round"
+            points={coords.map(c => `${c.x},${c.y}`).join(' ')}
+          />
+          {coords.map((c, i) => (
+            <circle key={i} cx={c.x} cy={c.y} r={3} fill={color}>
+              <title>{`${c.point.label}: ${c.point.value.toFixed(1)} ${unit}`}</title>
+            </circle>
+          ))}
+        </svg>
+      )}
+    </div>
+  );
+};
+
+export default TrendChart;
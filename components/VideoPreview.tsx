@@ -1,61 +1,80 @@
 
 import React, { useEffect, useRef } from 'react';
+import { FaceSample } from '../types';
+import { createFaceTracker, FaceTracker } from '../services/face-tracker';
+import AudioWaveform from './AudioWaveform';
+import { useI18n } from '../hooks/useI18n';
+
+// Local face tracking runs much faster than frames go to the model
+const TRACKING_INTERVAL_MS = 200;
+const FALLBACK_FRAME_INTERVAL_MS = 2000;
 
 interface VideoPreviewProps {
+  /** The session's shared mic + camera stream; audio-only or null when the camera is off. */
+  stream: MediaStream | null;
   onFrame?: (base64Frame: string) => void;
+  /** Receives each local face landmark result while active. */
+  onFaceSample?: (sample: FaceSample | null) => void;
+  /** Decides when the next frame goes to the model; defaults to every 2 s. */
+  shouldSendFrame?: (lastSentAt: number) => boolean;
+  /** Analyser on the candidate's mic for the live waveform overlay. */
+  micAnalyser?: AnalyserNode | null;
   isActive: boolean;
 }
 
-const VideoPreview: React.FC<VideoPreviewProps> = ({ onFrame, isActive }) => {
+const VideoPreview: React.FC<VideoPreviewProps> = ({ stream, onFrame, onFaceSample, shouldSendFrame, micAnalyser, isActive }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const trackerRef = useRef<FaceTracker | null>(null);
+  const { t } = useI18n();
+  const hasCamera = !!stream?.getVideoTracks().length;
 
   useEffect(() => {
-    let stream: MediaStream | null = null;
-    let interval: number | null = null;
-
-    const startStream = async () => {
-      try {
-        stream = await navigator.mediaDevices.getUserMedia({ 
-          video: { width: 640, height: 480 }, 
-          audio: false 
-        });
-        if (videoRef.current) {
-          videoRef.current.srcObject = stream;
-        }
+    if (videoRef.current) videoRef.current.srcObject = stream;
+  }, [stream]);
 
-        if (onFrame) {
-          interval = window.setInterval(() => {
-            if (videoRef.current && canvasRef.current) {
-              const ctx = canvasRef.current.getContext('2d');
-              if (ctx) {
-                canvasRef.current.width = videoRef.current.videoWidth;
-                canvasRef.current.height = videoRef.current.videoHeight;
-                ctx.drawImage(videoRef.current, 0, 0);
-                const base64Frame = canvasRef.current.toDataURL('image/jpeg', 0.6).split(',')[1];
-                onFrame(base64Frame);
-              }
-            }
-          }, 2000); // 2 seconds between frames for analysis
-        }
-      } catch (err) {
-        console.error('Error accessing webcam:', err);
-      }
+  // Load the landmark model only while a session is running
+  useEffect(() => {
+    if (!isActive || !onFaceSample) return;
+    let cancelled = false;
+    createFaceTracker()
+      .then(tracker => {
+        if (cancelled) tracker.close();
+        else trackerRef.current = tracker;
+      })
+      .catch(err => console.warn('Face tracking unavailable:', err));
+    return () => {
+      cancelled = true;
+      trackerRef.current?.close();
+      trackerRef.current = null;
     };
+  }, [isActive, onFaceSample]);
 
-    if (isActive) {
-      startStream();
-    }
+  useEffect(() => {
+    if (!isActive || !stream?.getVideoTracks().length) return;
+    let lastSentAt = 0;
 
-    return () => {
-      if (stream) {
-        stream.getTracks().forEach(track => track.stop());
-      }
-      if (interval) {
-        clearInterval(interval);
+    const interval = window.setInterval(() => {
+      const video = videoRef.current;
+      if (!video || video.readyState < 2) return;
+      const now = Date.now();
+      if (trackerRef.current) onFaceSample?.(trackerRef.current.detect(video, now));
+
+      const due = shouldSendFrame ? shouldSendFrame(lastSentAt) : now - lastSentAt >= FALLBACK_FRAME_INTERVAL_MS;
+      if (!onFrame || !due || !canvasRef.current) return;
+      const ctx = canvasRef.current.getContext('2d');
+      if (ctx) {
+        canvasRef.current.width = video.videoWidth;
+        canvasRef.current.height = video.videoHeight;
+        ctx.drawImage(video, 0, 0);
+        const base64Frame = canvasRef.current.toDataURL('image/jpeg', 0.6).split(',')[1];
+        onFrame(base64Frame);
+        lastSentAt = now;
       }
-    };
-  }, [isActive, onFrame]);
+    }, TRACKING_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [isActive, stream, onFrame, onFaceSample, shouldSendFrame]);
 
   return (
     <div className="relative w-full aspect-video rounded-2xl overflow-hidden border-2 border-slate-700 glass shadow-2xl">
@@ -67,9 +86,17 @@ const VideoPreview: React.FC<VideoPreviewProps> = ({ onFrame, isActive }) => {
         className="w-full h-full object-cover scale-x-[-1]"
       />
       <canvas ref={canvasRef} className="hidden" />
+      {isActive && !hasCamera && (
+        <div className="absolute inset-0 flex items-center justify-center text-sm text-slate-500">{t('cameraOff')}</div>
+      )}
       <div className="absolute bottom-4 left-4 px-3 py-1 bg-black/50 backdrop-blur text-xs font-medium rounded-full text-slate-300">
-        Live Feed
+        {t('liveFeed')}
       </div>
+      {isActive && micAnalyser && (
+        <div className="absolute bottom-4 right-4 px-3 py-1 bg-black/50 backdrop-blur rounded-full">
+          <AudioWaveform analyser={micAnalyser} color="#34d399" label={t('micLevel')} className="w-28 h-5" />
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,51 @@
+// Synthetic mono PCM for the audio tests: pure tones stand in for voice, zeros for silence.
+
+export const FIXTURE_SAMPLE_RATE = 16000;
+
+/** A sine tone; its RMS is `amplitude / √2`. */
+export function tone(ms: number, amplitude = 0.2, frequency = 220, sampleRate = FIXTURE_SAMPLE_RATE, phaseOffset = 0): Float32Array {
+  const samples = new Float32Array(Math.round((ms / 1000) * sampleRate));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = amplitude * Math.sin((2 * Math.PI * frequency * (i + phaseOffset)) / sampleRate);
+  }
+  return samples;
+}
+
+export const silence = (ms: number, sampleRate = FIXTURE_SAMPLE_RATE) => new Float32Array(Math.round((ms / 1000) * sampleRate));
+
+/** Low-level white noise, seeded so runs are repeatable. */
+export function noise(ms: number, amplitude = 0.005, sampleRate = FIXTURE_SAMPLE_RATE, seed = 1): Float32Array {
+  const samples = new Float32Array(Math.round((ms / 1000) * sampleRate));
+  let state = seed;
+  for (let i = 0; i < samples.length; i++) {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    samples[i] = amplitude * (state / 2147483648 - 1);
+  }
+  return samples;
+}
+
+/** Splits a signal into consecutive chunks, as the mic capture delivers it. */
+export function chunks(samples: Float32Array, chunkMs: number, sampleRate = FIXTURE_SAMPLE_RATE): Float32Array[] {
+  const size = Math.round((chunkMs / 1000) * sampleRate);
+  const out: Float32Array[] = [];
+  for (let i = 0; i < samples.length; i += size) out.push(samples.subarray(i, i + size));
+  return out;
+}
+
+export const concat = (...parts: Float32Array[]) => {
+  const out = new Float32Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+/** Candidate answers with known word and filler counts per language. */
+export const TRANSCRIPTS = {
+  en: { text: "Um, so I led the migration and, you know, it was like really hard. Uh, we shipped it.", words: 18, fillers: 4 },
+  es: { text: 'Eh, o sea, lideré la migración y, pues, salió bien.', words: 10, fillers: 3 },
+  de: { text: 'Ähm, ich habe die Migration halt geleitet, äh, und sie lief gut.', words: 12, fillers: 3 },
+  hi: { text: 'मतलब, मैंने टीम का नेतृत्व किया, हम्म, और हमने काम पूरा किया।', words: 12, fillers: 2 },
+};
@@ -0,0 +1,54 @@
+import { MockScript } from '../services/mock-transport';
+import { SUMMARY_REQUEST } from '../services/system-prompt';
+import { Sentiment } from '../types';
+
+// A short behavioral interview replayed by the offline transport (?transport=mock)
+const mockInterview: MockScript = {
+  steps: [
+    { delayMs: 800, event: { type: 'toolCall', calls: [{ id: '', name: 'markQuestion', args: { question: 'Tell me about a project you are proud of.', isFollowUp: false } }] } },
+    { delayMs: 100, event: { type: 'tone', frequency: 220, durationMs: 1200 } },
+    { delayMs: 0, event: { type: 'outputTranscription', text: 'Hi, thanks for joining. ' } },
+    { delayMs: 600, event: { type: 'outputTranscription', text: 'Tell me about a project you are proud of.' } },
+    { delayMs: 800, event: { type: 'turnComplete' } },
+    { delayMs: 2500, event: { type: 'inputTranscription', text: 'Um, so last year I led the migration of our billing service ' } },
+    { delayMs: 2000, event: { type: 'inputTranscription', text: 'to a new event pipeline, which cut failed invoices by about 40 percent.' } },
+    { delayMs: 300, event: { type: 'toolCall', calls: [{ id: '', name: 'provideFeedback', args: { category: 'Content', message: 'Good use of a concrete metric to show impact.', sentiment: Sentiment.POSITIVE, quote: 'cut failed invoices by about 40 percent' } }] } },
+    { delayMs: 200, event: { type: 'tone', frequency: 220, durationMs: 900 } },
+    { delayMs: 0, event: { type: 'outputTranscription', text: 'What was the hardest trade-off you made?' } },
+    { delayMs: 1000, event: { type: 'turnComplete' } },
+    { delayMs: 100, event: { type: 'toolCall', calls: [{ id: '', name: 'markQuestion', args: { question: 'What was the hardest trade-off you made?', isFollowUp: true } }] } },
+    { delayMs: 2500, event: { type: 'inputTranscription', text: 'We had to choose between a rewrite and ' } },
+    { delayMs: 400, event: { type: 'tone', frequency: 220, durationMs: 1500 } },
+    { delayMs: 200, event: { type: 'interrupted' } },
+    { delayMs: 1500, event: { type: 'inputTranscription', text: 'an incremental rollout, and we went incremental to limit risk.' } },
+    { delayMs: 300, event: { type: 'toolCall', calls: [{ id: '', name: 'provideFeedback', args: { category: 'eye-contact', message: 'Try to keep your eyes on the camera while you think.', sentiment: Sentiment.IMPROVEMENT, severity: 'medium' } }] } },
+    { delayMs: 200, event: { type: 'outputTranscription', text: 'That makes sense. Take your time.' } },
+    { delayMs: 800, event: { type: 'turnComplete' } },
+  ],
+  replies: [
+    {
+      match: SUMMARY_REQUEST,
+      steps: [
+        {
+          delayMs: 1500,
+          event: {
+            type: 'toolCall',
+            calls: [{
+              id: '',
+              name: 'submitSummary',
+              args: {
+                strengths: ['Quantified the impact of the billing migration'],
+                improvements: ['Reduce filler words at the start of answers', 'Maintain eye contact while thinking'],
+                scores: { pace: 4, clarity: 4, structure: 3, relevance: 5, nonVerbal: 3 },
+                questionRatings: [{ question: 'Tell me about a project you are proud of.', rating: 4, comment: 'Clear outcome, light on your personal role.' }],
+                overallComment: 'A solid answer with a strong metric; tighten the structure.',
+              },
+            }],
+          },
+        },
+      ],
+    },
+  ],
+};
+
+export default mockInterview;
@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AnswerAnalysis, InterviewConfig, InterviewType, QuestionTurn } from '../types';
+import { isAnalyzable, isAnswerComplete } from '../services/answer-analysis';
+import { fetchAnswerAnalysis } from '../services/answer-analysis-api';
+
+export type AnalysisStatus = { pending: true } | { pending: false; error: string };
+
+interface UseAnswerAnalysisOptions {
+  sessionId: string | null;
+  config: InterviewConfig;
+  turns: QuestionTurn[];
+  analyses: AnswerAnalysis[];
+  /** Analyze each behavioral answer as soon as the interviewer moves on; otherwise only on request. */
+  auto: boolean;
+  /** Whether the last question may still be being answered. */
+  isActive: boolean;
+  /** Results carry their session id, since the candidate may have switched sessions by the time one arrives. */
+  onAnalyzed: (sessionId: string, analysis: AnswerAnalysis) => void;
+}
+
+export function useAnswerAnalysis({ sessionId, config, turns, analyses, auto, isActive, onAnalyzed }: UseAnswerAnalysisOptions) {
+  // Keyed by session and turn, so a late result never marks another session's card
+  const [statuses, setStatuses] = useState<Record<string, AnalysisStatus>>({});
+  // Auto-analysis runs once per answer; failures wait for a manual retry
+  const requestedRef = useRef(new Set<string>());
+  const onAnalyzedRef = useRef(onAnalyzed);
+  onAnalyzedRef.current = onAnalyzed;
+
+  const analyze = useCallback((turn: QuestionTurn) => {
+    if (!sessionId) return;
+    const key = `${sessionId}/${turn.id}`;
+    requestedRef.current.add(key);
+    setStatuses(s => ({ ...s, [key]: { pending: true } }));
+    fetchAnswerAnalysis(turn, config.jobRole, config.language)
+      .then(analysis => {
+        onAnalyzedRef.current(sessionId, analysis);
+        setStatuses(({ [key]: _done, ...rest }) => rest);
+      })
+      .catch(err => {
+        console.error('Answer analysis failed:', err);
+        setStatuses(s => ({ ...s, [key]: { pending: false, error: err.message } }));
+      });
+  }, [sessionId, config.jobRole, config.language]);
+
+  // The last question stays open until the session ends
+  const canAnalyze = useCallback(
+    (turn: QuestionTurn) => (!isActive || isAnswerComplete(turn)) && isAnalyzable(turn),
+    [isActive],
+  );
+
+  useEffect(() => {
+    if (!auto || !sessionId || config.interviewType !== InterviewType.BEHAVIORAL) return;
+    const analyzed = new Set(analyses.map(a => a.turnId));
+    turns
+      .filter(canAnalyze)
+      .filter(turn => !analyzed.has(turn.id) && !requestedRef.current.has(`${sessionId}/${turn.id}`))
+      .forEach(analyze);
+  }, [auto, sessionId, config.interviewType, turns, analyses, canAnalyze, analyze]);
+
+  const statusOf = (turnId: string): AnalysisStatus | undefined => (sessionId ? statuses[`${sessionId}/${turnId}`] : undefined);
+
+  return { analyze, canAnalyze, statusOf };
+}
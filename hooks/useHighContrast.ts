@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react';
+
+const STORAGE_KEY = 'interview-coach:high-contrast';
+const CLASS_NAME = 'high-contrast';
+
+// An explicit choice wins; otherwise follow the OS-level contrast preference
+const initialValue = () => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored !== null) return stored === 'true';
+  } catch {
+    // Storage can be unavailable in private modes
+  }
+  return window.matchMedia('(prefers-contrast: more)').matches;
+};
+
+/** The high-contrast theme, applied as a class on the root element so the overrides in index.html take effect. */
+export function useHighContrast(): [boolean, (enabled: boolean) => void] {
+  const [enabled, setEnabled] = useState(initialValue);
+
+  useEffect(() => {
+    document.documentElement.classList.toggle(CLASS_NAME, enabled);
+  }, [enabled]);
+
+  const update = (value: boolean) => {
+    setEnabled(value);
+    try {
+      localStorage.setItem(STORAGE_KEY, String(value));
+    } catch (err) {
+      console.warn('Could not persist contrast preference:', err);
+    }
+  };
+
+  return [enabled, update];
+}
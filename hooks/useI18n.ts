@@ -0,0 +1,9 @@
+import { createContext, useContext } from 'react';
+import { createTranslator, Translator } from '../services/i18n';
+
+/** Provided by App from the interview language; components outside it fall back to English. */
+export const I18nContext = createContext<Translator>(createTranslator('en-US'));
+
+export function useI18n(): Translator {
+  return useContext(I18nContext);
+}
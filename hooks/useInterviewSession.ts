@@ -0,0 +1,546 @@
+import { useCallback, useEffect, useReducer, useRef, useState } from 'react';
+import { FunctionDeclaration } from '@google/genai';
+import { AnswerAnalysis, FaceSample, InterviewConfig, JobRequirement, QuestionSet, NonVerbalMetrics, RecordingInfo, SessionMedia, SessionMode, SpeechMetrics, StoredSession, TranscriptionEntry } from '../types';
+import { decode, decodeAudioData, createPcmBlob } from '../services/audio-processing';
+import { CAPTURE_SAMPLE_RATE, MicCapture, startMicCapture } from '../services/mic-capture';
+import { createVoiceActivityDetector } from '../services/voice-activity';
+import { applySpeaker } from '../services/media-devices';
+import { getPersona, INTERVIEW_TYPE_LABELS } from '../services/interview-config';
+import { buildReconnectInstruction, buildSystemInstruction, SessionPromptOptions, SUMMARY_REQUEST } from '../services/system-prompt';
+import { extractRequirements } from '../services/document-text';
+import { saveRecording, saveSession } from '../services/session-store';
+import { SessionRecorder, startSessionRecording } from '../services/session-recorder';
+import { createSpeechAnalyzer } from '../services/speech-analytics';
+import { createNonVerbalAnalyzer } from '../services/nonverbal-analytics';
+import { LiveInterviewTransport, LiveTransportEvent } from '../services/live-transport';
+import { FeedbackPatch, initialSessionState, interviewSessionReducer, isSessionActive, toConnectionState } from '../services/interview-session';
+import { toolCallResponse } from '../services/tool-calls';
+import { LiveTokenError } from '../services/live-token';
+import { getQuestionSet, nextQuestionResponse } from '../services/question-bank';
+
+const SUMMARY_TIMEOUT_MS = 20000;
+const ANALYTICS_INTERVAL_MS = 1000;
+const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 15000;
+
+interface UseInterviewSessionOptions {
+  /** Creates the transport for one connection of the given session. */
+  createTransport: (sessionId: string) => LiveInterviewTransport;
+  /** Tool declarations for a session, given its job requirements and question plan. */
+  getTools: (requirements: JobRequirement[], plan: QuestionSet | null) => FunctionDeclaration[];
+}
+
+/**
+ * Owns one live interview: the transport, mic pipeline, playback queue,
+ * reconnects, recording and persistence. State transitions go through
+ * `interviewSessionReducer`; everything with side effects lives here.
+ */
+export function useInterviewSession({ createTransport, getTools }: UseInterviewSessionOptions) {
+  const [state, dispatch] = useReducer(interviewSessionReducer, initialSessionState);
+  const [speechAnalyzer] = useState(createSpeechAnalyzer);
+  const [vad] = useState(createVoiceActivityDetector);
+  const [isCandidateSpeaking, setIsCandidateSpeaking] = useState(false);
+  const [speechMetrics, setSpeechMetrics] = useState<SpeechMetrics>(() => speechAnalyzer.getMetrics());
+  const [nonVerbalAnalyzer] = useState(createNonVerbalAnalyzer);
+  const [nonVerbalMetrics, setNonVerbalMetrics] = useState<NonVerbalMetrics>(() => nonVerbalAnalyzer.getMetrics());
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [recordingInfo, setRecordingInfo] = useState<RecordingInfo | null>(null);
+  const [mediaStream, setMediaStream] = useState<MediaStream | null>(null);
+  // Visualisation taps on the interviewer's playback and the candidate's mic
+  const [outputAnalyser, setOutputAnalyser] = useState<AnalyserNode | null>(null);
+  const [inputAnalyser, setInputAnalyser] = useState<AnalyserNode | null>(null);
+  const [sessionMode, setSessionMode] = useState<SessionMode>('video');
+  const [speakReplies, setSpeakRepliesState] = useState(true);
+  const [isMuted, setIsMuted] = useState(false);
+  const isActive = isSessionActive(state.status);
+
+  // Audio refs
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const outputAudioContextRef = useRef<AudioContext | null>(null);
+  const nextStartTimeRef = useRef<number>(0);
+  const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
+  const outputNodeRef = useRef<GainNode | null>(null);
+  // The shared mic + camera stream from the pre-flight check; the session owns it once started
+  const mediaStreamRef = useRef<MediaStream | null>(null);
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const micCaptureRef = useRef<MicCapture | null>(null);
+  const inputSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
+  // Last silent chunk, sent ahead of speech so word onsets aren't clipped
+  const preRollRef = useRef<Float32Array | null>(null);
+  const sessionRef = useRef<LiveInterviewTransport | null>(null);
+  const isPausedRef = useRef(false);
+  // Muting only stops the mic; unlike pausing, the interviewer carries on
+  const isMutedRef = useRef(false);
+  // Text sessions can mute the interviewer's voice and just read the replies
+  const speakRepliesRef = useRef(true);
+  // Bumped on every connection so late callbacks from a dropped socket are ignored
+  const connectionIdRef = useRef(0);
+  const reconnectAttemptsRef = useRef(0);
+  const reconnectTimerRef = useRef<number | null>(null);
+  const shouldReconnectRef = useRef(false);
+  const transcriptionsRef = useRef<TranscriptionEntry[]>([]);
+  const analyzedCountRef = useRef(0);
+  const summaryResolverRef = useRef<(() => void) | null>(null);
+  const sessionMetaRef = useRef<Pick<StoredSession, 'id' | 'title' | 'config' | 'startedAt' | 'endedAt'> | null>(null);
+  const sessionOptionsRef = useRef<SessionPromptOptions>({});
+  // Index of the next planned question; survives reconnects
+  const planCursorRef = useRef(0);
+
+  const { transcriptions, feedbacks, requirements, scorecard, questionMarkers, answerAnalyses } = state;
+
+  useEffect(() => {
+    transcriptionsRef.current = transcriptions;
+    // Feed newly committed candidate turns to the local analyzer exactly once
+    if (transcriptions.length < analyzedCountRef.current) analyzedCountRef.current = 0;
+    transcriptions.slice(analyzedCountRef.current).forEach(entry => {
+      if (entry.role === 'user') speechAnalyzer.processTranscript(entry);
+    });
+    analyzedCountRef.current = transcriptions.length;
+  }, [transcriptions, speechAnalyzer]);
+
+  // Persist the current session whenever its content changes
+  useEffect(() => {
+    const meta = sessionMetaRef.current;
+    if (!meta) return;
+    saveSession({ ...meta, transcriptions, feedbacks, requirements, scorecard, recording: recordingInfo, questionMarkers, answerAnalyses, updatedAt: Date.now() })
+      .catch(err => console.error('Failed to save session:', err));
+  }, [isActive, transcriptions, feedbacks, requirements, scorecard, recordingInfo, questionMarkers, answerAnalyses]);
+
+  // Starts the opt-in recording; without a camera track it records audio only
+  const startRecording = () => {
+    const meta = sessionMetaRef.current;
+    if (!meta?.config.recordSession || meta.endedAt !== null || recorderRef.current) return;
+    if (!mediaStreamRef.current || !outputNodeRef.current) return;
+    try {
+      recorderRef.current = startSessionRecording({
+        micStream: mediaStreamRef.current,
+        videoStream: mediaStreamRef.current,
+        interviewerOutput: outputNodeRef.current,
+      });
+    } catch (err) {
+      console.error('Failed to start recording:', err);
+    }
+  };
+
+  // Refresh local speech and non-verbal gauges and surface threshold-based feedback
+  useEffect(() => {
+    if (!isActive) return;
+    const interval = window.setInterval(() => {
+      setSpeechMetrics(speechAnalyzer.getMetrics());
+      setNonVerbalMetrics(nonVerbalAnalyzer.getMetrics());
+      if (isPausedRef.current) return;
+      const local = [...speechAnalyzer.evaluate(), ...nonVerbalAnalyzer.evaluate()];
+      if (local.length) dispatch({ type: 'addFeedback', feedbacks: local });
+    }, ANALYTICS_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isActive, speechAnalyzer, nonVerbalAnalyzer]);
+
+  const stopPlayback = () => {
+    sourcesRef.current.forEach(s => s.stop());
+    sourcesRef.current.clear();
+    nextStartTimeRef.current = 0;
+  };
+
+  const stopSession = useCallback(() => {
+    shouldReconnectRef.current = false;
+    connectionIdRef.current++;
+    if (reconnectTimerRef.current !== null) {
+      clearTimeout(reconnectTimerRef.current);
+      reconnectTimerRef.current = null;
+    }
+    if (sessionRef.current) {
+      sessionRef.current.close();
+      sessionRef.current = null;
+    }
+    if (sessionMetaRef.current && sessionMetaRef.current.endedAt === null) {
+      sessionMetaRef.current.endedAt = Date.now();
+    }
+    const recorder = recorderRef.current;
+    const recordedSessionId = sessionMetaRef.current?.id;
+    recorderRef.current = null;
+    if (recorder && recordedSessionId) {
+      recorder.stop()
+        .then(async blob => {
+          await saveRecording(recordedSessionId, blob);
+          setRecordingInfo({
+            mimeType: blob.type,
+            startedAt: recorder.startedAt,
+            durationMs: Date.now() - recorder.startedAt,
+            sizeBytes: blob.size,
+          });
+        })
+        .catch(err => console.error('Failed to save recording:', err));
+    }
+    micCaptureRef.current?.stop();
+    micCaptureRef.current = null;
+    inputSourceRef.current?.disconnect();
+    inputSourceRef.current = null;
+    setInputAnalyser(null);
+    preRollRef.current = null;
+    setIsCandidateSpeaking(false);
+    mediaStreamRef.current?.getTracks().forEach(track => track.stop());
+    mediaStreamRef.current = null;
+    setMediaStream(null);
+    isPausedRef.current = false;
+    isMutedRef.current = false;
+    setIsMuted(false);
+    speakRepliesRef.current = true;
+    setSpeakRepliesState(true);
+    if (outputNodeRef.current) outputNodeRef.current.gain.value = 1;
+    stopPlayback();
+    dispatch({ type: 'stopped', now: Date.now() });
+  }, []);
+
+  const togglePause = useCallback(() => {
+    const paused = !isPausedRef.current;
+    isPausedRef.current = paused;
+    // Playback keeps running silently so the model's turn isn't cut off mid-sentence
+    if (outputNodeRef.current) outputNodeRef.current.gain.value = paused || !speakRepliesRef.current ? 0 : 1;
+    if (paused) {
+      // Close the candidate's turn so the model doesn't wait on audio that won't come
+      sessionRef.current?.endAudioStream();
+      vad.reset();
+      preRollRef.current = null;
+      setIsCandidateSpeaking(false);
+    }
+    dispatch({ type: paused ? 'pause' : 'resume' });
+  }, [vad]);
+
+  const toggleMute = useCallback(() => {
+    if (!mediaStreamRef.current?.getAudioTracks().length) return;
+    const muted = !isMutedRef.current;
+    isMutedRef.current = muted;
+    setIsMuted(muted);
+    if (muted) {
+      sessionRef.current?.endAudioStream();
+      vad.reset();
+      preRollRef.current = null;
+      setIsCandidateSpeaking(false);
+    }
+  }, [vad]);
+
+  const endSession = useCallback(async () => {
+    const session = sessionRef.current;
+    if (isPausedRef.current) togglePause();
+    if (session) {
+      dispatch({ type: 'summarize' });
+      // Ask for the structured report first so it isn't lost when the socket closes
+      await new Promise<void>(resolve => {
+        const timeout = window.setTimeout(resolve, SUMMARY_TIMEOUT_MS);
+        summaryResolverRef.current = () => {
+          clearTimeout(timeout);
+          resolve();
+        };
+        session.sendText(SUMMARY_REQUEST);
+      });
+      summaryResolverRef.current = null;
+    }
+    stopSession();
+  }, [stopSession, togglePause]);
+
+  const playAudio = async (data: string) => {
+    const ctx = outputAudioContextRef.current!;
+    nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
+
+    const audioBuffer = await decodeAudioData(decode(data), ctx, 24000, 1);
+    const source = ctx.createBufferSource();
+    source.buffer = audioBuffer;
+    source.connect(outputNodeRef.current!);
+    source.onended = () => {
+      sourcesRef.current.delete(source);
+      if (sourcesRef.current.size === 0) dispatch({ type: 'playbackEnded' });
+    };
+    source.start(nextStartTimeRef.current);
+    nextStartTimeRef.current += audioBuffer.duration;
+    speechAnalyzer.addInterviewerSpeech(audioBuffer.duration * 1000);
+    sourcesRef.current.add(source);
+  };
+
+  const connectLive = async (
+    config: InterviewConfig,
+    sessionRequirements: JobRequirement[],
+    options: SessionPromptOptions,
+    resumeTranscript?: TranscriptionEntry[],
+  ) => {
+    const connectionId = ++connectionIdRef.current;
+    const transport = createTransport(sessionMetaRef.current?.id ?? '');
+
+    const handleEvent = (event: LiveTransportEvent) => {
+      if (connectionId !== connectionIdRef.current) return;
+      dispatch({ type: 'transport', event, now: Date.now() });
+
+      switch (event.type) {
+        case 'open':
+          console.log('Live session opened');
+          break;
+        case 'audio':
+          playAudio(event.data);
+          break;
+        case 'interrupted':
+          stopPlayback();
+          break;
+        case 'toolCall':
+          for (const call of event.calls) {
+            if (call.name === 'getNextQuestion' && options.plan) {
+              const index = planCursorRef.current;
+              transport.sendToolResponse(nextQuestionResponse(call, options.plan, index));
+              if (index < options.plan.questions.length) {
+                planCursorRef.current = index + 1;
+                dispatch({ type: 'planAdvanced', current: index + 1 });
+              }
+              continue;
+            }
+            const response = toolCallResponse(call, sessionRequirements);
+            if (response.error) console.warn(`Rejected ${call.name} call:`, response.error);
+            // A malformed summary gets a chance to be resent before the timeout
+            else if (call.name === 'submitSummary') summaryResolverRef.current?.();
+            transport.sendToolResponse(response);
+          }
+          break;
+        case 'error':
+          console.error('Session error:', event.error);
+          handleConnectionDrop(connectionId);
+          break;
+        case 'close':
+          console.log('Session closed');
+          summaryResolverRef.current?.();
+          handleConnectionDrop(connectionId);
+          break;
+      }
+    };
+
+    await transport.connect({
+      systemInstruction: buildSystemInstruction(config, sessionRequirements, { ...options, resumeTranscript }),
+      voiceName: getPersona(config.personaId).voiceName,
+      languageCode: config.language,
+      tools: getTools(sessionRequirements, options.plan ?? null),
+    }, handleEvent);
+
+    if (connectionId !== connectionIdRef.current) {
+      // Stopped or superseded while connecting
+      transport.close();
+      return;
+    }
+    sessionRef.current = transport;
+  };
+
+  const handleConnectionDrop = (connectionId: number) => {
+    if (connectionId !== connectionIdRef.current) return;
+    connectionIdRef.current++;
+    sessionRef.current = null;
+    stopPlayback();
+
+    const meta = sessionMetaRef.current;
+    if (!shouldReconnectRef.current || !meta) {
+      stopSession();
+      return;
+    }
+
+    const attempt = reconnectAttemptsRef.current++;
+    if (attempt >= MAX_RECONNECT_ATTEMPTS) {
+      dispatch({ type: 'fail', error: 'Communication lost. Please try restarting the session.' });
+      stopSession();
+      return;
+    }
+
+    // Commits any half-finished turn so it is part of the re-seeded transcript
+    dispatch({ type: 'connectionLost', now: Date.now() });
+    const delay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** attempt);
+    reconnectTimerRef.current = window.setTimeout(async () => {
+      reconnectTimerRef.current = null;
+      try {
+        await connectLive(meta.config, extractRequirements(meta.config.jobDescription), sessionOptionsRef.current, transcriptionsRef.current);
+        if (!sessionRef.current) return;
+        reconnectAttemptsRef.current = 0;
+        dispatch({ type: 'connected', paused: isPausedRef.current });
+        sessionRef.current.sendText(buildReconnectInstruction(meta.config));
+      } catch (err) {
+        console.error('Reconnect failed:', err);
+        if (err instanceof LiveTokenError && !err.isRetryable) {
+          // e.g. the interview hit the server's duration cap; retrying won't help
+          dispatch({ type: 'fail', error: err.message });
+          stopSession();
+          return;
+        }
+        handleConnectionDrop(connectionIdRef.current);
+      }
+    }, delay);
+  };
+
+  const startSession = async (config: InterviewConfig, media: SessionMedia, options: SessionPromptOptions = {}) => {
+    try {
+      const sessionRequirements = extractRequirements(config.jobDescription);
+      // A retry practises one question, so it never follows the plan
+      const plan = options.retryQuestion ? null : getQuestionSet(config.questionSetId);
+      dispatch({
+        type: 'start',
+        requirements: sessionRequirements,
+        plan: plan ? { title: plan.title, current: 0, total: plan.questions.length } : null,
+      });
+      planCursorRef.current = 0;
+      speechAnalyzer.reset(config.language);
+      setSpeechMetrics(speechAnalyzer.getMetrics());
+      nonVerbalAnalyzer.reset(config.language);
+      setNonVerbalMetrics(nonVerbalAnalyzer.getMetrics());
+      setRecordingInfo(null);
+      const newSessionId = crypto.randomUUID();
+      setSessionId(newSessionId);
+      sessionMetaRef.current = {
+        id: newSessionId,
+        title: options.retryQuestion
+          ? `Retry · ${options.retryQuestion}`
+          : `${config.jobRole} · ${INTERVIEW_TYPE_LABELS[config.interviewType]}`,
+        config,
+        startedAt: Date.now(),
+        endedAt: null,
+      };
+      sessionOptionsRef.current = { ...options, plan, mode: media.mode };
+      setSessionMode(media.mode);
+
+      // Setup Audio Contexts
+      // Capture resamples to 16 kHz itself, so the input context may run at any rate the browser picks
+      if (!audioContextRef.current) audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: CAPTURE_SAMPLE_RATE });
+      if (!outputAudioContextRef.current) outputAudioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+      if (!outputNodeRef.current) {
+        // All interviewer playback goes through one node so it can be tapped for recording
+        outputNodeRef.current = outputAudioContextRef.current.createGain();
+        outputNodeRef.current.connect(outputAudioContextRef.current.destination);
+        const analyser = outputAudioContextRef.current.createAnalyser();
+        analyser.fftSize = 2048;
+        outputNodeRef.current.connect(analyser);
+        setOutputAnalyser(analyser);
+      }
+
+      await applySpeaker(outputAudioContextRef.current, media.speakerId);
+      // Replies are always transcribed; muting only silences the voice, so speaking state and timing still work
+      speakRepliesRef.current = media.speakReplies;
+      setSpeakRepliesState(media.speakReplies);
+      outputNodeRef.current.gain.value = media.speakReplies ? 1 : 0;
+      const { stream } = media;
+      mediaStreamRef.current = stream;
+      setMediaStream(stream);
+
+      // The mic pipeline outlives individual connections so reconnects don't rebuild it
+      vad.reset();
+      if (stream?.getAudioTracks().length) await startMicPipeline(stream);
+
+      shouldReconnectRef.current = true;
+      reconnectAttemptsRef.current = 0;
+      await connectLive(config, sessionRequirements, sessionOptionsRef.current);
+      if (sessionRef.current) dispatch({ type: 'connected', paused: false });
+
+      startRecording();
+    } catch (err) {
+      console.error('Failed to start session:', err);
+      dispatch({ type: 'fail', error: err instanceof LiveTokenError ? err.message : 'Could not start the interview. Please try again.' });
+      stopSession();
+    }
+  };
+
+  const startMicPipeline = async (stream: MediaStream) => {
+    const ctx = audioContextRef.current!;
+    const inputSource = ctx.createMediaStreamSource(stream);
+    const micAnalyser = ctx.createAnalyser();
+    micAnalyser.fftSize = 2048;
+    inputSource.connect(micAnalyser);
+    inputSourceRef.current = inputSource;
+    setInputAnalyser(micAnalyser);
+
+    micCaptureRef.current = await startMicCapture(ctx, stream, samples => {
+      if (isPausedRef.current || isMutedRef.current) return;
+      const durationMs = (samples.length / CAPTURE_SAMPLE_RATE) * 1000;
+      speechAnalyzer.processAudio(samples, CAPTURE_SAMPLE_RATE);
+
+      // Only voiced audio goes upstream; the model is told when the candidate stops
+      const { isSpeaking, started, ended } = vad.process(samples, durationMs);
+      if (started || ended) setIsCandidateSpeaking(isSpeaking);
+      const transport = sessionRef.current;
+      if (isSpeaking) {
+        if (started && preRollRef.current) transport?.sendAudio(createPcmBlob(preRollRef.current));
+        transport?.sendAudio(createPcmBlob(samples));
+        preRollRef.current = null;
+      } else {
+        if (ended) transport?.endAudioStream();
+        preRollRef.current = samples;
+      }
+    });
+  };
+
+  // A typed answer in a text session; ignored while paused or reconnecting
+  const sendTypedAnswer = useCallback((text: string) => {
+    const answer = text.trim();
+    if (!answer || isPausedRef.current || !sessionRef.current) return;
+    dispatch({ type: 'typedAnswer', text: answer, now: Date.now() });
+    sessionRef.current.sendText(answer);
+  }, []);
+
+  const setSpeakReplies = useCallback((speak: boolean) => {
+    speakRepliesRef.current = speak;
+    setSpeakRepliesState(speak);
+    if (outputNodeRef.current && !isPausedRef.current) outputNodeRef.current.gain.value = speak ? 1 : 0;
+  }, []);
+
+  // Out-of-band guidance for the interviewer, such as time checks; dropped while paused
+  const sendInstruction = useCallback((text: string) => {
+    if (!isPausedRef.current) sessionRef.current?.sendText(text);
+  }, []);
+
+  const processFaceSample = useCallback((sample: FaceSample | null) => {
+    if (!isPausedRef.current) nonVerbalAnalyzer.processSample(sample);
+  }, [nonVerbalAnalyzer]);
+
+  const shouldSendFrame = useCallback(
+    (lastSentAt: number) => nonVerbalAnalyzer.shouldSendFrame(lastSentAt),
+    [nonVerbalAnalyzer],
+  );
+
+  const sendFrame = useCallback((base64: string) => {
+    if (sessionRef.current && !isPausedRef.current) {
+      sessionRef.current.sendFrame(base64);
+    }
+  }, []);
+
+  // Keeps the in-memory metadata in step with edits made from the history panel
+  const handleSessionRenamed = useCallback((session: StoredSession) => {
+    if (sessionMetaRef.current?.id === session.id) sessionMetaRef.current.title = session.title;
+  }, []);
+
+  const handleSessionDeleted = useCallback((id: string) => {
+    if (sessionMetaRef.current?.id === id) sessionMetaRef.current = null;
+  }, []);
+
+  return {
+    state,
+    isActive,
+    isPaused: state.status === 'paused',
+    isSummarizing: state.status === 'summarizing',
+    connectionState: toConnectionState(state),
+    sessionId,
+    recordingInfo,
+    speechMetrics,
+    nonVerbalMetrics,
+    isCandidateSpeaking,
+    sessionMode,
+    speakReplies,
+    setSpeakReplies,
+    sendTypedAnswer,
+    startSession,
+    endSession,
+    togglePause,
+    isMuted,
+    toggleMute,
+    sendFrame,
+    sendInstruction,
+    processFaceSample,
+    shouldSendFrame,
+    mediaStream,
+    outputAnalyser,
+    inputAnalyser,
+    handleSessionRenamed,
+    handleSessionDeleted,
+    updateFeedback: (ids: string[], patch: FeedbackPatch) => dispatch({ type: 'updateFeedback', ids, patch }),
+    addAnswerAnalysis: (analysis: AnswerAnalysis) => dispatch({ type: 'answerAnalyzed', analysis }),
+    dismissError: () => dispatch({ type: 'dismissError' }),
+  };
+}
@@ -0,0 +1,120 @@
+import { useEffect, useRef, useState } from 'react';
+import { AnswerLimits } from '../types';
+import { AnswerPhase, answerPhase, FINAL_MINUTES_MS } from '../services/answer-timer';
+
+const TICK_MS = 500;
+
+interface UseInterviewTimersOptions {
+  isActive: boolean;
+  /** False while paused, reconnecting or summarizing, so those don't count against the clock. */
+  isRunning: boolean;
+  isInterviewerSpeaking: boolean;
+  isCandidateSpeaking: boolean;
+  limits: AnswerLimits;
+  /** Total interview length; null for no countdown. */
+  interviewMinutes: number | null;
+  /** Called once per answer when it passes the hard limit. */
+  onAnswerOverrun: (elapsedMs: number) => void;
+  /** Called once when the countdown reaches its final minutes. */
+  onFinalMinutes: (remainingMs: number) => void;
+  /** Called once when the countdown runs out. */
+  onTimeUp: () => void;
+}
+
+interface TimerSnapshot {
+  answerMs: number | null;
+  lastAnswerMs: number | null;
+  interviewMs: number;
+}
+
+const IDLE: TimerSnapshot = { answerMs: null, lastAnswerMs: null, interviewMs: 0 };
+
+/**
+ * Times the candidate's current answer and the whole interview. An answer
+ * starts when the candidate speaks after the interviewer's turn and ends when
+ * the interviewer speaks again.
+ */
+export function useInterviewTimers({
+  isActive,
+  isRunning,
+  isInterviewerSpeaking,
+  isCandidateSpeaking,
+  limits,
+  interviewMinutes,
+  onAnswerOverrun,
+  onFinalMinutes,
+  onTimeUp,
+}: UseInterviewTimersOptions) {
+  const [snapshot, setSnapshot] = useState<TimerSnapshot>(IDLE);
+  const timesRef = useRef<TimerSnapshot>(IDLE);
+  const wrapUpSentRef = useRef(false);
+  const finalWarnedRef = useRef(false);
+  const timeUpRef = useRef(false);
+  // Read from the interval without restarting it
+  const latestRef = useRef({ isRunning, limits, interviewMinutes, onAnswerOverrun, onFinalMinutes, onTimeUp });
+  latestRef.current = { isRunning, limits, interviewMinutes, onAnswerOverrun, onFinalMinutes, onTimeUp };
+
+  useEffect(() => {
+    if (isInterviewerSpeaking && timesRef.current.answerMs !== null) {
+      timesRef.current = { ...timesRef.current, answerMs: null, lastAnswerMs: timesRef.current.answerMs };
+      wrapUpSentRef.current = false;
+      setSnapshot(timesRef.current);
+    }
+  }, [isInterviewerSpeaking]);
+
+  useEffect(() => {
+    if (isCandidateSpeaking && !isInterviewerSpeaking && isRunning && timesRef.current.answerMs === null) {
+      timesRef.current = { ...timesRef.current, answerMs: 0 };
+      setSnapshot(timesRef.current);
+    }
+  }, [isCandidateSpeaking, isInterviewerSpeaking, isRunning]);
+
+  useEffect(() => {
+    timesRef.current = IDLE;
+    wrapUpSentRef.current = false;
+    finalWarnedRef.current = false;
+    timeUpRef.current = false;
+    setSnapshot(IDLE);
+    if (!isActive) return;
+
+    let lastTick = Date.now();
+    const interval = window.setInterval(() => {
+      const now = Date.now();
+      const elapsed = now - lastTick;
+      lastTick = now;
+      const { isRunning, limits, interviewMinutes, onAnswerOverrun, onFinalMinutes, onTimeUp } = latestRef.current;
+      if (!isRunning) return;
+
+      const times = timesRef.current;
+      const answerMs = times.answerMs === null ? null : times.answerMs + elapsed;
+      const interviewMs = times.interviewMs + elapsed;
+      timesRef.current = { ...times, answerMs, interviewMs };
+      setSnapshot(timesRef.current);
+
+      if (answerMs !== null && answerMs >= limits.hardSec * 1000 && !wrapUpSentRef.current) {
+        wrapUpSentRef.current = true;
+        onAnswerOverrun(answerMs);
+      }
+      if (interviewMinutes) {
+        const remaining = interviewMinutes * 60000 - interviewMs;
+        if (remaining <= FINAL_MINUTES_MS && remaining > 0 && !finalWarnedRef.current) {
+          finalWarnedRef.current = true;
+          onFinalMinutes(remaining);
+        }
+        if (remaining <= 0 && !timeUpRef.current) {
+          timeUpRef.current = true;
+          onTimeUp();
+        }
+      }
+    }, TICK_MS);
+    return () => clearInterval(interval);
+  }, [isActive]);
+
+  const phase: AnswerPhase = answerPhase(snapshot.answerMs, limits);
+  return {
+    answerMs: snapshot.answerMs,
+    lastAnswerMs: snapshot.lastAnswerMs,
+    phase,
+    interviewRemainingMs: interviewMinutes ? Math.max(0, interviewMinutes * 60000 - snapshot.interviewMs) : null,
+  };
+}
@@ -0,0 +1,34 @@
+import { useEffect, useRef } from 'react';
+
+export type ShortcutAction = 'start' | 'pause' | 'end' | 'mute';
+
+// Alt+Shift keeps them clear of typing and screen reader keys; matched on `code` since Alt changes `key` on macOS
+const SHORTCUT_CODES: Record<ShortcutAction, string> = {
+  start: 'KeyS',
+  pause: 'KeyP',
+  end: 'KeyE',
+  mute: 'KeyM',
+};
+
+/** The shortcut in `aria-keyshortcuts` form, e.g. "Alt+Shift+P". */
+export const shortcutLabel = (action: ShortcutAction) => `Alt+Shift+${SHORTCUT_CODES[action].slice(3)}`;
+
+/** Global Alt+Shift shortcuts; actions left out are disabled. */
+export function useKeyboardShortcuts(handlers: Partial<Record<ShortcutAction, () => void>>) {
+  // Read from the listener without re-binding it on every render
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!e.altKey || !e.shiftKey || e.ctrlKey || e.metaKey || e.repeat) return;
+      const action = (Object.keys(SHORTCUT_CODES) as ShortcutAction[]).find(a => SHORTCUT_CODES[a] === e.code);
+      const handler = action && handlersRef.current[action];
+      if (!handler) return;
+      e.preventDefault();
+      handler();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+}
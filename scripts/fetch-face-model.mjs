@@ -0,0 +1,18 @@
+// Downloads the MediaPipe face landmark model into public/ so the app can
+// serve it itself; nothing is fetched from a CDN while an interview runs.
+import { existsSync, mkdirSync, writeFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const MODEL_URL = 'https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task';
+const target = resolve(dirname(fileURLToPath(import.meta.url)), '../public/models/face_landmarker.task');
+
+if (existsSync(target)) {
+  console.log(`Face model already present at ${target}`);
+} else {
+  const response = await fetch(MODEL_URL);
+  if (!response.ok) throw new Error(`Download failed: ${response.status} ${response.statusText}`);
+  mkdirSync(dirname(target), { recursive: true });
+  writeFileSync(target, Buffer.from(await response.arrayBuffer()));
+  console.log(`Saved face model to ${target}`);
+}
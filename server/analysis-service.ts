@@ -0,0 +1,44 @@
+import { AnswerAnalysisRequest, MAX_ANSWER_CHARS, MAX_QUESTION_CHARS } from '../services/answer-analysis';
+import { ClientIdentity, createRateLimiter } from './rate-limiter';
+import { AnalysisUpstream } from './upstream';
+
+export interface AnalysisServiceLimits {
+  /** Answer analyses per user and per IP per hour; each one is a paid model call. */
+  analysesPerHour: number;
+}
+
+export type AnalysisResult =
+  | { analysis: Record<string, unknown> }
+  | { status: number; code: string; message: string; retryAfterSec?: number };
+
+const isString = (value: unknown, max: number): value is string => typeof value === 'string' && value.length <= max;
+
+/** Checks the request shape and lengths; returns null when it cannot be analyzed. */
+export function toAnalysisRequestBody(body: unknown): AnswerAnalysisRequest | null {
+  const { question, answer, jobRole, language } = (body ?? {}) as Record<string, unknown>;
+  if (!isString(question, MAX_QUESTION_CHARS) || !question.trim()) return null;
+  if (!isString(answer, MAX_ANSWER_CHARS) || !answer.trim()) return null;
+  if (!isString(jobRole, 200) || !isString(language, 35)) return null;
+  return { question, answer, jobRole, language };
+}
+
+export function createAnalysisService(upstream: AnalysisUpstream, limits: AnalysisServiceLimits, now: () => number = Date.now) {
+  const limiter = createRateLimiter(limits.analysesPerHour, 60 * 60 * 1000);
+
+  const analyze = async (client: ClientIdentity, request: AnswerAnalysisRequest): Promise<AnalysisResult> => {
+    const decision = limiter.take(client.limitKeys, now());
+    if (!decision.allowed) {
+      return {
+        status: 429,
+        code: 'rate_limited',
+        message: `You can analyze ${limits.analysesPerHour} answers per hour. Please try again later.`,
+        retryAfterSec: Math.ceil(decision.retryAfterMs / 1000),
+      };
+    }
+    return { analysis: await upstream.analyzeAnswer(request) };
+  };
+
+  return { analyze };
+}
+
+export type AnalysisService = ReturnType<typeof createAnalysisService>;
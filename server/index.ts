@@ -0,0 +1,147 @@
+// Token server for the live interview. The Gemini API key stays here; browsers
+// get single-use ephemeral tokens capped to one interview's length, and send
+// finished answers here for their STAR breakdown.
+//
+//   npm run server          real upstream, needs GEMINI_API_KEY
+//   npm run server:stub     fake tokens and analyses, for exercising limits locally
+import { existsSync } from 'node:fs';
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { MODEL_NAME } from '../services/gemini-transport';
+import { createAnalysisService, toAnalysisRequestBody } from './analysis-service';
+import { ClientIdentity } from './rate-limiter';
+import { createTokenService } from './token-service';
+import { createGeminiAnalysisUpstream, createGeminiUpstream, createStubAnalysisUpstream, createStubUpstream } from './upstream';
+
+// Same file the Vite dev server reads, so one GEMINI_API_KEY serves both
+if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+
+const PORT = Number(process.env.PORT ?? 8787);
+const MAX_BODY_BYTES = 1024;
+// Room for a long answer in any script
+const MAX_ANALYSIS_BODY_BYTES = 32 * 1024;
+const USER_HEADER = 'x-coach-user';
+
+const envNumber = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+const useStub = process.argv.includes('--stub') || process.env.LIVE_UPSTREAM === 'stub';
+const apiKey = process.env.GEMINI_API_KEY;
+if (!useStub && !apiKey) {
+  console.error('GEMINI_API_KEY is not set. Set it, or run `npm run server:stub` to use a stub upstream.');
+  process.exit(1);
+}
+
+const tokens = createTokenService(useStub ? createStubUpstream() : createGeminiUpstream(apiKey!), MODEL_NAME, {
+  sessionsPerHour: envNumber('SESSIONS_PER_HOUR', 6),
+  requestsPerMinute: envNumber('TOKEN_REQUESTS_PER_MINUTE', 10),
+  maxSessionMinutes: envNumber('MAX_SESSION_MINUTES', 45),
+});
+
+const analyses = createAnalysisService(useStub ? createStubAnalysisUpstream() : createGeminiAnalysisUpstream(apiKey!), {
+  analysesPerHour: envNumber('ANALYSES_PER_HOUR', 40),
+});
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const readJson = (req: IncomingMessage, maxBytes = MAX_BODY_BYTES) => new Promise<unknown>((resolve, reject) => {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > maxBytes) {
+      reject(new Error('Body too large'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+    } catch (err) {
+      reject(err);
+    }
+  });
+  req.on('error', reject);
+});
+
+// The client sends an anonymous id it chooses itself, so every limit also applies per IP.
+// Put real authentication in front of this in production
+const clientOf = (req: IncomingMessage): ClientIdentity => {
+  const ip = `ip:${req.socket.remoteAddress ?? 'unknown'}`;
+  const header = req.headers[USER_HEADER];
+  const id = typeof header === 'string' ? header.trim() : '';
+  return /^[\w-]{8,64}$/.test(id) ? { id: `user:${id}`, limitKeys: [`user:${id}`, ip] } : { id: ip, limitKeys: [ip] };
+};
+
+const handleTokenRequest = async (req: IncomingMessage, res: ServerResponse) => {
+  let body: unknown;
+  try {
+    body = await readJson(req);
+  } catch {
+    sendJson(res, 400, { code: 'bad_request', message: 'Expected a small JSON body.' });
+    return;
+  }
+  const sessionId = (body as { sessionId?: unknown })?.sessionId;
+  if (typeof sessionId !== 'string' || !/^[\w-]{1,100}$/.test(sessionId)) {
+    sendJson(res, 400, { code: 'bad_request', message: 'sessionId is required.' });
+    return;
+  }
+
+  const result = await tokens.issue(clientOf(req), sessionId);
+  if ('token' in result) {
+    sendJson(res, 200, { token: result.token, expiresAt: result.expiresAt });
+  } else {
+    const headers: Record<string, string> = result.retryAfterSec ? { 'Retry-After': String(result.retryAfterSec) } : {};
+    sendJson(res, result.status, { code: result.code, message: result.message, retryAfterSec: result.retryAfterSec }, headers);
+  }
+};
+
+const handleAnalysisRequest = async (req: IncomingMessage, res: ServerResponse) => {
+  let body: unknown;
+  try {
+    body = await readJson(req, MAX_ANALYSIS_BODY_BYTES);
+  } catch {
+    sendJson(res, 400, { code: 'bad_request', message: 'Expected a JSON body under 32 KB.' });
+    return;
+  }
+  const request = toAnalysisRequestBody(body);
+  if (!request) {
+    sendJson(res, 400, { code: 'bad_request', message: 'A question and answer are required.' });
+    return;
+  }
+
+  const result = await analyses.analyze(clientOf(req), request);
+  if ('analysis' in result) {
+    sendJson(res, 200, { analysis: result.analysis });
+  } else {
+    const headers: Record<string, string> = result.retryAfterSec ? { 'Retry-After': String(result.retryAfterSec) } : {};
+    sendJson(res, result.status, { code: result.code, message: result.message, retryAfterSec: result.retryAfterSec }, headers);
+  }
+};
+
+const server = createServer(async (req, res) => {
+  try {
+    if (req.method === 'POST' && req.url === '/api/live-token') {
+      await handleTokenRequest(req, res);
+    } else if (req.method === 'POST' && req.url === '/api/answer-analysis') {
+      await handleAnalysisRequest(req, res);
+    } else if (req.method === 'GET' && req.url === '/api/health') {
+      sendJson(res, 200, { ok: true, upstream: useStub ? 'stub' : 'gemini' });
+    } else {
+      sendJson(res, 404, { code: 'not_found', message: 'Not found.' });
+    }
+  } catch (err) {
+    console.error(`${req.url} failed:`, err);
+    if (!res.headersSent) sendJson(res, 502, { code: 'upstream_error', message: 'The interview server could not reach Gemini. Please try again.' });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Token server listening on http://localhost:${PORT} (${useStub ? 'stub' : 'Gemini'} upstream)`);
+});
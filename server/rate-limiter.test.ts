@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { createRateLimiter } from './rate-limiter';
+
+describe('createRateLimiter', () => {
+  it('allows up to the limit in any window', () => {
+    const limiter = createRateLimiter(2, 1000);
+    expect(limiter.take('a', 0).allowed).toBe(true);
+    expect(limiter.take('a', 100).allowed).toBe(true);
+    expect(limiter.take('a', 200)).toEqual({ allowed: false, retryAfterMs: 800 });
+    expect(limiter.take('a', 1000).allowed).toBe(true);
+  });
+
+  it('refuses when any key is full and then counts against none of them', () => {
+    const limiter = createRateLimiter(2, 1000);
+    limiter.take(['user:1', 'ip:1'], 0);
+    limiter.take(['user:2', 'ip:1'], 0);
+    // A fresh user id on the same IP is still refused
+    expect(limiter.take(['user:3', 'ip:1'], 0).allowed).toBe(false);
+    // ...and that refusal did not use up user:3's own allowance
+    expect(limiter.take(['user:3', 'ip:2'], 0).allowed).toBe(true);
+    expect(limiter.take(['user:3', 'ip:2'], 0).allowed).toBe(true);
+    expect(limiter.take(['user:3', 'ip:3'], 0).allowed).toBe(false);
+  });
+
+  it('drops keys once their window has emptied', () => {
+    const limiter = createRateLimiter(100, 1000);
+    for (let i = 0; i < 50; i++) limiter.take([`user:${i}`, 'ip:1'], i);
+    expect(limiter.size()).toBe(51);
+    limiter.take('user:new', 2000);
+    expect(limiter.size()).toBe(1);
+  });
+});
@@ -0,0 +1,53 @@
+export interface RateLimitDecision {
+  allowed: boolean;
+  /** How long until the next request would be allowed, when refused. */
+  retryAfterMs: number;
+}
+
+/** Who a request is counted against. */
+export interface ClientIdentity {
+  /** Owns the sessions it starts: the anonymous user id when sent, else the IP. */
+  id: string;
+  /** Every key the limits apply to; always includes the IP, since the user id is chosen by the client. */
+  limitKeys: string[];
+}
+
+export interface RateLimiter {
+  /** Counts one request against every key, or none of them if any key is over its limit. */
+  take: (keys: string | string[], now: number) => RateLimitDecision;
+  /** Keys currently tracked. */
+  size: () => number;
+}
+
+/** Sliding-window limiter allowing `limit` requests per key in any `windowMs`. */
+export function createRateLimiter(limit: number, windowMs: number): RateLimiter {
+  const hits = new Map<string, number[]>();
+  let lastSweepAt = 0;
+
+  // Keys whose window has emptied are dropped, so one-off ids don't pile up
+  const sweep = (now: number) => {
+    if (now - lastSweepAt < windowMs) return;
+    lastSweepAt = now;
+    hits.forEach((times, key) => {
+      if (times.every(at => now - at >= windowMs)) hits.delete(key);
+    });
+  };
+
+  return {
+    take: (keys, now) => {
+      sweep(now);
+      const recent = (Array.isArray(keys) ? keys : [keys]).map(key => ({
+        key,
+        times: (hits.get(key) ?? []).filter(at => now - at < windowMs),
+      }));
+      const full = recent.filter(r => r.times.length >= limit);
+      if (full.length) {
+        full.forEach(r => hits.set(r.key, r.times));
+        return { allowed: false, retryAfterMs: Math.max(...full.map(r => r.times[0] + windowMs - now)) };
+      }
+      recent.forEach(r => hits.set(r.key, [...r.times, now]));
+      return { allowed: true, retryAfterMs: 0 };
+    },
+    size: () => hits.size,
+  };
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { ClientIdentity } from './rate-limiter';
+import { createTokenService } from './token-service';
+import { TokenUpstream } from './upstream';
+
+const upstream: TokenUpstream = { createToken: async () => 'token' };
+const limits = { sessionsPerHour: 6, requestsPerMinute: 100, maxSessionMinutes: 45 };
+
+const client = (user: string, ip = '203.0.113.7'): ClientIdentity => ({ id: `user:${user}`, limitKeys: [`user:${user}`, `ip:${ip}`] });
+
+describe('createTokenService', () => {
+  it('limits new interviews per IP even when the user id rotates', async () => {
+    const tokens = createTokenService(upstream, 'model', limits, () => 0);
+    const results = await Promise.all(Array.from({ length: 8 }, (_, i) => tokens.issue(client(`rotating-${i}`), `session-${i}`)));
+    expect(results.filter(r => 'token' in r)).toHaveLength(6);
+    expect(results[7]).toMatchObject({ status: 429, code: 'session_limit' });
+  });
+
+  it('lets reconnects to an existing interview through', async () => {
+    const tokens = createTokenService(upstream, 'model', limits, () => 0);
+    for (let i = 0; i < 6; i++) await tokens.issue(client('candidate'), `session-${i}`);
+    expect(await tokens.issue(client('candidate'), 'session-0')).toMatchObject({ token: 'token' });
+  });
+
+  it('keeps an interview to the user who started it', async () => {
+    const tokens = createTokenService(upstream, 'model', limits, () => 0);
+    await tokens.issue(client('owner'), 'shared');
+    expect(await tokens.issue(client('intruder'), 'shared')).toMatchObject({ status: 403, code: 'forbidden' });
+  });
+});
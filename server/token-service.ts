@@ -0,0 +1,75 @@
+import { ClientIdentity, createRateLimiter } from './rate-limiter';
+import { TokenUpstream } from './upstream';
+
+export interface TokenServiceLimits {
+  /** New interviews a user, and separately an IP, may start per hour. */
+  sessionsPerHour: number;
+  /** Token requests per user and per IP per minute, reconnects included. */
+  requestsPerMinute: number;
+  /** Hard cap on one interview, reconnects included. */
+  maxSessionMinutes: number;
+}
+
+export type TokenResult =
+  | { token: string; expiresAt: number }
+  | { status: number; code: string; message: string; retryAfterSec?: number };
+
+// How long a freshly issued token may take to open its session
+const CONNECT_WINDOW_MS = 60 * 1000;
+
+interface SessionRecord {
+  userId: string;
+  startedAt: number;
+}
+
+/**
+ * Issues one ephemeral token per connection. The first request for a session
+ * id starts its clock; reconnects reuse it, so every token for that interview
+ * expires at the same cap rather than extending it.
+ */
+export function createTokenService(upstream: TokenUpstream, model: string, limits: TokenServiceLimits, now: () => number = Date.now) {
+  const sessions = new Map<string, SessionRecord>();
+  const requestLimiter = createRateLimiter(limits.requestsPerMinute, 60 * 1000);
+  const sessionLimiter = createRateLimiter(limits.sessionsPerHour, 60 * 60 * 1000);
+  const capMs = limits.maxSessionMinutes * 60 * 1000;
+
+  const refuse = (status: number, code: string, message: string, retryAfterMs?: number): TokenResult => ({
+    status,
+    code,
+    message,
+    retryAfterSec: retryAfterMs === undefined ? undefined : Math.ceil(retryAfterMs / 1000),
+  });
+
+  const issue = async (client: ClientIdentity, sessionId: string): Promise<TokenResult> => {
+    const at = now();
+    sessions.forEach((s, id) => { if (at - s.startedAt > capMs) sessions.delete(id); });
+
+    const request = requestLimiter.take(client.limitKeys, at);
+    if (!request.allowed) return refuse(429, 'rate_limited', 'Too many connection attempts. Please wait a moment.', request.retryAfterMs);
+
+    let session = sessions.get(sessionId);
+    if (session && session.userId !== client.id) return refuse(403, 'forbidden', 'This interview belongs to another user.');
+    if (!session) {
+      const started = sessionLimiter.take(client.limitKeys, at);
+      if (!started.allowed) {
+        return refuse(429, 'session_limit', `You can start ${limits.sessionsPerHour} interviews per hour. Please try again later.`, started.retryAfterMs);
+      }
+      session = { userId: client.id, startedAt: at };
+      sessions.set(sessionId, session);
+    }
+
+    const expiresAt = session.startedAt + capMs;
+    if (expiresAt <= at) return refuse(403, 'session_expired', `Interviews are limited to ${limits.maxSessionMinutes} minutes.`);
+
+    const token = await upstream.createToken({
+      model,
+      expireTime: new Date(expiresAt),
+      newSessionExpireTime: new Date(Math.min(expiresAt, at + CONNECT_WINDOW_MS)),
+    });
+    return { token, expiresAt };
+  };
+
+  return { issue };
+}
+
+export type TokenService = ReturnType<typeof createTokenService>;
@@ -0,0 +1,95 @@
+import { randomUUID } from 'node:crypto';
+import { GoogleGenAI } from '@google/genai';
+import { ANALYSIS_MODEL, AnswerAnalysisRequest, answerAnalysisSchema, buildAnswerAnalysisPrompt } from '../services/answer-analysis';
+
+export interface TokenRequest {
+  model: string;
+  /** Messages in the live session are rejected after this. */
+  expireTime: Date;
+  /** The token can no longer open a session after this. */
+  newSessionExpireTime: Date;
+}
+
+/** Where ephemeral Live API tokens come from. */
+export interface TokenUpstream {
+  createToken: (request: TokenRequest) => Promise<string>;
+}
+
+/** Mints single-use ephemeral tokens with the real API key, which never leaves the server. */
+export function createGeminiUpstream(apiKey: string): TokenUpstream {
+  // Ephemeral tokens are only available on v1alpha
+  const ai = new GoogleGenAI({ apiKey, httpOptions: { apiVersion: 'v1alpha' } });
+
+  return {
+    createToken: async ({ model, expireTime, newSessionExpireTime }) => {
+      const token = await ai.authTokens.create({
+        config: {
+          uses: 1,
+          expireTime: expireTime.toISOString(),
+          newSessionExpireTime: newSessionExpireTime.toISOString(),
+          liveConnectConstraints: { model },
+          httpOptions: { apiVersion: 'v1alpha' },
+        },
+      });
+      if (!token.name) throw new Error('Upstream returned a token without a name');
+      return token.name;
+    },
+  };
+}
+
+/** Hands out fake tokens so the server's limits can be exercised without an API key. */
+export function createStubUpstream(): TokenUpstream {
+  return {
+    createToken: async ({ model, expireTime }) => {
+      const token = `stub-${randomUUID()}`;
+      console.log(`[stub] issued ${token} for ${model}, expires ${expireTime.toISOString()}`);
+      return token;
+    },
+  };
+}
+
+/** Where per-answer STAR breakdowns come from; returns the model's raw JSON. */
+export interface AnalysisUpstream {
+  analyzeAnswer: (request: AnswerAnalysisRequest) => Promise<Record<string, unknown>>;
+}
+
+/** One structured-output request to a text model per answer. */
+export function createGeminiAnalysisUpstream(apiKey: string): AnalysisUpstream {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    analyzeAnswer: async request => {
+      const response = await ai.models.generateContent({
+        model: ANALYSIS_MODEL,
+        contents: buildAnswerAnalysisPrompt(request),
+        config: { responseMimeType: 'application/json', responseSchema: answerAnalysisSchema, temperature: 0.3 },
+      });
+      if (!response.text) throw new Error('Upstream returned an empty analysis');
+      return JSON.parse(response.text);
+    },
+  };
+}
+
+/** Splits the answer into four even parts so the cards can be exercised without an API key. */
+export function createStubAnalysisUpstream(): AnalysisUpstream {
+  return {
+    analyzeAnswer: async ({ answer }) => {
+      const sentences = answer.match(/[^.!?]+[.!?]*/g)?.map(s => s.trim()).filter(Boolean) ?? [answer];
+      const per = Math.ceil(sentences.length / 4);
+      const part = (i: number) => {
+        const quote = sentences.slice(i * per, (i + 1) * per).join(' ');
+        return { present: quote !== '', quote, note: quote ? '[stub] Looks covered.' : '[stub] Missing.' };
+      };
+      const metrics = answer.match(/\d[\d,.]*\s*(%|percent|x\b)?/g) ?? [];
+      console.log(`[stub] analyzed a ${answer.length}-character answer`);
+      return {
+        situation: part(0),
+        task: part(1),
+        action: part(2),
+        result: part(3),
+        impact: { quantified: metrics.length > 0, metrics, suggestion: '[stub] Add a number to the result.' },
+        rewrite: `[stub] ${answer}`,
+      };
+    },
+  };
+}
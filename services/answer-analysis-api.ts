@@ -0,0 +1,23 @@
+import { AnswerAnalysis, QuestionTurn } from '../types';
+import { parseAnswerAnalysis, toAnalysisRequest } from './answer-analysis';
+import { getUserId, serverUrl } from './live-token';
+
+/** Asks the server for a STAR breakdown of one answered question. */
+export async function fetchAnswerAnalysis(turn: QuestionTurn, jobRole: string, language: string): Promise<AnswerAnalysis> {
+  let response: Response;
+  try {
+    response = await fetch(serverUrl('/api/answer-analysis'), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Coach-User': getUserId() },
+      body: JSON.stringify(toAnalysisRequest(turn, jobRole, language)),
+    });
+  } catch {
+    throw new Error('Could not reach the interview server. Check your connection.');
+  }
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok || !body.analysis || typeof body.analysis !== 'object') {
+    throw new Error(typeof body.message === 'string' ? body.message : 'Could not analyze this answer. Please try again.');
+  }
+  return parseAnswerAnalysis(body.analysis, turn.id, turn.question);
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { StarPart } from '../types';
+import { parseAnswerAnalysis } from './answer-analysis';
+
+describe('parseAnswerAnalysis', () => {
+  it('keeps well-formed parts and trims them', () => {
+    const analysis = parseAnswerAnalysis({
+      situation: { present: true, quote: ' Our billing system kept failing. ', note: 'Clear context.' },
+      impact: { quantified: false, metrics: ['40 percent', 3, ''], suggestion: 'Say how many invoices.' },
+      rewrite: ' A stronger answer. ',
+    }, 't1', 'Tell me about a time...');
+
+    expect(analysis.star[0]).toEqual({ part: StarPart.SITUATION, quote: 'Our billing system kept failing.', present: true, note: 'Clear context.' });
+    expect(analysis.impact).toEqual({ quantified: true, metrics: ['40 percent'], suggestion: 'Say how many invoices.' });
+    expect(analysis.rewrite).toBe('A stronger answer.');
+  });
+
+  it('treats parts of the wrong shape as missing', () => {
+    const analysis = parseAnswerAnalysis({
+      situation: 'Our billing system kept failing.',
+      task: ['quote'],
+      action: { present: true, quote: 42 },
+      result: null,
+      impact: 'lots',
+    }, 't1', 'Tell me about a time...');
+
+    expect(analysis.star.map(s => s.present)).toEqual([false, false, false, false]);
+    expect(analysis.star.every(s => s.quote === '' && s.note === '')).toBe(true);
+    expect(analysis.impact).toEqual({ quantified: false, metrics: [], suggestion: '' });
+    expect(analysis.rewrite).toBe('');
+  });
+});
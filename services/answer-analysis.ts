@@ -0,0 +1,120 @@
+import { Schema, Type } from '@google/genai';
+import { AnswerAnalysis, QuestionTurn, StarPart, StarSegment } from '../types';
+import { getInterviewLanguage } from './interview-config';
+
+// A text model; the live model only speaks
+export const ANALYSIS_MODEL = 'gemini-2.5-flash';
+
+// Shorter answers have no structure worth breaking down
+export const MIN_ANALYSIS_WORDS = 25;
+export const MAX_ANSWER_CHARS = 6000;
+export const MAX_QUESTION_CHARS = 500;
+
+/** What the client sends; the server builds the prompt so the endpoint cannot be used as a general model proxy. */
+export interface AnswerAnalysisRequest {
+  question: string;
+  answer: string;
+  jobRole: string;
+  /** BCP-47 code of the interview language, which the analysis is written in. */
+  language: string;
+}
+
+const STAR_ORDER = [StarPart.SITUATION, StarPart.TASK, StarPart.ACTION, StarPart.RESULT];
+
+/** The candidate's whole answer to a question, follow-ups included, since a result often only comes out when probed. */
+export function fullAnswer(turn: QuestionTurn): string {
+  return [turn.answer, ...turn.followUps.map(fullAnswer)].filter(Boolean).join(' ').trim();
+}
+
+export function isAnalyzable(turn: QuestionTurn): boolean {
+  return fullAnswer(turn).split(/\s+/).filter(Boolean).length >= MIN_ANALYSIS_WORDS;
+}
+
+/** Whether the interviewer has moved on from the question and all of its follow-ups. */
+export function isAnswerComplete(turn: QuestionTurn): boolean {
+  return turn.endedAt !== null && turn.followUps.every(isAnswerComplete);
+}
+
+export function toAnalysisRequest(turn: QuestionTurn, jobRole: string, language: string): AnswerAnalysisRequest {
+  return {
+    question: turn.question.slice(0, MAX_QUESTION_CHARS),
+    answer: fullAnswer(turn).slice(0, MAX_ANSWER_CHARS),
+    jobRole,
+    language,
+  };
+}
+
+const segmentSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    present: { type: Type.BOOLEAN, description: 'Whether the answer covers this part at all' },
+    quote: { type: Type.STRING, description: "The candidate's words for this part, verbatim; empty if missing" },
+    note: { type: Type.STRING, description: 'One sentence: what works, or what is missing and how to add it' },
+  },
+  required: ['present', 'quote', 'note'],
+};
+
+export const answerAnalysisSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    situation: segmentSchema,
+    task: segmentSchema,
+    action: segmentSchema,
+    result: segmentSchema,
+    impact: {
+      type: Type.OBJECT,
+      properties: {
+        quantified: { type: Type.BOOLEAN, description: 'Whether the result is backed by numbers or measurable outcomes' },
+        metrics: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Figures the candidate mentioned, verbatim' },
+        suggestion: { type: Type.STRING, description: 'Which outcome to measure and how to phrase it' },
+      },
+      required: ['quantified', 'metrics', 'suggestion'],
+    },
+    rewrite: { type: Type.STRING, description: 'A stronger version of the same answer, under 180 words' },
+  },
+  required: ['situation', 'task', 'action', 'result', 'impact', 'rewrite'],
+};
+
+export function buildAnswerAnalysisPrompt(request: AnswerAnalysisRequest): string {
+  const language = getInterviewLanguage(request.language).englishName;
+  return `You are an interview coach reviewing one answer from a mock interview for a ${request.jobRole || 'professional'} role.
+
+Break the answer down using the STAR method:
+- Situation: the context and when it happened.
+- Task: the candidate's own responsibility or goal.
+- Action: the specific steps the candidate personally took.
+- Result: the outcome, ideally measured.
+
+Only mark a part present if the candidate actually said it; quote their words rather than paraphrasing. Check whether the impact is quantified (numbers, percentages, time or money saved, scale).
+Then write a stronger version of the same answer in the first person. Keep the candidate's facts; where a figure is missing use a placeholder like [X%] instead of inventing one.
+
+Write the notes, suggestion and rewrite in ${language}. Quotes stay in the language the candidate used.
+
+Question: """${request.question}"""
+
+Answer: """${request.answer}"""`;
+}
+
+const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+const record = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+
+/** Coerces the model's JSON into an analysis; missing parts come back as not present rather than failing. */
+export function parseAnswerAnalysis(raw: Record<string, unknown>, turnId: string, question: string): AnswerAnalysis {
+  const star: StarSegment[] = STAR_ORDER.map(part => {
+    const segment = record(raw?.[part]);
+    const quote = text(segment.quote);
+    return { part, quote, present: segment.present === true && quote !== '', note: text(segment.note) };
+  });
+  const impact = record(raw?.impact);
+  const metrics = Array.isArray(impact.metrics) ? impact.metrics.map(text).filter(Boolean) : [];
+
+  return {
+    turnId,
+    question,
+    star,
+    impact: { quantified: impact.quantified === true || metrics.length > 0, metrics, suggestion: text(impact.suggestion) },
+    rewrite: text(raw?.rewrite),
+    createdAt: Date.now(),
+  };
+}
@@ -0,0 +1,41 @@
+import { AnswerLimits, InterviewConfig } from '../types';
+
+export type AnswerPhase = 'idle' | 'answering' | 'overSoft' | 'overHard';
+
+// Planned questions with their own limit get the nudge at this share of it
+const PLANNED_SOFT_RATIO = 0.75;
+
+/** When the interviewer is told to make the current question the last one. */
+export const FINAL_MINUTES_MS = 2 * 60 * 1000;
+
+/** The time box for the current answer; a planned question's own time limit becomes the hard limit. */
+export function resolveAnswerLimits(config: InterviewConfig, questionTimeLimitSec?: number | null): AnswerLimits {
+  if (questionTimeLimitSec) {
+    return { softSec: Math.round(questionTimeLimitSec * PLANNED_SOFT_RATIO), hardSec: questionTimeLimitSec };
+  }
+  return config.answerLimits;
+}
+
+export function answerPhase(elapsedMs: number | null, limits: AnswerLimits): AnswerPhase {
+  if (elapsedMs === null) return 'idle';
+  if (elapsedMs >= limits.hardSec * 1000) return 'overHard';
+  if (elapsedMs >= limits.softSec * 1000) return 'overSoft';
+  return 'answering';
+}
+
+/** m:ss, or h:mm:ss past an hour. */
+export function formatDuration(ms: number): string {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = String(total % 60).padStart(2, '0');
+  return hours ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+export const wrapUpInstruction = (elapsedMs: number) =>
+  `Time check: the candidate has been answering for ${formatDuration(elapsedMs)}, past the time limit. ` +
+  'At the next natural pause, politely ask them to wrap up in one or two sentences, then move on.';
+
+export const finalMinutesInstruction = (remainingMs: number) =>
+  `Time check: about ${Math.max(1, Math.round(remainingMs / 60000))} minutes of the interview remain. ` +
+  'Make the current question the last one; do not start a new topic.';
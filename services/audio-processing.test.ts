@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { chunks, concat, tone } from '../fixtures/audio';
+import { createStreamResampler } from './audio-processing';
+
+// AudioWorklet render quantum
+const QUANTUM_MS_AT = (rate: number) => (128 / rate) * 1000;
+
+const resampleInChunks = (fromRate: number, toRate: number, input: Float32Array, chunkMs: number) => {
+  const resampler = createStreamResampler(fromRate, toRate);
+  return concat(...chunks(input, chunkMs, fromRate).map(resampler.process));
+};
+
+const maxStep = (samples: Float32Array) => {
+  let max = 0;
+  for (let i = 1; i < samples.length; i++) max = Math.max(max, Math.abs(samples[i] - samples[i - 1]));
+  return max;
+};
+
+describe('createStreamResampler', () => {
+  it.each([48000, 44100])('turns one second at %i Hz into one second at 16 kHz', fromRate => {
+    const output = resampleInChunks(fromRate, 16000, tone(1000, 0.5, 220, fromRate), QUANTUM_MS_AT(fromRate));
+    expect(Math.abs(output.length - 16000)).toBeLessThanOrEqual(1);
+  });
+
+  it.each([48000, 44100])('gives the same output at %i Hz whatever the chunk size', fromRate => {
+    const input = tone(500, 0.5, 220, fromRate);
+    const whole = createStreamResampler(fromRate, 16000).process(input);
+    const chunked = resampleInChunks(fromRate, 16000, input, QUANTUM_MS_AT(fromRate));
+    const odd = resampleInChunks(fromRate, 16000, input, 7.3);
+
+    expect(chunked.length).toBe(whole.length);
+    expect(odd.length).toBe(whole.length);
+    for (let i = 0; i < whole.length; i++) {
+      expect(chunked[i]).toBeCloseTo(whole[i], 5);
+      expect(odd[i]).toBeCloseTo(whole[i], 5);
+    }
+  });
+
+  it('has no jumps at chunk boundaries', () => {
+    const output = resampleInChunks(44100, 16000, tone(1000, 0.5, 220, 44100), QUANTUM_MS_AT(44100));
+    // A 220 Hz sine at 16 kHz moves at most 2π·220/16000 of its amplitude per sample
+    expect(maxStep(output)).toBeLessThan(0.5 * ((2 * Math.PI * 220) / 16000) * 1.1);
+  });
+
+  it('keeps a tone at its amplitude', () => {
+    const output = createStreamResampler(48000, 16000).process(tone(200, 0.5, 220, 48000));
+    expect(Math.max(...output)).toBeCloseTo(0.5, 1);
+  });
+
+  it('passes audio already at the target rate through as a copy', () => {
+    const input = tone(10, 0.5, 220, 16000);
+    const output = createStreamResampler(16000, 16000).process(input);
+    expect(output).toEqual(input);
+    expect(output).not.toBe(input);
+  });
+
+  it('upsamples by interpolating', () => {
+    const output = createStreamResampler(8000, 16000).process(Float32Array.from([0, 1, 0, -1, 0]));
+    expect(Array.from(output)).toEqual([0, 0.5, 1, 0.5, 0, -0.5, -1, -0.5]);
+  });
+
+  it('drops leftover input on reset', () => {
+    const resampler = createStreamResampler(48000, 16000);
+    resampler.process(Float32Array.from([1, 1]));
+    resampler.reset();
+    expect(Array.from(resampler.process(Float32Array.from([0, 0, 0])))).toEqual([0]);
+  });
+});
@@ -41,10 +41,70 @@ export function createPcmBlob(data: Float32Array): { data: string; mimeType: str
   const l = data.length;
   const int16 = new Int16Array(l);
   for (let i = 0; i < l; i++) {
-    int16[i] = data[i] * 32768;
+    // Clamp first: a full-scale 1.0 would otherwise wrap around to -32768
+    const sample = Math.max(-1, Math.min(1, data[i]));
+    int16[i] = sample < 0 ? sample * 32768 : sample * 32767;
   }
   return {
     data: encode(new Uint8Array(int16.buffer)),
     mimeType: 'audio/pcm;rate=16000',
   };
 }
+
+export interface StreamResampler {
+  /** Resamples the next chunk; leftover input is carried into the following call. */
+  process: (input: Float32Array) => Float32Array;
+  reset: () => void;
+}
+
+/**
+ * Streaming mono resampler. Downsampling averages each output window (a box
+ * filter, enough to keep speech from aliasing); upsampling interpolates linearly.
+ */
+export function createStreamResampler(fromRate: number, toRate: number): StreamResampler {
+  const ratio = fromRate / toRate;
+  let carry = new Float32Array(0);
+  // Positions are absolute, so rounding never depends on how the stream was chunked
+  let produced = 0;
+  let dropped = 0;
+
+  const process = (input: Float32Array): Float32Array => {
+    if (ratio === 1) return input.slice();
+
+    const buffer = new Float32Array(carry.length + input.length);
+    buffer.set(carry);
+    buffer.set(input, carry.length);
+    const bufferEnd = dropped + buffer.length;
+
+    const output: number[] = [];
+    if (ratio > 1) {
+      for (let position = produced * ratio; position + ratio <= bufferEnd; position = ++produced * ratio) {
+        const start = Math.floor(position);
+        const end = Math.max(start + 1, Math.floor(position + ratio));
+        let sum = 0;
+        for (let i = start; i < end; i++) sum += buffer[i - dropped];
+        output.push(sum / (end - start));
+      }
+    } else {
+      for (let position = produced * ratio; position + 1 < bufferEnd; position = ++produced * ratio) {
+        const i = Math.floor(position);
+        const frac = position - i;
+        output.push(buffer[i - dropped] * (1 - frac) + buffer[i + 1 - dropped] * frac);
+      }
+    }
+
+    const next = Math.floor(produced * ratio);
+    carry = buffer.slice(next - dropped);
+    dropped = next;
+    return Float32Array.from(output);
+  };
+
+  return {
+    process,
+    reset: () => {
+      carry = new Float32Array(0);
+      produced = 0;
+      dropped = 0;
+    },
+  };
+}
@@ -0,0 +1,78 @@
+/// <reference types="vite/client" />
+// Bundled with the app so résumé uploads never run worker code fetched from a CDN
+import pdfWorkerSrc from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { JobRequirement } from '../types';
+
+const MAX_DOCUMENT_CHARS = 12000;
+const MAX_REQUIREMENTS = 15;
+
+const isPdf = (file: File) =>
+  file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+
+async function extractPdfText(file: File): Promise<string> {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerSrc;
+
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+  const pages: string[] = [];
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const page = await pdf.getPage(i);
+    const content = await page.getTextContent();
+    let text = '';
+    for (const item of content.items) {
+      if ('str' in item) {
+        text += item.str + (item.hasEOL ? '\n' : ' ');
+      }
+    }
+    pages.push(text);
+  }
+  return pages.join('\n');
+}
+
+/** Reads a plain text, Markdown or PDF file into normalized plain text. */
+export async function readDocumentText(file: File): Promise<string> {
+  const raw = isPdf(file) ? await extractPdfText(file) : await file.text();
+  return normalizeDocumentText(raw);
+}
+
+export function normalizeDocumentText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+    .slice(0, MAX_DOCUMENT_CHARS);
+}
+
+/**
+ * Pulls the requirement bullets out of a job description. Bulleted or numbered
+ * lines are treated as requirements; when the JD has none, falls back to
+ * sentences that read like requirements.
+ */
+export function extractRequirements(jobDescription: string): JobRequirement[] {
+  const lines = jobDescription.split('\n').map(l => l.trim()).filter(Boolean);
+  const bulletPattern = /^(?:[-*•▪◦]|\d+[.)])\s+/;
+
+  let candidates = lines
+    .filter(l => bulletPattern.test(l))
+    .map(l => l.replace(bulletPattern, '').replace(/[*_`]/g, '').trim());
+
+  if (candidates.length === 0) {
+    candidates = jobDescription
+      .split(/(?<=[.!?])\s+|\n/)
+      .map(s => s.trim())
+      .filter(s => /\b(experience|proficien|knowledge|ability|familiar|skills?|degree|must|should)\b/i.test(s));
+  }
+
+  const seen = new Set<string>();
+  return candidates
+    .filter(text => text.length >= 8 && text.length <= 240)
+    .filter(text => {
+      const key = text.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_REQUIREMENTS)
+    .map((text, i) => ({ id: `R${i + 1}`, text, covered: false }));
+}
@@ -0,0 +1,87 @@
+/// <reference types="vite/client" />
+import { FaceLandmarker, FaceLandmarkerResult } from '@mediapipe/tasks-vision';
+// Bundled with the app so the tracker never fetches WASM from a CDN at runtime
+import wasmLoaderPath from '@mediapipe/tasks-vision/vision_wasm_internal.js?url';
+import wasmBinaryPath from '@mediapipe/tasks-vision/vision_wasm_internal.wasm?url';
+import { FaceSample } from '../types';
+
+// Served from public/; fetched once by `npm run fetch-face-model`
+const MODEL_PATH = '/models/face_landmarker.task';
+
+// Face mesh landmark indices
+const NOSE_TIP = 1;
+const FOREHEAD = 10;
+const CHIN = 152;
+const LEFT_CHEEK = 234;
+const RIGHT_CHEEK = 454;
+// Where the nose tip sits between forehead and chin when facing the camera
+const NEUTRAL_PITCH = 0.55;
+
+const MAX_CAMERA_YAW = 0.25;
+const MAX_CAMERA_PITCH = 0.3;
+// Blendshape score above which the eyes count as looking away
+const EYE_LOOK_AWAY = 0.45;
+const EYE_LOOK_SHAPES = [
+  'eyeLookInLeft', 'eyeLookOutLeft', 'eyeLookUpLeft', 'eyeLookDownLeft',
+  'eyeLookInRight', 'eyeLookOutRight', 'eyeLookUpRight', 'eyeLookDownRight',
+];
+
+/** Reduces a landmarker result to the measurements the coach uses, or null with no face. */
+export function toFaceSample(result: FaceLandmarkerResult): FaceSample | null {
+  const landmarks = result.faceLandmarks[0];
+  if (!landmarks) return null;
+
+  const nose = landmarks[NOSE_TIP];
+  const left = landmarks[LEFT_CHEEK];
+  const right = landmarks[RIGHT_CHEEK];
+  const top = landmarks[FOREHEAD];
+  const chin = landmarks[CHIN];
+  const faceWidth = Math.abs(right.x - left.x);
+  const faceHeight = Math.abs(chin.y - top.y);
+  if (faceWidth === 0 || faceHeight === 0) return null;
+
+  const yaw = ((nose.x - Math.min(left.x, right.x)) / faceWidth - 0.5) * 2;
+  const pitch = (NEUTRAL_PITCH - (nose.y - top.y) / faceHeight) * 2;
+  const eyeLookAway = (result.faceBlendshapes[0]?.categories ?? [])
+    .filter(c => EYE_LOOK_SHAPES.includes(c.categoryName))
+    .reduce((max, c) => Math.max(max, c.score), 0);
+
+  return {
+    centerX: (left.x + right.x) / 2,
+    centerY: (top.y + chin.y) / 2,
+    width: faceWidth,
+    yaw,
+    pitch,
+    isLookingAtCamera: Math.abs(yaw) < MAX_CAMERA_YAW && Math.abs(pitch) < MAX_CAMERA_PITCH && eyeLookAway < EYE_LOOK_AWAY,
+  };
+}
+
+export interface FaceTracker {
+  /** Runs the landmark model on the current video frame. */
+  detect: (video: HTMLVideoElement, now: number) => FaceSample | null;
+  close: () => void;
+}
+
+/** Loads the WASM face landmark model; rejects if the model file isn't available. */
+export async function createFaceTracker(): Promise<FaceTracker> {
+  const landmarker = await FaceLandmarker.createFromOptions(
+    { wasmLoaderPath, wasmBinaryPath },
+    {
+      baseOptions: { modelAssetPath: MODEL_PATH, delegate: 'GPU' },
+      runningMode: 'VIDEO',
+      numFaces: 1,
+      outputFaceBlendshapes: true,
+    },
+  );
+  let lastTimestamp = 0;
+
+  return {
+    detect: (video, now) => {
+      // The landmarker requires strictly increasing timestamps
+      const timestamp = Math.max(now, lastTimestamp + 1);
+      lastTimestamp = timestamp;
+      return toFaceSample(landmarker.detectForVideo(video, timestamp));
+    },
+    close: () => landmarker.close(),
+  };
+}
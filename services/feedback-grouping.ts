@@ -0,0 +1,109 @@
+import { FeedbackMessage } from '../types';
+
+// Word overlap above which two tips in the same category count as the same advice
+const DUPLICATE_SIMILARITY = 0.5;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'to', 'of', 'in', 'on', 'for', 'with', 'your', 'you', 'be', 'is', 'are',
+  'more', 'less', 'try', 'too', 'very', 'when', 'while', 'it', 'this', 'that', 'at', 'as', 'so', 'keep',
+]);
+
+/** Case- and punctuation-insensitive key, so "eye-contact" and "Eye Contact" match. */
+export const categoryKey = (category: string) => category.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+
+/** Title-cased label for a free-form category. */
+export const displayCategory = (category: string) =>
+  categoryKey(category).replace(/\b\p{L}/gu, c => c.toUpperCase()) || 'General';
+
+export const contentWords = (message: string) =>
+  new Set((message.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? []).filter(w => w.length > 2 && !STOP_WORDS.has(w)));
+
+/** Jaccard similarity of two word sets. */
+export const similarity = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(w => { if (b.has(w)) shared++; });
+  return shared / (a.size + b.size - shared);
+};
+
+export interface CollapsedFeedback {
+  /** The newest tip in the cluster, shown in the list. */
+  feedback: FeedbackMessage;
+  /** Older tips repeating the same advice. */
+  repeats: FeedbackMessage[];
+  pinned: boolean;
+}
+
+export interface FeedbackGroup {
+  category: string;
+  items: CollapsedFeedback[];
+  /** All tips in the category, repeats included. */
+  count: number;
+}
+
+/** Folds repeated or near-identical tips into the newest one. Input should be newest first. */
+export function collapseFeedback(feedbacks: FeedbackMessage[]): CollapsedFeedback[] {
+  const clusters: { words: Set<string>; key: string; item: CollapsedFeedback }[] = [];
+  for (const fb of feedbacks) {
+    const words = contentWords(fb.message);
+    const key = categoryKey(fb.category);
+    const match = clusters.find(c => c.key === key && c.item.feedback.sentiment === fb.sentiment
+      && (c.item.feedback.message === fb.message || similarity(c.words, words) >= DUPLICATE_SIMILARITY));
+    if (match) {
+      match.item.repeats.push(fb);
+      match.item.pinned ||= fb.pinned === true;
+    } else {
+      clusters.push({ words, key, item: { feedback: fb, repeats: [], pinned: fb.pinned === true } });
+    }
+  }
+  return clusters.map(c => c.item);
+}
+
+export function groupByCategory(items: CollapsedFeedback[]): FeedbackGroup[] {
+  const groups = new Map<string, FeedbackGroup>();
+  for (const item of items) {
+    const key = categoryKey(item.feedback.category);
+    const group = groups.get(key) ?? { category: displayCategory(item.feedback.category), items: [], count: 0 };
+    group.items.push(item);
+    group.count += 1 + item.repeats.length;
+    groups.set(key, group);
+  }
+  return [...groups.values()].sort((a, b) => b.count - a.count);
+}
+
+export interface CategoryRatingSummary {
+  category: string;
+  helpful: number;
+  unhelpful: number;
+}
+
+export interface RatingSummary {
+  helpful: number;
+  unhelpful: number;
+  categories: CategoryRatingSummary[];
+}
+
+/** Tallies the candidate's thumbs up/down, overall and per category. */
+export function summarizeRatings(feedbacks: FeedbackMessage[]): RatingSummary {
+  const categories = new Map<string, CategoryRatingSummary>();
+  let helpful = 0;
+  let unhelpful = 0;
+  for (const fb of feedbacks) {
+    if (!fb.rating) continue;
+    const key = categoryKey(fb.category);
+    const entry = categories.get(key) ?? { category: displayCategory(fb.category), helpful: 0, unhelpful: 0 };
+    if (fb.rating === 'up') {
+      helpful++;
+      entry.helpful++;
+    } else {
+      unhelpful++;
+      entry.unhelpful++;
+    }
+    categories.set(key, entry);
+  }
+  return {
+    helpful,
+    unhelpful,
+    categories: [...categories.values()].sort((a, b) => (b.helpful + b.unhelpful) - (a.helpful + a.unhelpful)),
+  };
+}
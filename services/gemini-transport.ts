@@ -0,0 +1,79 @@
+import { GoogleGenAI, LiveServerMessage, Modality, Session } from '@google/genai';
+import { LiveInterviewTransport, LiveTransportEvent } from './live-transport';
+
+export const MODEL_NAME = 'gemini-2.5-flash-native-audio-preview-09-2025';
+
+/** Splits one Live API server message into transport events, in handling order. */
+export function mapServerMessage(msg: LiveServerMessage): LiveTransportEvent[] {
+  const events: LiveTransportEvent[] = [];
+  const content = msg.serverContent;
+
+  const audioData = content?.modelTurn?.parts?.[0]?.inlineData?.data;
+  if (audioData) events.push({ type: 'audio', data: audioData });
+  if (content?.interrupted) events.push({ type: 'interrupted' });
+  if (content?.inputTranscription?.text) events.push({ type: 'inputTranscription', text: content.inputTranscription.text });
+  if (content?.outputTranscription?.text) events.push({ type: 'outputTranscription', text: content.outputTranscription.text });
+  if (content?.turnComplete) events.push({ type: 'turnComplete' });
+
+  if (msg.toolCall?.functionCalls?.length) {
+    events.push({
+      type: 'toolCall',
+      calls: msg.toolCall.functionCalls.map(fc => ({ id: fc.id ?? '', name: fc.name ?? '', args: fc.args ?? {} })),
+    });
+  }
+  return events;
+}
+
+/**
+ * Connects with a single-use ephemeral token from `getToken`, fetched afresh
+ * for every connection so the API key itself never reaches the browser.
+ */
+export function createGeminiTransport(getToken: () => Promise<string>): LiveInterviewTransport {
+  let session: Session | null = null;
+
+  return {
+    connect: async (options, onEvent) => {
+      // Ephemeral tokens are only accepted on v1alpha
+      const ai = new GoogleGenAI({ apiKey: await getToken(), httpOptions: { apiVersion: 'v1alpha' } });
+      session = await ai.live.connect({
+        model: MODEL_NAME,
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+            voiceConfig: { prebuiltVoiceConfig: { voiceName: options.voiceName } },
+            languageCode: options.languageCode,
+          },
+          systemInstruction: options.systemInstruction,
+          tools: [{ functionDeclarations: options.tools }],
+          inputAudioTranscription: { languageCodes: [options.languageCode] },
+          outputAudioTranscription: { languageCodes: [options.languageCode] },
+        },
+        callbacks: {
+          onopen: () => onEvent({ type: 'open' }),
+          onmessage: (msg: LiveServerMessage) => mapServerMessage(msg).forEach(onEvent),
+          onerror: (e) => onEvent({ type: 'error', error: e }),
+          onclose: () => onEvent({ type: 'close' }),
+        },
+      });
+    },
+    sendAudio: (chunk) => {
+      session?.sendRealtimeInput({ media: chunk });
+    },
+    endAudioStream: () => {
+      session?.sendRealtimeInput({ audioStreamEnd: true });
+    },
+    sendFrame: (base64Jpeg) => {
+      session?.sendRealtimeInput({ media: { data: base64Jpeg, mimeType: 'image/jpeg' } });
+    },
+    sendText: (text) => {
+      session?.sendClientContent({ turns: text, turnComplete: true });
+    },
+    sendToolResponse: ({ id, name, result, error }) => {
+      session?.sendToolResponse({ functionResponses: { id, name, response: error !== undefined ? { error } : { result } } });
+    },
+    close: () => {
+      session?.close();
+      session = null;
+    },
+  };
+}
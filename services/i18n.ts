@@ -0,0 +1,601 @@
+import { FeedbackCategory, FeedbackSeverity } from '../types';
+
+const en = {
+  appTitle: 'Gemini Interview Coach',
+  appTagline: 'Real-Time Performance Analysis',
+  questionProgress: 'Question {current} of {total}',
+  plannedQuestions: '{total} planned questions',
+  planProgressLabel: 'Interview plan progress',
+  questionNumber: 'Question {number}',
+  timeLeft: '{time} left',
+  timeRemainingLabel: 'Interview time remaining',
+  pause: 'Pause',
+  resume: 'Resume',
+  history: 'History',
+  progress: 'Progress',
+  viewScorecard: 'View Scorecard',
+  startInterview: 'Start Interview',
+  preparingReport: 'Preparing Report...',
+  endSession: 'End Session',
+  sessionRecording: 'Session Recording',
+  candidateView: 'Candidate View',
+  speaking: 'Speaking',
+  coachTitle: 'AI Coach ({name})',
+  transcriptOf: 'Transcript · {title}',
+  liveTranscript: 'Live Transcript',
+  backToCurrent: 'Back to Current',
+  performanceFeed: 'Performance Feed',
+  sessionError: 'Session Error',
+  dismiss: 'Dismiss',
+  splashTitle: 'Ready to Interview?',
+  splashBody: 'Connect your mic and camera to start your personalized coaching session.',
+  composerPlaceholder: 'Type your answer. Enter sends, Shift+Enter adds a line.',
+  composerLabel: 'Your answer',
+  send: 'Send',
+  readRepliesAloud: 'Read replies aloud',
+  cameraOff: 'Camera off',
+  liveFeed: 'Live Feed',
+  micLevel: 'Your microphone level',
+  muteMic: 'Mute mic',
+  unmuteMic: 'Unmute mic',
+  highContrast: 'High contrast',
+  liveCaptions: 'Live captions',
+  captionYou: 'You',
+  tipAnnouncement: 'Tip ({sentiment}), {category}: {message}',
+  starBreakdown: 'STAR breakdown',
+  starCoverage: '{count} of 4 parts',
+  analyzeAnswer: 'Analyze answer',
+  analyzingAnswer: 'Analyzing answer…',
+  analysisFailed: 'Analysis failed: {message}',
+  starSituation: 'Situation',
+  starTask: 'Task',
+  starAction: 'Action',
+  starResult: 'Result',
+  starPresent: 'Covered',
+  starMissing: 'Missing',
+  impactQuantified: 'Impact quantified',
+  impactNotQuantified: 'Impact not quantified',
+  suggestedRewrite: 'Suggested rewrite',
+  tipPaceFast: 'Slow down slightly; you are speaking quickly.',
+  tipPaceSlow: 'Pick up the pace a little.',
+  tipFillers: 'Watch the filler words; pause silently instead.',
+  tipQuiet: 'Speak up a little; you sound quiet.',
+  tipSteady: 'Steady pace with few fillers. Keep it up.',
+  tipNoFace: "Your face isn't visible. Sit in front of the camera so the interviewer can see you.",
+  tipLookAway: 'You are often looking away. Glance back at the camera lens while you answer.',
+  tipEyeContact: 'Strong, steady eye contact with the camera.',
+  tipHeadMotion: 'Lots of head movement. Try to keep your head steady and still.',
+  tipOffCenter: 'You are near the edge of the frame. Move toward the center.',
+  tipTooClose: 'You are very close to the camera. Sit back so your shoulders are in frame.',
+  tipTooFar: 'You are far from the camera. Move a little closer.',
+  transcriptEmpty: 'Transcription will appear as you speak...',
+  questionLabel: 'Q{number}',
+  turnInProgress: 'In progress',
+  tipCount: '{count} tips',
+  retry: 'Retry',
+  connectionOffline: 'Offline',
+  connectionConnecting: 'Connecting',
+  connectionLive: 'Live',
+  connectionReconnecting: 'Reconnecting',
+  connectionPaused: 'Paused',
+  answerTime: 'Answer time',
+  answerWrapUp: 'Start wrapping up',
+  answerOverTime: 'Over time',
+  lastAnswer: 'Last answer {time}',
+  nudgeAt: 'Nudge at {time}',
+  gaugeSpeech: 'Speech',
+  gaugePace: 'Pace',
+  gaugeFillers: 'Fillers',
+  gaugeAvgPause: 'Avg Pause',
+  gaugeTalkTime: 'Talk Time',
+  gaugeLoudness: 'Loudness',
+  unitWpm: 'wpm',
+  fillerRate: '({rate}/min)',
+  gaugePresence: 'Presence',
+  gaugeHeadMotion: 'Head Motion',
+  gaugeCentering: 'Centering',
+  gaugeDistance: 'Distance',
+  gaugeGood: 'Good',
+  gaugeOff: 'Off',
+  distanceTooClose: 'Too close',
+  distanceTooFar: 'Too far',
+  avatarSpeaking: 'Speaking...',
+  avatarListening: 'Listening...',
+  voiceLevel: '{name} voice level',
+  feedEmpty: 'Coach tips will appear here in real-time...',
+  feedNoMatch: 'No tips match these filters.',
+  filterByCategory: 'Filter by category',
+  allCategories: 'All categories',
+  group: 'Group',
+  filterBySentiment: 'Filter by sentiment',
+  sentimentAll: 'All',
+  sentimentPositive: 'Positive',
+  sentimentNeutral: 'Neutral',
+  sentimentImprove: 'Improve',
+  jumpToMoment: 'Jump to this moment in the recording',
+  localBadge: 'Local',
+  localBadgeTitle: 'Measured locally from your audio and transcript',
+  severityTitle: 'How much this matters',
+  severityLow: 'Minor',
+  severityMedium: 'Moderate',
+  severityHigh: 'Major',
+  repeatsTitle: 'Given {count} times',
+  whatYouSaid: 'What you said',
+  pin: 'Pin',
+  pinned: 'Pinned',
+  helpful: 'Helpful',
+  notHelpful: 'Not helpful',
+  categoryPace: 'Pace',
+  categoryFillerWords: 'Filler Words',
+  categoryVolume: 'Volume',
+  categoryTone: 'Tone',
+  categoryClarity: 'Clarity',
+  categoryStructure: 'Structure',
+  categoryContent: 'Content',
+  categoryPosture: 'Posture',
+  categoryEyeContact: 'Eye Contact',
+  categoryBodyLanguage: 'Body Language',
+  categoryGeneral: 'General',
+};
+
+export type MessageKey = keyof typeof en;
+type Catalog = Record<MessageKey, string>;
+
+const es: Catalog = {
+  appTitle: 'Gemini Interview Coach',
+  appTagline: 'Análisis en tiempo real',
+  questionProgress: 'Pregunta {current} de {total}',
+  plannedQuestions: '{total} preguntas previstas',
+  planProgressLabel: 'Progreso del plan de entrevista',
+  questionNumber: 'Pregunta {number}',
+  timeLeft: 'Quedan {time}',
+  timeRemainingLabel: 'Tiempo restante de la entrevista',
+  pause: 'Pausar',
+  resume: 'Reanudar',
+  history: 'Historial',
+  progress: 'Progreso',
+  viewScorecard: 'Ver evaluación',
+  startInterview: 'Iniciar entrevista',
+  preparingReport: 'Preparando informe...',
+  endSession: 'Finalizar sesión',
+  sessionRecording: 'Grabación de la sesión',
+  candidateView: 'Vista del candidato',
+  speaking: 'Hablando',
+  coachTitle: 'Coach IA ({name})',
+  transcriptOf: 'Transcripción · {title}',
+  liveTranscript: 'Transcripción en vivo',
+  backToCurrent: 'Volver a la actual',
+  performanceFeed: 'Comentarios en vivo',
+  sessionError: 'Error de la sesión',
+  dismiss: 'Cerrar',
+  splashTitle: '¿Listo para la entrevista?',
+  splashBody: 'Conecta tu micrófono y tu cámara para empezar tu sesión de práctica personalizada.',
+  composerPlaceholder: 'Escribe tu respuesta. Intro envía, Mayús+Intro añade una línea.',
+  composerLabel: 'Tu respuesta',
+  send: 'Enviar',
+  readRepliesAloud: 'Leer las respuestas en voz alta',
+  cameraOff: 'Cámara apagada',
+  liveFeed: 'En directo',
+  micLevel: 'Nivel de tu micrófono',
+  muteMic: 'Silenciar micro',
+  unmuteMic: 'Activar micro',
+  highContrast: 'Alto contraste',
+  liveCaptions: 'Subtítulos en vivo',
+  captionYou: 'Tú',
+  tipAnnouncement: 'Consejo ({sentiment}), {category}: {message}',
+  starBreakdown: 'Desglose STAR',
+  starCoverage: '{count} de 4 partes',
+  analyzeAnswer: 'Analizar respuesta',
+  analyzingAnswer: 'Analizando respuesta…',
+  analysisFailed: 'El análisis falló: {message}',
+  starSituation: 'Situación',
+  starTask: 'Tarea',
+  starAction: 'Acción',
+  starResult: 'Resultado',
+  starPresent: 'Cubierto',
+  starMissing: 'Falta',
+  impactQuantified: 'Impacto cuantificado',
+  impactNotQuantified: 'Impacto sin cuantificar',
+  suggestedRewrite: 'Versión sugerida',
+  tipPaceFast: 'Habla un poco más despacio; vas rápido.',
+  tipPaceSlow: 'Acelera un poco el ritmo.',
+  tipFillers: 'Cuidado con las muletillas; mejor haz una pausa en silencio.',
+  tipQuiet: 'Habla un poco más alto; se te oye bajo.',
+  tipSteady: 'Ritmo constante y pocas muletillas. Sigue así.',
+  tipNoFace: 'No se te ve la cara. Siéntate frente a la cámara para que el entrevistador pueda verte.',
+  tipLookAway: 'Miras a menudo hacia otro lado. Vuelve a mirar a la lente de la cámara mientras respondes.',
+  tipEyeContact: 'Contacto visual firme y constante con la cámara.',
+  tipHeadMotion: 'Mueves mucho la cabeza. Intenta mantenerla firme y quieta.',
+  tipOffCenter: 'Estás cerca del borde de la imagen. Muévete hacia el centro.',
+  tipTooClose: 'Estás muy cerca de la cámara. Échate hacia atrás para que se vean tus hombros.',
+  tipTooFar: 'Estás lejos de la cámara. Acércate un poco.',
+  transcriptEmpty: 'La transcripción aparecerá mientras hablas...',
+  questionLabel: 'P{number}',
+  turnInProgress: 'En curso',
+  tipCount: '{count} consejos',
+  retry: 'Reintentar',
+  connectionOffline: 'Sin conexión',
+  connectionConnecting: 'Conectando',
+  connectionLive: 'En directo',
+  connectionReconnecting: 'Reconectando',
+  connectionPaused: 'En pausa',
+  answerTime: 'Tiempo de respuesta',
+  answerWrapUp: 'Empieza a concluir',
+  answerOverTime: 'Tiempo excedido',
+  lastAnswer: 'Última respuesta {time}',
+  nudgeAt: 'Aviso a los {time}',
+  gaugeSpeech: 'Habla',
+  gaugePace: 'Ritmo',
+  gaugeFillers: 'Muletillas',
+  gaugeAvgPause: 'Pausa media',
+  gaugeTalkTime: 'Tiempo de habla',
+  gaugeLoudness: 'Volumen',
+  unitWpm: 'ppm',
+  fillerRate: '({rate}/min)',
+  gaugePresence: 'Presencia',
+  gaugeHeadMotion: 'Movimiento de cabeza',
+  gaugeCentering: 'Centrado',
+  gaugeDistance: 'Distancia',
+  gaugeGood: 'Bien',
+  gaugeOff: 'Descentrado',
+  distanceTooClose: 'Muy cerca',
+  distanceTooFar: 'Muy lejos',
+  avatarSpeaking: 'Hablando...',
+  avatarListening: 'Escuchando...',
+  voiceLevel: 'Nivel de voz de {name}',
+  feedEmpty: 'Los consejos del coach aparecerán aquí en tiempo real...',
+  feedNoMatch: 'Ningún consejo coincide con estos filtros.',
+  filterByCategory: 'Filtrar por categoría',
+  allCategories: 'Todas las categorías',
+  group: 'Agrupar',
+  filterBySentiment: 'Filtrar por tipo',
+  sentimentAll: 'Todos',
+  sentimentPositive: 'Positivo',
+  sentimentNeutral: 'Neutral',
+  sentimentImprove: 'Mejorar',
+  jumpToMoment: 'Ir a este momento de la grabación',
+  localBadge: 'Local',
+  localBadgeTitle: 'Medido localmente a partir de tu audio y la transcripción',
+  severityTitle: 'Cuánto importa',
+  severityLow: 'Leve',
+  severityMedium: 'Moderado',
+  severityHigh: 'Importante',
+  repeatsTitle: 'Dado {count} veces',
+  whatYouSaid: 'Lo que dijiste',
+  pin: 'Fijar',
+  pinned: 'Fijado',
+  helpful: 'Útil',
+  notHelpful: 'No útil',
+  categoryPace: 'Ritmo',
+  categoryFillerWords: 'Muletillas',
+  categoryVolume: 'Volumen',
+  categoryTone: 'Tono',
+  categoryClarity: 'Claridad',
+  categoryStructure: 'Estructura',
+  categoryContent: 'Contenido',
+  categoryPosture: 'Postura',
+  categoryEyeContact: 'Contacto visual',
+  categoryBodyLanguage: 'Lenguaje corporal',
+  categoryGeneral: 'General',
+};
+
+const de: Catalog = {
+  appTitle: 'Gemini Interview Coach',
+  appTagline: 'Echtzeit-Analyse',
+  questionProgress: 'Frage {current} von {total}',
+  plannedQuestions: '{total} geplante Fragen',
+  planProgressLabel: 'Fortschritt des Interviewplans',
+  questionNumber: 'Frage {number}',
+  timeLeft: 'Noch {time}',
+  timeRemainingLabel: 'Verbleibende Interviewzeit',
+  pause: 'Pause',
+  resume: 'Fortsetzen',
+  history: 'Verlauf',
+  progress: 'Fortschritt',
+  viewScorecard: 'Auswertung ansehen',
+  startInterview: 'Interview starten',
+  preparingReport: 'Bericht wird erstellt...',
+  endSession: 'Sitzung beenden',
+  sessionRecording: 'Sitzungsaufnahme',
+  candidateView: 'Kandidatenansicht',
+  speaking: 'Spricht',
+  coachTitle: 'KI-Coach ({name})',
+  transcriptOf: 'Transkript · {title}',
+  liveTranscript: 'Live-Transkript',
+  backToCurrent: 'Zurück zur aktuellen',
+  performanceFeed: 'Live-Feedback',
+  sessionError: 'Sitzungsfehler',
+  dismiss: 'Schließen',
+  splashTitle: 'Bereit für das Interview?',
+  splashBody: 'Verbinde Mikrofon und Kamera, um dein persönliches Coaching zu starten.',
+  composerPlaceholder: 'Antwort eingeben. Enter sendet, Umschalt+Enter fügt eine Zeile hinzu.',
+  composerLabel: 'Deine Antwort',
+  send: 'Senden',
+  readRepliesAloud: 'Antworten vorlesen',
+  cameraOff: 'Kamera aus',
+  liveFeed: 'Live-Bild',
+  micLevel: 'Dein Mikrofonpegel',
+  muteMic: 'Mikro stumm',
+  unmuteMic: 'Mikro an',
+  highContrast: 'Hoher Kontrast',
+  liveCaptions: 'Live-Untertitel',
+  captionYou: 'Du',
+  tipAnnouncement: 'Tipp ({sentiment}), {category}: {message}',
+  starBreakdown: 'STAR-Analyse',
+  starCoverage: '{count} von 4 Teilen',
+  analyzeAnswer: 'Antwort analysieren',
+  analyzingAnswer: 'Antwort wird analysiert…',
+  analysisFailed: 'Analyse fehlgeschlagen: {message}',
+  starSituation: 'Situation',
+  starTask: 'Aufgabe',
+  starAction: 'Handlung',
+  starResult: 'Ergebnis',
+  starPresent: 'Vorhanden',
+  starMissing: 'Fehlt',
+  impactQuantified: 'Wirkung beziffert',
+  impactNotQuantified: 'Wirkung nicht beziffert',
+  suggestedRewrite: 'Vorgeschlagene Fassung',
+  tipPaceFast: 'Etwas langsamer; du sprichst schnell.',
+  tipPaceSlow: 'Sprich etwas zügiger.',
+  tipFillers: 'Achte auf Füllwörter; mach lieber eine stille Pause.',
+  tipQuiet: 'Sprich etwas lauter; du bist leise.',
+  tipSteady: 'Gleichmäßiges Tempo mit wenigen Füllwörtern. Weiter so.',
+  tipNoFace: 'Dein Gesicht ist nicht zu sehen. Setz dich vor die Kamera, damit der Interviewer dich sehen kann.',
+  tipLookAway: 'Du schaust oft weg. Blick beim Antworten wieder in die Kameralinse.',
+  tipEyeContact: 'Starker, ruhiger Blickkontakt mit der Kamera.',
+  tipHeadMotion: 'Viel Kopfbewegung. Versuch, den Kopf ruhig zu halten.',
+  tipOffCenter: 'Du bist nah am Bildrand. Rück zur Mitte.',
+  tipTooClose: 'Du bist sehr nah an der Kamera. Lehn dich zurück, damit deine Schultern im Bild sind.',
+  tipTooFar: 'Du bist weit von der Kamera entfernt. Komm etwas näher.',
+  transcriptEmpty: 'Die Transkription erscheint, während du sprichst...',
+  questionLabel: 'F{number}',
+  turnInProgress: 'Läuft',
+  tipCount: '{count} Tipps',
+  retry: 'Wiederholen',
+  connectionOffline: 'Offline',
+  connectionConnecting: 'Verbinde',
+  connectionLive: 'Live',
+  connectionReconnecting: 'Verbinde neu',
+  connectionPaused: 'Pausiert',
+  answerTime: 'Antwortzeit',
+  answerWrapUp: 'Zum Ende kommen',
+  answerOverTime: 'Zeit überschritten',
+  lastAnswer: 'Letzte Antwort {time}',
+  nudgeAt: 'Hinweis bei {time}',
+  gaugeSpeech: 'Sprechen',
+  gaugePace: 'Tempo',
+  gaugeFillers: 'Füllwörter',
+  gaugeAvgPause: 'Ø Pause',
+  gaugeTalkTime: 'Redeanteil',
+  gaugeLoudness: 'Lautstärke',
+  unitWpm: 'W/min',
+  fillerRate: '({rate}/min)',
+  gaugePresence: 'Präsenz',
+  gaugeHeadMotion: 'Kopfbewegung',
+  gaugeCentering: 'Zentrierung',
+  gaugeDistance: 'Abstand',
+  gaugeGood: 'Gut',
+  gaugeOff: 'Daneben',
+  distanceTooClose: 'Zu nah',
+  distanceTooFar: 'Zu weit',
+  avatarSpeaking: 'Spricht...',
+  avatarListening: 'Hört zu...',
+  voiceLevel: 'Stimmpegel von {name}',
+  feedEmpty: 'Coaching-Tipps erscheinen hier in Echtzeit...',
+  feedNoMatch: 'Keine Tipps passen zu diesen Filtern.',
+  filterByCategory: 'Nach Kategorie filtern',
+  allCategories: 'Alle Kategorien',
+  group: 'Gruppieren',
+  filterBySentiment: 'Nach Art filtern',
+  sentimentAll: 'Alle',
+  sentimentPositive: 'Positiv',
+  sentimentNeutral: 'Neutral',
+  sentimentImprove: 'Verbessern',
+  jumpToMoment: 'Zu dieser Stelle der Aufnahme springen',
+  localBadge: 'Lokal',
+  localBadgeTitle: 'Lokal aus deinem Audio und dem Transkript gemessen',
+  severityTitle: 'Wie wichtig das ist',
+  severityLow: 'Gering',
+  severityMedium: 'Mittel',
+  severityHigh: 'Hoch',
+  repeatsTitle: '{count}-mal gegeben',
+  whatYouSaid: 'Was du gesagt hast',
+  pin: 'Anheften',
+  pinned: 'Angeheftet',
+  helpful: 'Hilfreich',
+  notHelpful: 'Nicht hilfreich',
+  categoryPace: 'Tempo',
+  categoryFillerWords: 'Füllwörter',
+  categoryVolume: 'Lautstärke',
+  categoryTone: 'Tonfall',
+  categoryClarity: 'Klarheit',
+  categoryStructure: 'Struktur',
+  categoryContent: 'Inhalt',
+  categoryPosture: 'Haltung',
+  categoryEyeContact: 'Blickkontakt',
+  categoryBodyLanguage: 'Körpersprache',
+  categoryGeneral: 'Allgemein',
+};
+
+const hi: Catalog = {
+  appTitle: 'Gemini Interview Coach',
+  appTagline: 'रियल-टाइम प्रदर्शन विश्लेषण',
+  questionProgress: 'प्रश्न {current} / {total}',
+  plannedQuestions: '{total} नियोजित प्रश्न',
+  planProgressLabel: 'इंटरव्यू योजना की प्रगति',
+  questionNumber: 'प्रश्न {number}',
+  timeLeft: '{time} शेष',
+  timeRemainingLabel: 'इंटरव्यू का शेष समय',
+  pause: 'रोकें',
+  resume: 'जारी रखें',
+  history: 'इतिहास',
+  progress: 'प्रगति',
+  viewScorecard: 'स्कोरकार्ड देखें',
+  startInterview: 'इंटरव्यू शुरू करें',
+  preparingReport: 'रिपोर्ट तैयार हो रही है...',
+  endSession: 'सत्र समाप्त करें',
+  sessionRecording: 'सत्र की रिकॉर्डिंग',
+  candidateView: 'उम्मीदवार का दृश्य',
+  speaking: 'बोल रहे हैं',
+  coachTitle: 'AI कोच ({name})',
+  transcriptOf: 'ट्रांसक्रिप्ट · {title}',
+  liveTranscript: 'लाइव ट्रांसक्रिप्ट',
+  backToCurrent: 'वर्तमान पर लौटें',
+  performanceFeed: 'प्रदर्शन फ़ीड',
+  sessionError: 'सत्र त्रुटि',
+  dismiss: 'बंद करें',
+  splashTitle: 'इंटरव्यू के लिए तैयार हैं?',
+  splashBody: 'अपना व्यक्तिगत कोचिंग सत्र शुरू करने के लिए माइक और कैमरा कनेक्ट करें।',
+  composerPlaceholder: 'अपना उत्तर लिखें। Enter से भेजें, Shift+Enter से नई पंक्ति।',
+  composerLabel: 'आपका उत्तर',
+  send: 'भेजें',
+  readRepliesAloud: 'उत्तर ज़ोर से पढ़ें',
+  cameraOff: 'कैमरा बंद',
+  liveFeed: 'लाइव फ़ीड',
+  micLevel: 'आपके माइक्रोफ़ोन का स्तर',
+  muteMic: 'माइक म्यूट करें',
+  unmuteMic: 'माइक अनम्यूट करें',
+  highContrast: 'उच्च कंट्रास्ट',
+  liveCaptions: 'लाइव कैप्शन',
+  captionYou: 'आप',
+  tipAnnouncement: 'सुझाव ({sentiment}), {category}: {message}',
+  starBreakdown: 'STAR विश्लेषण',
+  starCoverage: '4 में से {count} भाग',
+  analyzeAnswer: 'उत्तर का विश्लेषण करें',
+  analyzingAnswer: 'उत्तर का विश्लेषण हो रहा है…',
+  analysisFailed: 'विश्लेषण विफल: {message}',
+  starSituation: 'स्थिति',
+  starTask: 'कार्य',
+  starAction: 'कदम',
+  starResult: 'परिणाम',
+  starPresent: 'शामिल',
+  starMissing: 'गायब',
+  impactQuantified: 'प्रभाव मापा गया',
+  impactNotQuantified: 'प्रभाव मापा नहीं गया',
+  suggestedRewrite: 'सुझाया गया उत्तर',
+  tipPaceFast: 'थोड़ा धीरे बोलें; आप तेज़ बोल रहे हैं।',
+  tipPaceSlow: 'थोड़ी रफ़्तार बढ़ाएँ।',
+  tipFillers: 'भराव शब्दों से बचें; उनकी जगह चुप रहकर रुकें।',
+  tipQuiet: 'थोड़ा ज़ोर से बोलें; आवाज़ धीमी है।',
+  tipSteady: 'स्थिर रफ़्तार और कम भराव शब्द। ऐसे ही जारी रखें।',
+  tipNoFace: 'आपका चेहरा दिखाई नहीं दे रहा। कैमरे के सामने बैठें ताकि इंटरव्यूअर आपको देख सके।',
+  tipLookAway: 'आप अक्सर इधर-उधर देख रहे हैं। जवाब देते समय कैमरे के लेंस की ओर देखें।',
+  tipEyeContact: 'कैमरे से मज़बूत, स्थिर आँखों का संपर्क।',
+  tipHeadMotion: 'सिर बहुत हिल रहा है। सिर को स्थिर रखने की कोशिश करें।',
+  tipOffCenter: 'आप फ़्रेम के किनारे के पास हैं। बीच की ओर आएँ।',
+  tipTooClose: 'आप कैमरे के बहुत पास हैं। पीछे होकर बैठें ताकि आपके कंधे फ़्रेम में दिखें।',
+  tipTooFar: 'आप कैमरे से दूर हैं। थोड़ा पास आएँ।',
+  transcriptEmpty: 'आपके बोलते ही ट्रांसक्रिप्ट यहाँ दिखेगा...',
+  questionLabel: 'प्र{number}',
+  turnInProgress: 'जारी है',
+  tipCount: '{count} सुझाव',
+  retry: 'फिर से करें',
+  connectionOffline: 'ऑफ़लाइन',
+  connectionConnecting: 'कनेक्ट हो रहा है',
+  connectionLive: 'लाइव',
+  connectionReconnecting: 'फिर से कनेक्ट हो रहा है',
+  connectionPaused: 'रुका हुआ',
+  answerTime: 'जवाब का समय',
+  answerWrapUp: 'अब समेटना शुरू करें',
+  answerOverTime: 'समय से ज़्यादा',
+  lastAnswer: 'पिछला जवाब {time}',
+  nudgeAt: '{time} पर संकेत',
+  gaugeSpeech: 'बोलना',
+  gaugePace: 'रफ़्तार',
+  gaugeFillers: 'भराव शब्द',
+  gaugeAvgPause: 'औसत विराम',
+  gaugeTalkTime: 'बोलने का समय',
+  gaugeLoudness: 'आवाज़ का स्तर',
+  unitWpm: 'शब्द/मिनट',
+  fillerRate: '({rate}/मिनट)',
+  gaugePresence: 'उपस्थिति',
+  gaugeHeadMotion: 'सिर की हलचल',
+  gaugeCentering: 'केंद्र में',
+  gaugeDistance: 'दूरी',
+  gaugeGood: 'अच्छा',
+  gaugeOff: 'हटकर',
+  distanceTooClose: 'बहुत पास',
+  distanceTooFar: 'बहुत दूर',
+  avatarSpeaking: 'बोल रहे हैं...',
+  avatarListening: 'सुन रहे हैं...',
+  voiceLevel: '{name} का आवाज़ स्तर',
+  feedEmpty: 'कोच के सुझाव यहाँ रियल-टाइम में दिखेंगे...',
+  feedNoMatch: 'इन फ़िल्टर से कोई सुझाव मेल नहीं खाता।',
+  filterByCategory: 'श्रेणी के अनुसार फ़िल्टर करें',
+  allCategories: 'सभी श्रेणियाँ',
+  group: 'समूह',
+  filterBySentiment: 'प्रकार के अनुसार फ़िल्टर करें',
+  sentimentAll: 'सभी',
+  sentimentPositive: 'सकारात्मक',
+  sentimentNeutral: 'तटस्थ',
+  sentimentImprove: 'सुधारें',
+  jumpToMoment: 'रिकॉर्डिंग में इस पल पर जाएँ',
+  localBadge: 'स्थानीय',
+  localBadgeTitle: 'आपके ऑडियो और ट्रांसक्रिप्ट से स्थानीय रूप से मापा गया',
+  severityTitle: 'यह कितना महत्वपूर्ण है',
+  severityLow: 'मामूली',
+  severityMedium: 'मध्यम',
+  severityHigh: 'गंभीर',
+  repeatsTitle: '{count} बार दिया गया',
+  whatYouSaid: 'आपने क्या कहा',
+  pin: 'पिन करें',
+  pinned: 'पिन किया गया',
+  helpful: 'उपयोगी',
+  notHelpful: 'उपयोगी नहीं',
+  categoryPace: 'गति',
+  categoryFillerWords: 'भराव शब्द',
+  categoryVolume: 'आवाज़ की तीव्रता',
+  categoryTone: 'लहजा',
+  categoryClarity: 'स्पष्टता',
+  categoryStructure: 'संरचना',
+  categoryContent: 'विषय-वस्तु',
+  categoryPosture: 'मुद्रा',
+  categoryEyeContact: 'नज़र मिलाना',
+  categoryBodyLanguage: 'शारीरिक भाषा',
+  categoryGeneral: 'सामान्य',
+};
+
+// Keyed by the primary language subtag, so "es-MX" still gets Spanish
+const CATALOGS: Record<string, Catalog> = { en, es, de, hi };
+
+const CATEGORY_KEYS: Record<FeedbackCategory, MessageKey> = {
+  [FeedbackCategory.PACE]: 'categoryPace',
+  [FeedbackCategory.FILLER_WORDS]: 'categoryFillerWords',
+  [FeedbackCategory.VOLUME]: 'categoryVolume',
+  [FeedbackCategory.TONE]: 'categoryTone',
+  [FeedbackCategory.CLARITY]: 'categoryClarity',
+  [FeedbackCategory.STRUCTURE]: 'categoryStructure',
+  [FeedbackCategory.CONTENT]: 'categoryContent',
+  [FeedbackCategory.POSTURE]: 'categoryPosture',
+  [FeedbackCategory.EYE_CONTACT]: 'categoryEyeContact',
+  [FeedbackCategory.BODY_LANGUAGE]: 'categoryBodyLanguage',
+  [FeedbackCategory.GENERAL]: 'categoryGeneral',
+};
+
+export const SEVERITY_KEYS: Record<FeedbackSeverity, MessageKey> = {
+  [FeedbackSeverity.LOW]: 'severityLow',
+  [FeedbackSeverity.MEDIUM]: 'severityMedium',
+  [FeedbackSeverity.HIGH]: 'severityHigh',
+};
+
+export interface Translator {
+  locale: string;
+  /** Looks up a UI string and fills in its `{placeholders}`. */
+  t: (key: MessageKey, params?: Record<string, string | number>) => string;
+  category: (category: FeedbackCategory) => string;
+  /** Wall-clock time of day, e.g. for feedback cards. */
+  formatTime: (timestamp: number) => string;
+}
+
+export function createTranslator(locale: string): Translator {
+  const catalog = CATALOGS[locale.split('-')[0].toLowerCase()] ?? en;
+  const timeFormat = new Intl.DateTimeFormat(locale, { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+  const t: Translator['t'] = (key, params) =>
+    (catalog[key] ?? en[key]).replace(/\{(\w+)\}/g, (match, name) => (params && name in params ? String(params[name]) : match));
+  return {
+    locale,
+    t,
+    category: category => (CATEGORY_KEYS[category] ? t(CATEGORY_KEYS[category]) : category),
+    formatTime: timestamp => timeFormat.format(timestamp),
+  };
+}
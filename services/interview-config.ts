@@ -0,0 +1,134 @@
+import { AnswerLimits, InterviewConfig, InterviewerPersona, InterviewLanguage, InterviewType, Seniority } from '../types';
+
+const STORAGE_KEY = 'interview-coach:last-config';
+
+export const INTERVIEW_TYPE_LABELS: Record<InterviewType, string> = {
+  [InterviewType.BEHAVIORAL]: 'Behavioral',
+  [InterviewType.TECHNICAL]: 'Technical',
+  [InterviewType.SYSTEM_DESIGN]: 'System Design',
+  [InterviewType.CASE]: 'Case',
+};
+
+export const SENIORITY_LABELS: Record<Seniority, string> = {
+  [Seniority.JUNIOR]: 'Junior',
+  [Seniority.MID]: 'Mid-level',
+  [Seniority.SENIOR]: 'Senior',
+  [Seniority.LEAD]: 'Lead / Principal',
+};
+
+/** Default answer time boxes; open-ended formats get longer. */
+export const ANSWER_LIMIT_PRESETS: Record<InterviewType, AnswerLimits> = {
+  [InterviewType.BEHAVIORAL]: { softSec: 120, hardSec: 180 },
+  [InterviewType.TECHNICAL]: { softSec: 180, hardSec: 300 },
+  [InterviewType.SYSTEM_DESIGN]: { softSec: 300, hardSec: 600 },
+  [InterviewType.CASE]: { softSec: 240, hardSec: 420 },
+};
+
+export const INTERVIEW_LENGTH_OPTIONS = [15, 20, 30, 45, 60];
+
+export const INTERVIEW_LANGUAGES: InterviewLanguage[] = [
+  { code: 'en-US', label: 'English', englishName: 'English' },
+  { code: 'es-ES', label: 'Español', englishName: 'Spanish' },
+  { code: 'de-DE', label: 'Deutsch', englishName: 'German' },
+  { code: 'hi-IN', label: 'हिन्दी', englishName: 'Hindi' },
+];
+
+export const ROLE_SUGGESTIONS = [
+  'Backend Engineer',
+  'Frontend Engineer',
+  'Product Manager',
+  'Sales Representative',
+  'Data Scientist',
+];
+
+export const PERSONAS: InterviewerPersona[] = [
+  {
+    id: 'alex',
+    name: 'Alex',
+    voiceName: 'Kore',
+    description: 'Warm and encouraging',
+    style: 'friendly and encouraging, putting the candidate at ease while still probing for detail',
+  },
+  {
+    id: 'morgan',
+    name: 'Morgan',
+    voiceName: 'Charon',
+    description: 'Direct hiring manager',
+    style: 'direct and concise, pushing back on vague answers and asking for concrete evidence',
+  },
+  {
+    id: 'priya',
+    name: 'Priya',
+    voiceName: 'Aoede',
+    description: 'Senior technical lead',
+    style: 'curious and rigorous, digging into trade-offs, edge cases and the reasoning behind decisions',
+  },
+  {
+    id: 'sam',
+    name: 'Sam',
+    voiceName: 'Puck',
+    description: 'Fast-paced recruiter',
+    style: 'energetic and brisk, keeping the conversation moving and checking for motivation and fit',
+  },
+];
+
+export const DEFAULT_INTERVIEW_CONFIG: InterviewConfig = {
+  jobRole: 'Software Engineer',
+  seniority: Seniority.MID,
+  interviewType: InterviewType.BEHAVIORAL,
+  personaId: PERSONAS[0].id,
+  jobDescription: '',
+  resume: '',
+  recordSession: false,
+  questionSetId: null,
+  answerLimits: ANSWER_LIMIT_PRESETS[InterviewType.BEHAVIORAL],
+  interviewMinutes: null,
+  language: INTERVIEW_LANGUAGES[0].code,
+};
+
+const isValidLimits = (limits: Partial<AnswerLimits> | undefined): limits is AnswerLimits =>
+  !!limits && Number.isFinite(limits.softSec) && Number.isFinite(limits.hardSec) && limits.softSec! > 0 && limits.hardSec! >= limits.softSec!;
+
+export function getInterviewLanguage(code: string): InterviewLanguage {
+  return INTERVIEW_LANGUAGES.find(l => l.code === code) ?? INTERVIEW_LANGUAGES[0];
+}
+
+export function getPersona(personaId: string): InterviewerPersona {
+  return PERSONAS.find(p => p.id === personaId) ?? PERSONAS[0];
+}
+
+/** Fills in and validates a config from storage or an older saved session. */
+export function normalizeInterviewConfig(stored: Partial<InterviewConfig>): InterviewConfig {
+  const interviewType = Object.values(InterviewType).includes(stored.interviewType as InterviewType) ? stored.interviewType as InterviewType : DEFAULT_INTERVIEW_CONFIG.interviewType;
+  return {
+    jobRole: typeof stored.jobRole === 'string' && stored.jobRole.trim() ? stored.jobRole : DEFAULT_INTERVIEW_CONFIG.jobRole,
+    seniority: Object.values(Seniority).includes(stored.seniority as Seniority) ? stored.seniority as Seniority : DEFAULT_INTERVIEW_CONFIG.seniority,
+    interviewType,
+    personaId: getPersona(stored.personaId ?? '').id,
+    jobDescription: typeof stored.jobDescription === 'string' ? stored.jobDescription : '',
+    resume: typeof stored.resume === 'string' ? stored.resume : '',
+    recordSession: stored.recordSession === true,
+    questionSetId: typeof stored.questionSetId === 'string' ? stored.questionSetId : null,
+    answerLimits: isValidLimits(stored.answerLimits) ? stored.answerLimits : ANSWER_LIMIT_PRESETS[interviewType],
+    interviewMinutes: typeof stored.interviewMinutes === 'number' && stored.interviewMinutes > 0 ? stored.interviewMinutes : null,
+    language: getInterviewLanguage(stored.language ?? '').code,
+  };
+}
+
+export function loadInterviewConfig(): InterviewConfig {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_INTERVIEW_CONFIG;
+    return normalizeInterviewConfig(JSON.parse(raw) as Partial<InterviewConfig>);
+  } catch {
+    return DEFAULT_INTERVIEW_CONFIG;
+  }
+}
+
+export function saveInterviewConfig(config: InterviewConfig): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  } catch (err) {
+    console.warn('Could not persist interview config:', err);
+  }
+}
@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import { LiveServerMessage } from '@google/genai';
+import { FeedbackCategory, JobRequirement, Sentiment } from '../types';
+import { mapServerMessage } from './gemini-transport';
+import { initialSessionState, interviewSessionReducer, InterviewSessionAction, InterviewSessionState } from './interview-session';
+
+const live = (overrides: Partial<InterviewSessionState> = {}): InterviewSessionState => ({ ...initialSessionState, status: 'live', ...overrides });
+
+const run = (state: InterviewSessionState, actions: InterviewSessionAction[]) => actions.reduce(interviewSessionReducer, state);
+
+// Plays Live API messages through the same mapping the Gemini transport uses, one millisecond apart
+const feed = (state: InterviewSessionState, messages: LiveServerMessage[], start = 1000) =>
+  messages.reduce(
+    (next, msg, i) => run(next, mapServerMessage(msg).map(event => ({ type: 'transport' as const, event, now: start + i }))),
+    state,
+  );
+
+const input = (text: string) => ({ serverContent: { inputTranscription: { text } } }) as LiveServerMessage;
+const output = (text: string) => ({ serverContent: { outputTranscription: { text } } }) as LiveServerMessage;
+const turnComplete = { serverContent: { turnComplete: true } } as LiveServerMessage;
+const toolCall = (name: string, args: Record<string, unknown>, id = `call-${name}`) =>
+  ({ toolCall: { functionCalls: [{ id, name, args }] } }) as LiveServerMessage;
+
+describe('transcription buffering', () => {
+  it('merges partial transcriptions until the turn completes', () => {
+    const state = feed(live(), [input('I led '), input('the migration.'), output('Tell me '), output('more.')]);
+    expect(state.transcriptionBuffer).toEqual({ user: 'I led the migration.', model: 'Tell me more.' });
+    expect(state.transcriptions).toEqual([]);
+  });
+
+  it('commits the buffer on turnComplete, candidate first', () => {
+    const state = feed(live(), [output('Why this role?'), input('Growth.'), turnComplete]);
+    expect(state.transcriptions).toEqual([
+      { role: 'user', text: 'Growth.', timestamp: 1002, spokenMs: 1 },
+      { role: 'model', text: 'Why this role?', timestamp: 1002, spokenMs: 1 },
+    ]);
+    expect(state.transcriptionBuffer).toEqual({ user: '', model: '' });
+  });
+
+  it('times each side from its first words until the other side takes over', () => {
+    const state = feed(live(), [input('I led '), input('the migration.'), output('Tell me '), output('more.'), turnComplete], 1000);
+    expect(state.transcriptions.map(t => [t.role, t.spokenMs])).toEqual([['user', 2], ['model', 2]]);
+    expect(state.bufferStartedAt).toEqual({ user: null, model: null });
+  });
+
+  it('ignores an empty turnComplete', () => {
+    const state = feed(live(), [turnComplete]);
+    expect(state.transcriptions).toEqual([]);
+  });
+
+  it('keeps the spoken text when the interviewer is interrupted', () => {
+    const audio = { serverContent: { modelTurn: { parts: [{ inlineData: { data: 'AAAA', mimeType: 'audio/pcm' } }] } } } as LiveServerMessage;
+    const speaking = feed(live(), [audio, output('So tell me')]);
+    expect(speaking.isSpeaking).toBe(true);
+
+    const interrupted = feed(speaking, [{ serverContent: { interrupted: true } } as LiveServerMessage]);
+    expect(interrupted.isSpeaking).toBe(false);
+    expect(interrupted.transcriptionBuffer.model).toBe('So tell me');
+  });
+
+  it('drops transport events once the session is over', () => {
+    const state = feed({ ...initialSessionState, status: 'ended' }, [input('late')]);
+    expect(state.transcriptionBuffer.user).toBe('');
+  });
+});
+
+describe('tool calls', () => {
+  it('adds feedback, newest first, and resolves its quote against the pending answer', () => {
+    const state = feed(live(), [
+      input('Um, I basically rewrote it.'),
+      toolCall('provideFeedback', { category: 'filler words', message: 'Drop "basically".', sentiment: 'improvement', quote: 'basically' }),
+      toolCall('provideFeedback', { category: 'Structure', message: 'Good setup.', sentiment: 'positive' }, 'second'),
+    ]);
+    expect(state.feedbacks.map(fb => fb.message)).toEqual(['Good setup.', 'Drop "basically".']);
+    const [, filler] = state.feedbacks;
+    expect(filler.category).toBe(FeedbackCategory.FILLER_WORDS);
+    expect(filler.sentiment).toBe(Sentiment.IMPROVEMENT);
+    expect(filler.transcriptSpan).toEqual({ entryIndex: 0, start: 6, end: 15, quote: 'basically' });
+  });
+
+  it('records question markers and requirement coverage', () => {
+    const requirements: JobRequirement[] = [{ id: 'req-1', text: 'Kubernetes', covered: false }];
+    const state = feed(live({ requirements }), [
+      toolCall('markQuestion', { question: 'Tell me about a failure.' }),
+      toolCall('markRequirementCovered', { requirementId: 'req-1', note: 'Ran the cluster' }),
+    ]);
+    expect(state.questionMarkers).toEqual([{ question: 'Tell me about a failure.', isFollowUp: false, timestamp: 1000 }]);
+    expect(state.requirements[0]).toMatchObject({ covered: true, coveredAt: 1001, note: 'Ran the cluster' });
+  });
+
+  it('turns submitSummary into a scorecard', () => {
+    const state = feed(live(), [
+      toolCall('submitSummary', {
+        strengths: ['Clear'],
+        improvements: ['Pace'],
+        scores: { pace: 3, clarity: 9 },
+        questionRatings: [{ question: ' Why us? ', rating: '4', comment: 7 }, 'Why not?', null],
+        overallComment: 'Solid.',
+      }),
+    ]);
+    expect(state.scorecard).toMatchObject({ strengths: ['Clear'], improvements: ['Pace'], overallComment: 'Solid.', createdAt: 1000 });
+    expect(state.scorecard?.scores.clarity).toBe(5);
+    expect(state.scorecard?.questionRatings).toEqual([{ question: 'Why us?', rating: 4, comment: '' }]);
+  });
+
+  it('leaves the state alone for invalid or unknown calls', () => {
+    const before = live();
+    const state = feed(before, [
+      toolCall('provideFeedback', { category: 'Pace', message: '', sentiment: 'positive' }),
+      toolCall('provideFeedback', { category: 'Pace', message: 'Slow down.', sentiment: 'angry' }),
+      toolCall('markQuestion', { question: 'Why?', isFollowUp: 'yes' }),
+      toolCall('markRequirementCovered', { requirementId: 'missing' }),
+      toolCall('submitSummary', { strengths: 'all of them' }),
+      toolCall('launchRocket', {}),
+    ]);
+    expect(state).toBe(before);
+  });
+});
+
+describe('session lifecycle', () => {
+  it('commits the partial turn and reconnects when the connection drops', () => {
+    const state = run(feed(live({ isSpeaking: true }), [input('Half an answer')]), [{ type: 'connectionLost', now: 5000 }]);
+    expect(state).toMatchObject({ status: 'connecting', isReconnecting: true, isSpeaking: false });
+    expect(state.transcriptions).toEqual([{ role: 'user', text: 'Half an answer', timestamp: 5000, spokenMs: 4000 }]);
+  });
+
+  it('goes back to live, not a fresh session, once reconnected', () => {
+    const reconnecting = run(feed(live(), [input('Hi'), turnComplete]), [{ type: 'connectionLost', now: 5000 }]);
+    const state = run(reconnecting, [{ type: 'connected', paused: false }]);
+    expect(state.status).toBe('live');
+    expect(state.transcriptions).toHaveLength(1);
+  });
+
+  it('ignores connectionLost outside an active session', () => {
+    const idle = initialSessionState;
+    expect(interviewSessionReducer(idle, { type: 'connectionLost', now: 1 })).toBe(idle);
+  });
+
+  it('keeps the half-finished turn when the session is stopped', () => {
+    const state = run(feed(live(), [output('And finally'), input('I would say')]), [{ type: 'stopped', now: 9000 }]);
+    expect(state.status).toBe('ended');
+    expect(state.transcriptions).toEqual([
+      { role: 'user', text: 'I would say', timestamp: 9000, spokenMs: 7999 },
+      { role: 'model', text: 'And finally', timestamp: 9000, spokenMs: 1 },
+    ]);
+  });
+
+  it('leaves an errored or idle session in place when stopped', () => {
+    expect(interviewSessionReducer({ ...initialSessionState, status: 'error' }, { type: 'stopped', now: 1 }).status).toBe('error');
+    expect(interviewSessionReducer(initialSessionState, { type: 'stopped', now: 1 }).status).toBe('idle');
+  });
+});
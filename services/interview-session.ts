@@ -0,0 +1,229 @@
+import { AnswerAnalysis, ConnectionState, FeedbackMessage, FeedbackSource, InterviewScorecard, JobRequirement, QuestionMarker, TranscriptionEntry } from '../types';
+import { LiveToolCall, LiveTransportEvent } from './live-transport';
+import { parseScorecard } from './scorecard';
+import { parseToolCall, resolveTranscriptSpan } from './tool-calls';
+
+/** The parts of a tip the candidate can change: pinning and rating. */
+export type FeedbackPatch = Partial<Pick<FeedbackMessage, 'pinned' | 'rating'>>;
+
+/** Progress through a planned question set, for "question N of M". */
+export interface PlanProgress {
+  title: string;
+  /** Questions served so far; the one being asked is number `current`. */
+  current: number;
+  total: number;
+}
+
+export type SessionStatus = 'idle' | 'connecting' | 'live' | 'paused' | 'summarizing' | 'ended' | 'error';
+
+export interface InterviewSessionState {
+  status: SessionStatus;
+  /** Set while `connecting` after a dropped connection rather than on start. */
+  isReconnecting: boolean;
+  isSpeaking: boolean;
+  transcriptions: TranscriptionEntry[];
+  /** Partial text of the current turn, committed on `turnComplete`. */
+  transcriptionBuffer: { user: string; model: string };
+  /** When each side of the buffer got its first text, so committed entries know how long it spoke. */
+  bufferStartedAt: { user: number | null; model: number | null };
+  feedbacks: FeedbackMessage[];
+  questionMarkers: QuestionMarker[];
+  answerAnalyses: AnswerAnalysis[];
+  requirements: JobRequirement[];
+  plan: PlanProgress | null;
+  scorecard: InterviewScorecard | null;
+  error: string | null;
+}
+
+export type InterviewSessionAction =
+  | { type: 'start'; requirements: JobRequirement[]; plan: PlanProgress | null }
+  | { type: 'planAdvanced'; current: number }
+  | { type: 'connected'; paused: boolean }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'summarize' }
+  | { type: 'transport'; event: LiveTransportEvent; now: number }
+  | { type: 'playbackEnded' }
+  | { type: 'connectionLost'; now: number }
+  | { type: 'typedAnswer'; text: string; now: number }
+  | { type: 'addFeedback'; feedbacks: FeedbackMessage[] }
+  | { type: 'updateFeedback'; ids: string[]; patch: FeedbackPatch }
+  | { type: 'answerAnalyzed'; analysis: AnswerAnalysis }
+  | { type: 'stopped'; now: number }
+  | { type: 'fail'; error: string }
+  | { type: 'dismissError' };
+
+export const initialSessionState: InterviewSessionState = {
+  status: 'idle',
+  isReconnecting: false,
+  isSpeaking: false,
+  transcriptions: [],
+  transcriptionBuffer: { user: '', model: '' },
+  bufferStartedAt: { user: null, model: null },
+  feedbacks: [],
+  questionMarkers: [],
+  answerAnalyses: [],
+  requirements: [],
+  plan: null,
+  scorecard: null,
+  error: null,
+};
+
+/** Replaces an earlier analysis of the same question, e.g. a re-run. */
+export const upsertAnalysis = (analyses: AnswerAnalysis[], analysis: AnswerAnalysis) =>
+  [...analyses.filter(a => a.turnId !== analysis.turnId), analysis];
+
+const ACTIVE_STATUSES: SessionStatus[] = ['connecting', 'live', 'paused', 'summarizing'];
+
+export const isSessionActive = (status: SessionStatus) => ACTIVE_STATUSES.includes(status);
+
+export function toConnectionState(state: InterviewSessionState): ConnectionState {
+  if (state.status === 'connecting') return state.isReconnecting ? ConnectionState.RECONNECTING : ConnectionState.CONNECTING;
+  return isSessionActive(state.status) ? ConnectionState.CONNECTED : ConnectionState.IDLE;
+}
+
+// Moves the buffered partial turn into the transcript, user speech first
+const commitBuffer = (state: InterviewSessionState, now: number): InterviewSessionState => {
+  const { user, model } = state.transcriptionBuffer;
+  if (!user && !model) return state;
+  // Each side speaks until the other starts after it, or until the turn ends
+  const spokenMs = (from: number | null, other: number | null) => {
+    if (from === null) return undefined;
+    return (other !== null && other > from ? other : now) - from;
+  };
+  const started = state.bufferStartedAt;
+  const entries: TranscriptionEntry[] = [
+    ...(user ? [{ role: 'user', text: user, timestamp: now, spokenMs: spokenMs(started.user, started.model) } as TranscriptionEntry] : []),
+    ...(model ? [{ role: 'model', text: model, timestamp: now, spokenMs: spokenMs(started.model, started.user) } as TranscriptionEntry] : []),
+  ];
+  return {
+    ...state,
+    transcriptions: [...state.transcriptions, ...entries],
+    transcriptionBuffer: { user: '', model: '' },
+    bufferStartedAt: { user: null, model: null },
+  };
+};
+
+const applyToolCall = (state: InterviewSessionState, call: LiveToolCall, now: number): InterviewSessionState => {
+  // Invalid calls leave the state alone; the hook answers them with the validation error
+  const parsed = parseToolCall(call, state.requirements);
+  if ('error' in parsed) return state;
+  const { name, args } = parsed.call;
+  switch (name) {
+    case 'provideFeedback':
+      return {
+        ...state,
+        feedbacks: [{
+          // Derived rather than random so the reducer stays pure
+          id: call.id || `${now.toString(36)}-${state.feedbacks.length}`,
+          category: args.category,
+          message: args.message,
+          sentiment: args.sentiment,
+          timestamp: now,
+          source: FeedbackSource.MODEL,
+          severity: args.severity,
+          transcriptSpan: args.quote
+            ? resolveTranscriptSpan(args.quote, state.transcriptions, state.transcriptionBuffer.user)
+            : undefined,
+        }, ...state.feedbacks],
+      };
+    case 'markQuestion':
+      return {
+        ...state,
+        questionMarkers: [...state.questionMarkers, { question: args.question, isFollowUp: args.isFollowUp, timestamp: now }],
+      };
+    case 'submitSummary':
+      return { ...state, scorecard: parseScorecard(args, now) };
+    case 'markRequirementCovered':
+      return {
+        ...state,
+        requirements: state.requirements.map(r => r.id === args.requirementId && !r.covered
+          ? { ...r, covered: true, coveredAt: now, note: args.note }
+          : r),
+      };
+  }
+};
+
+const applyTransportEvent = (state: InterviewSessionState, event: LiveTransportEvent, now: number): InterviewSessionState => {
+  switch (event.type) {
+    case 'audio':
+      return state.isSpeaking ? state : { ...state, isSpeaking: true };
+    case 'interrupted':
+      // Playback is cut, but the text already spoken stays in the buffer
+      return { ...state, isSpeaking: false };
+    case 'inputTranscription':
+      return {
+        ...state,
+        transcriptionBuffer: { ...state.transcriptionBuffer, user: state.transcriptionBuffer.user + event.text },
+        bufferStartedAt: { ...state.bufferStartedAt, user: state.bufferStartedAt.user ?? now },
+      };
+    case 'outputTranscription':
+      return {
+        ...state,
+        transcriptionBuffer: { ...state.transcriptionBuffer, model: state.transcriptionBuffer.model + event.text },
+        bufferStartedAt: { ...state.bufferStartedAt, model: state.bufferStartedAt.model ?? now },
+      };
+    case 'turnComplete':
+      return commitBuffer(state, now);
+    case 'toolCall':
+      return event.calls.reduce((next, call) => applyToolCall(next, call, now), state);
+    default:
+      return state;
+  }
+};
+
+/**
+ * Pure state machine for one interview: idle → connecting → live ⇄ paused →
+ * summarizing → ended, with `error` reachable from any active state. Audio
+ * playback, sockets and timers stay in the hook that dispatches these actions.
+ */
+export function interviewSessionReducer(state: InterviewSessionState, action: InterviewSessionAction): InterviewSessionState {
+  switch (action.type) {
+    case 'start':
+      return { ...initialSessionState, status: 'connecting', requirements: action.requirements, plan: action.plan };
+    case 'planAdvanced':
+      return state.plan ? { ...state, plan: { ...state.plan, current: Math.min(action.current, state.plan.total) } } : state;
+    case 'connected':
+      if (state.status !== 'connecting') return state;
+      return { ...state, status: action.paused ? 'paused' : 'live', isReconnecting: false };
+    case 'pause':
+      return state.status === 'live' ? { ...state, status: 'paused' } : state;
+    case 'resume':
+      return state.status === 'paused' ? { ...state, status: 'live' } : state;
+    case 'summarize':
+      return isSessionActive(state.status) ? { ...state, status: 'summarizing' } : state;
+    case 'transport':
+      return isSessionActive(state.status) ? applyTransportEvent(state, action.event, action.now) : state;
+    case 'playbackEnded':
+      return state.isSpeaking ? { ...state, isSpeaking: false } : state;
+    case 'connectionLost':
+      if (!isSessionActive(state.status)) return state;
+      return { ...commitBuffer(state, action.now), status: 'connecting', isReconnecting: true, isSpeaking: false };
+    case 'typedAnswer': {
+      // Typed answers skip transcription, so they go straight into the transcript
+      if (state.status !== 'live') return state;
+      const committed = commitBuffer(state, action.now);
+      return { ...committed, transcriptions: [...committed.transcriptions, { role: 'user', text: action.text, timestamp: action.now }] };
+    }
+    case 'addFeedback':
+      return { ...state, feedbacks: [...action.feedbacks, ...state.feedbacks] };
+    case 'updateFeedback':
+      return { ...state, feedbacks: state.feedbacks.map(fb => (action.ids.includes(fb.id) ? { ...fb, ...action.patch } : fb)) };
+    case 'answerAnalyzed':
+      return { ...state, answerAnalyses: upsertAnalysis(state.answerAnalyses, action.analysis) };
+    case 'stopped':
+      // Keep the half-finished turn the session was cut off in
+      return {
+        ...commitBuffer(state, action.now),
+        status: state.status === 'error' ? 'error' : state.status === 'idle' ? 'idle' : 'ended',
+        isReconnecting: false,
+        isSpeaking: false,
+      };
+    case 'fail':
+      return { ...state, status: 'error', error: action.error, isReconnecting: false, isSpeaking: false };
+    case 'dismissError':
+      return state.status === 'error' ? { ...state, status: 'ended', error: null } : { ...state, error: null };
+    default:
+      return state;
+  }
+}
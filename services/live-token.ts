@@ -0,0 +1,55 @@
+/// <reference types="vite/client" />
+
+const USER_ID_KEY = 'interview-coach:user-id';
+// Same-origin by default; the dev server proxies /api to the token server
+export const serverUrl = (path: string) => `${import.meta.env.VITE_TOKEN_SERVER_URL ?? ''}${path}`;
+
+/** A refused or failed token request, with a message fit to show the candidate. */
+export class LiveTokenError extends Error {
+  constructor(message: string, readonly status: number, readonly code: string) {
+    super(message);
+    this.name = 'LiveTokenError';
+  }
+
+  /** Rate limits and network blips clear up; an expired or forbidden session does not. */
+  get isRetryable(): boolean {
+    return this.status === 0 || this.status === 429 || this.status >= 500;
+  }
+}
+
+/** Anonymous, per-browser id the server rate-limits on. */
+export function getUserId(): string {
+  try {
+    const existing = localStorage.getItem(USER_ID_KEY);
+    if (existing) return existing;
+    const id = crypto.randomUUID();
+    localStorage.setItem(USER_ID_KEY, id);
+    return id;
+  } catch {
+    return crypto.randomUUID();
+  }
+}
+
+/** Asks the token server for a single-use Live API token for this interview. */
+export async function fetchLiveToken(sessionId: string): Promise<string> {
+  let response: Response;
+  try {
+    response = await fetch(serverUrl('/api/live-token'), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'X-Coach-User': getUserId() },
+      body: JSON.stringify({ sessionId }),
+    });
+  } catch {
+    throw new LiveTokenError('Could not reach the interview server. Check your connection.', 0, 'network');
+  }
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok || typeof body.token !== 'string') {
+    throw new LiveTokenError(
+      typeof body.message === 'string' ? body.message : 'Could not start the interview. Please try again.',
+      response.status,
+      typeof body.code === 'string' ? body.code : 'unknown',
+    );
+  }
+  return body.token;
+}
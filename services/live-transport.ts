@@ -0,0 +1,58 @@
+import { FunctionDeclaration } from '@google/genai';
+
+export interface PcmChunk {
+  data: string;
+  mimeType: string;
+}
+
+export interface LiveToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface LiveToolResponse {
+  id: string;
+  name: string;
+  result?: unknown;
+  /** Sent instead of a result when the call was rejected, so the model can retry. */
+  error?: string;
+}
+
+/** Everything a live interview backend can report, in the order it happened. */
+export type LiveTransportEvent =
+  | { type: 'open' }
+  | { type: 'audio'; data: string }
+  | { type: 'interrupted' }
+  | { type: 'inputTranscription'; text: string }
+  | { type: 'outputTranscription'; text: string }
+  | { type: 'turnComplete' }
+  | { type: 'toolCall'; calls: LiveToolCall[] }
+  | { type: 'error'; error: unknown }
+  | { type: 'close' };
+
+export interface LiveConnectOptions {
+  systemInstruction: string;
+  voiceName: string;
+  /** BCP-47 code for the interviewer's voice and both transcriptions. */
+  languageCode: string;
+  tools: FunctionDeclaration[];
+}
+
+/**
+ * A live interview backend. `connect` resolves once the session is usable;
+ * events are delivered to the listener until `close` or a `close` event.
+ */
+export interface LiveInterviewTransport {
+  connect: (options: LiveConnectOptions, onEvent: (event: LiveTransportEvent) => void) => Promise<void>;
+  /** Sends a chunk of 16 kHz mono PCM from the candidate's mic. */
+  sendAudio: (chunk: PcmChunk) => void;
+  /** Tells the backend the mic went quiet, since silent chunks are not sent. */
+  endAudioStream: () => void;
+  /** Sends one base64 JPEG camera frame. */
+  sendFrame: (base64Jpeg: string) => void;
+  /** Sends a text turn from the client, e.g. to request the summary. */
+  sendText: (text: string) => void;
+  sendToolResponse: (response: LiveToolResponse) => void;
+  close: () => void;
+}
@@ -0,0 +1,162 @@
+import { DeviceSelection } from '../types';
+
+const STORAGE_KEY = 'interview-coach:devices';
+const TEST_TONE_HZ = 440;
+const TEST_TONE_MS = 1000;
+
+// Mean luma (0–255) outside which the candidate is hard to see
+const MIN_BRIGHTNESS = 60;
+const MAX_BRIGHTNESS = 210;
+// Edges this much brighter than the centre usually means a window behind the candidate
+const BACKLIGHT_RATIO = 1.4;
+// A centre with almost no contrast is an empty chair, a wall or a covered lens
+const MIN_CENTER_CONTRAST = 12;
+
+export const DEFAULT_DEVICE_SELECTION: DeviceSelection = { cameraId: null, microphoneId: null, speakerId: null };
+
+export interface MediaDeviceLists {
+  cameras: MediaDeviceInfo[];
+  microphones: MediaDeviceInfo[];
+  speakers: MediaDeviceInfo[];
+}
+
+/** Device labels are only filled in once the page holds a media permission. */
+export async function listMediaDevices(): Promise<MediaDeviceLists> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return {
+    cameras: devices.filter(d => d.kind === 'videoinput'),
+    microphones: devices.filter(d => d.kind === 'audioinput'),
+    speakers: devices.filter(d => d.kind === 'audiooutput'),
+  };
+}
+
+const streamConstraints = (selection: DeviceSelection, withCamera: boolean): MediaStreamConstraints => ({
+  audio: {
+    ...(selection.microphoneId ? { deviceId: { exact: selection.microphoneId } } : {}),
+    echoCancellation: true,
+    noiseSuppression: true,
+  },
+  video: withCamera
+    ? {
+        ...(selection.cameraId ? { deviceId: { exact: selection.cameraId } } : {}),
+        width: 640,
+        height: 480,
+      }
+    : false,
+});
+
+/** Opens the mic, and the camera unless it is off, together so every consumer shares one stream. */
+export async function openMediaStream(selection: DeviceSelection, withCamera = true): Promise<MediaStream> {
+  try {
+    return await navigator.mediaDevices.getUserMedia(streamConstraints(selection, withCamera));
+  } catch (err) {
+    // A remembered device may have been unplugged since; fall back to the defaults
+    if ((err as DOMException).name !== 'OverconstrainedError') throw err;
+    return navigator.mediaDevices.getUserMedia(streamConstraints(DEFAULT_DEVICE_SELECTION, withCamera));
+  }
+}
+
+/** Routes an AudioContext to the chosen speaker where the browser supports it. */
+export async function applySpeaker(ctx: AudioContext, speakerId: string | null): Promise<void> {
+  const sinkCtx = ctx as AudioContext & { setSinkId?: (id: string) => Promise<void> };
+  if (!sinkCtx.setSinkId) return;
+  try {
+    await sinkCtx.setSinkId(speakerId ?? '');
+  } catch (err) {
+    console.warn('Could not switch speaker:', err);
+  }
+}
+
+export const supportsSpeakerSelection = () => 'setSinkId' in AudioContext.prototype;
+
+/** Plays a short sine tone on the chosen speaker and resolves when it ends. */
+export async function playTestTone(speakerId: string | null): Promise<void> {
+  const ctx = new AudioContext();
+  await applySpeaker(ctx, speakerId);
+  const oscillator = ctx.createOscillator();
+  const gain = ctx.createGain();
+  const end = ctx.currentTime + TEST_TONE_MS / 1000;
+  oscillator.frequency.value = TEST_TONE_HZ;
+  gain.gain.setValueAtTime(0, ctx.currentTime);
+  gain.gain.linearRampToValueAtTime(0.2, ctx.currentTime + 0.05);
+  gain.gain.linearRampToValueAtTime(0, end);
+  oscillator.connect(gain).connect(ctx.destination);
+  await new Promise<void>(resolve => {
+    oscillator.onended = () => resolve();
+    oscillator.start();
+    oscillator.stop(end);
+  });
+  await ctx.close();
+}
+
+export type LightingStatus = 'ok' | 'dark' | 'bright' | 'backlit';
+export type FramingStatus = 'ok' | 'empty';
+
+export interface FrameAssessment {
+  brightness: number;
+  lighting: LightingStatus;
+  framing: FramingStatus;
+}
+
+const luma = (data: Uint8ClampedArray, i: number) => 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+
+/**
+ * Rough camera checks from pixel brightness alone: overall exposure, a bright
+ * background relative to the centre, and whether the centre has any detail.
+ */
+export function assessFrame({ data, width, height }: ImageData): FrameAssessment {
+  let total = 0;
+  let centerSum = 0;
+  let centerSquares = 0;
+  let centerCount = 0;
+  let edgeSum = 0;
+  let edgeCount = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = luma(data, (y * width + x) * 4);
+      total += value;
+      const inCenter = x > width / 3 && x < (2 * width) / 3 && y > height / 5 && y < (4 * height) / 5;
+      if (inCenter) {
+        centerSum += value;
+        centerSquares += value * value;
+        centerCount++;
+      } else {
+        edgeSum += value;
+        edgeCount++;
+      }
+    }
+  }
+
+  const brightness = total / Math.max(1, width * height);
+  const centerMean = centerSum / Math.max(1, centerCount);
+  const edgeMean = edgeSum / Math.max(1, edgeCount);
+  const centerContrast = Math.sqrt(Math.max(0, centerSquares / Math.max(1, centerCount) - centerMean * centerMean));
+
+  const lighting: LightingStatus = brightness < MIN_BRIGHTNESS ? 'dark'
+    : brightness > MAX_BRIGHTNESS ? 'bright'
+    : edgeMean > centerMean * BACKLIGHT_RATIO ? 'backlit'
+    : 'ok';
+  const framing: FramingStatus = centerContrast < MIN_CENTER_CONTRAST ? 'empty' : 'ok';
+  return { brightness, lighting, framing };
+}
+
+export function loadDeviceSelection(): DeviceSelection {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_DEVICE_SELECTION;
+    const stored = JSON.parse(raw) as Partial<DeviceSelection>;
+    const id = (value: unknown) => (typeof value === 'string' && value ? value : null);
+    return { cameraId: id(stored.cameraId), microphoneId: id(stored.microphoneId), speakerId: id(stored.speakerId) };
+  } catch {
+    return DEFAULT_DEVICE_SELECTION;
+  }
+}
+
+export function saveDeviceSelection(selection: DeviceSelection): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(selection));
+  } catch (err) {
+    console.warn('Could not persist device selection:', err);
+  }
+}
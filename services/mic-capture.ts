@@ -0,0 +1,87 @@
+import { createStreamResampler } from './audio-processing';
+
+export const CAPTURE_SAMPLE_RATE = 16000;
+// Roughly what the old 4096-sample ScriptProcessor delivered at 16 kHz, halved for lower latency
+const CHUNK_MS = 128;
+const PROCESSOR_NAME = 'pcm-capture';
+
+// Runs on the audio thread; it only batches render quanta and hands them to the main thread
+const WORKLET_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.size = options.processorOptions.frames;
+    this.buffer = new Float32Array(this.size);
+    this.length = 0;
+  }
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (channel) {
+      for (let i = 0; i < channel.length; i++) {
+        this.buffer[this.length++] = channel[i];
+        if (this.length === this.size) {
+          this.port.postMessage(this.buffer, [this.buffer.buffer]);
+          this.buffer = new Float32Array(this.size);
+          this.length = 0;
+        }
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+// addModule may only register the processor once per context
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+const ensureWorklet = async (ctx: AudioContext) => {
+  if (loadedContexts.has(ctx)) return;
+  const url = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+  try {
+    await ctx.audioWorklet.addModule(url);
+    loadedContexts.add(ctx);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+export interface MicCapture {
+  stop: () => void;
+}
+
+/**
+ * Captures mono mic audio off the main thread and delivers 16 kHz chunks,
+ * resampling from whatever rate the context actually runs at.
+ */
+export async function startMicCapture(
+  ctx: AudioContext,
+  stream: MediaStream,
+  onChunk: (samples: Float32Array) => void,
+): Promise<MicCapture> {
+  await ensureWorklet(ctx);
+
+  const source = ctx.createMediaStreamSource(stream);
+  // No outputs: the node only listens, so nothing needs routing to the speakers
+  const node = new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: { frames: Math.round((ctx.sampleRate * CHUNK_MS) / 1000) },
+  });
+  const resampler = createStreamResampler(ctx.sampleRate, CAPTURE_SAMPLE_RATE);
+  node.port.onmessage = (e: MessageEvent<Float32Array>) => {
+    const samples = resampler.process(e.data);
+    if (samples.length) onChunk(samples);
+  };
+  source.connect(node);
+
+  return {
+    stop: () => {
+      node.port.onmessage = null;
+      source.disconnect();
+      node.disconnect();
+    },
+  };
+}
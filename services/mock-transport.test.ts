@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import mockInterview from '../fixtures/mock-interview';
+import { FeedbackCategory, Sentiment } from '../types';
+import { initialSessionState, interviewSessionReducer, InterviewSessionAction, InterviewSessionState } from './interview-session';
+import { LiveTransportEvent } from './live-transport';
+import { createMockTransport, MockScript } from './mock-transport';
+import { SUMMARY_REQUEST } from './system-prompt';
+import { toolCallResponse } from './tool-calls';
+
+// The parts of useInterviewSession that touch the transport: dispatch every event, answer every tool call
+const startSession = async (script: MockScript) => {
+  const transport = createMockTransport(script);
+  let state = interviewSessionReducer(initialSessionState, { type: 'start', requirements: [], plan: null });
+  const events: LiveTransportEvent['type'][] = [];
+  const dispatch = (action: InterviewSessionAction) => { state = interviewSessionReducer(state, action); };
+
+  await transport.connect(
+    { systemInstruction: '', voiceName: 'Puck', languageCode: 'en-US', tools: [] },
+    (event: LiveTransportEvent) => {
+      events.push(event.type);
+      dispatch({ type: 'transport', event, now: Date.now() });
+      if (event.type === 'toolCall') event.calls.forEach(call => transport.sendToolResponse(toolCallResponse(call, [])));
+    },
+  );
+  dispatch({ type: 'connected', paused: false });
+  return { transport, dispatch, events, state: () => state as InterviewSessionState };
+};
+
+const scriptLength = (script: MockScript) => script.steps.reduce((ms, step) => ms + step.delayMs, 0);
+
+describe('mock interview', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('plays the scripted interview into transcript, questions and feedback', async () => {
+    const session = await startSession(mockInterview);
+    await vi.advanceTimersByTimeAsync(scriptLength(mockInterview));
+    const state = session.state();
+
+    expect(state.transcriptions.map(t => t.role)).toEqual(['model', 'user', 'model', 'user', 'model']);
+    expect(state.transcriptions[1].text).toContain('cut failed invoices by about 40 percent');
+    expect(state.questionMarkers.map(m => m.isFollowUp)).toEqual([false, true]);
+    expect(state.feedbacks.map(fb => [fb.category, fb.sentiment])).toEqual([
+      [FeedbackCategory.EYE_CONTACT, Sentiment.IMPROVEMENT],
+      [FeedbackCategory.CONTENT, Sentiment.POSITIVE],
+    ]);
+    expect(state.feedbacks[1].transcriptSpan?.entryIndex).toBe(1);
+    // Interrupted mid-reply, so the interviewer stops speaking
+    expect(state.isSpeaking).toBe(false);
+  });
+
+  it('acknowledges every tool call with a fresh id', async () => {
+    const session = await startSession(mockInterview);
+    await vi.advanceTimersByTimeAsync(scriptLength(mockInterview));
+    const { toolResponses } = session.transport.log;
+
+    expect(toolResponses.map(r => r.result)).toEqual([
+      'question_recorded', 'feedback_received', 'question_recorded', 'feedback_received',
+    ]);
+    expect(new Set(toolResponses.map(r => r.id)).size).toBe(toolResponses.length);
+  });
+
+  it('does not summarize on typed answers or time checks', async () => {
+    const session = await startSession(mockInterview);
+    await vi.advanceTimersByTimeAsync(scriptLength(mockInterview));
+
+    session.dispatch({ type: 'typedAnswer', text: 'One more thing about the rollout.', now: Date.now() });
+    session.transport.sendText('One more thing about the rollout.');
+    session.transport.sendText('Time check: about two minutes left.');
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(session.state().scorecard).toBeNull();
+    expect(session.transport.log.texts).toHaveLength(2);
+  });
+
+  it('answers the summary request with a scorecard', async () => {
+    const session = await startSession(mockInterview);
+    await vi.advanceTimersByTimeAsync(scriptLength(mockInterview));
+
+    session.dispatch({ type: 'summarize' });
+    session.transport.sendText(SUMMARY_REQUEST);
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(session.state().scorecard).toMatchObject({ overallComment: 'A solid answer with a strong metric; tighten the structure.' });
+    expect(session.transport.log.toolResponses.at(-1)?.result).toBe('summary_received');
+  });
+
+  it('cancels pending steps and reports the close', async () => {
+    const session = await startSession(mockInterview);
+    session.transport.close();
+    await vi.advanceTimersByTimeAsync(scriptLength(mockInterview));
+
+    expect(session.state().transcriptions).toEqual([]);
+    expect(session.transport.log.toolResponses).toEqual([]);
+    expect(session.events).toEqual(['open', 'close']);
+  });
+});
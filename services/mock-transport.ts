@@ -0,0 +1,112 @@
+import { encode } from './audio-processing';
+import { LiveInterviewTransport, LiveToolResponse, LiveTransportEvent, PcmChunk } from './live-transport';
+
+const OUTPUT_SAMPLE_RATE = 24000;
+
+/** A canned event; `tone` is synthesized into 24 kHz PCM so fixtures stay small. */
+export type MockEvent =
+  | LiveTransportEvent
+  | { type: 'tone'; frequency: number; durationMs: number };
+
+export interface MockStep {
+  /** Delay after the previous step. */
+  delayMs: number;
+  event: MockEvent;
+}
+
+/** Steps played when the client sends a matching text turn. */
+export interface MockReply {
+  /** Tested against the whole text; a string must match exactly. */
+  match: string | RegExp;
+  steps: MockStep[];
+}
+
+export interface MockScript {
+  /** Played once after connecting. */
+  steps: MockStep[];
+  /** The first matching reply plays; texts nothing matches, e.g. time checks, get no reply. */
+  replies?: MockReply[];
+}
+
+/** Everything the app sent, for inspecting in tests and demos. */
+export interface MockTransportLog {
+  audioChunks: number;
+  frames: number;
+  texts: string[];
+  toolResponses: LiveToolResponse[];
+}
+
+export function synthesizeTone(frequency: number, durationMs: number, sampleRate = OUTPUT_SAMPLE_RATE): string {
+  const length = Math.round((durationMs / 1000) * sampleRate);
+  const pcm = new Int16Array(length);
+  for (let i = 0; i < length; i++) {
+    // Short fade in and out avoids clicks at the chunk edges
+    const envelope = Math.min(1, i / 240, (length - i) / 240);
+    pcm[i] = Math.round(Math.sin((2 * Math.PI * frequency * i) / sampleRate) * envelope * 0.2 * 32767);
+  }
+  return encode(new Uint8Array(pcm.buffer));
+}
+
+let nextCallId = 1;
+
+const toTransportEvent = (event: MockEvent): LiveTransportEvent => {
+  if (event.type === 'tone') return { type: 'audio', data: synthesizeTone(event.frequency, event.durationMs) };
+  // Fixtures leave ids blank; responses are matched by id so each call needs a fresh one
+  if (event.type === 'toolCall') return { ...event, calls: event.calls.map(c => ({ ...c, id: c.id || `mock-${nextCallId++}` })) };
+  return event;
+};
+
+/**
+ * Offline stand-in for the Gemini Live backend that replays a scripted
+ * interview, so the UI and message handling run without a key or network.
+ */
+export function createMockTransport(script: MockScript): LiveInterviewTransport & { log: MockTransportLog } {
+  const timers = new Set<ReturnType<typeof setTimeout>>();
+  let listener: ((event: LiveTransportEvent) => void) | null = null;
+  const log: MockTransportLog = { audioChunks: 0, frames: 0, texts: [], toolResponses: [] };
+
+  const play = (steps: MockStep[]) => {
+    let at = 0;
+    for (const step of steps) {
+      at += step.delayMs;
+      const timer = setTimeout(() => {
+        timers.delete(timer);
+        listener?.(toTransportEvent(step.event));
+      }, at);
+      timers.add(timer);
+    }
+  };
+
+  const close = () => {
+    timers.forEach(t => clearTimeout(t));
+    timers.clear();
+    const current = listener;
+    listener = null;
+    current?.({ type: 'close' });
+  };
+
+  return {
+    log,
+    connect: async (_options, onEvent) => {
+      listener = onEvent;
+      onEvent({ type: 'open' });
+      play(script.steps);
+    },
+    sendAudio: (_chunk: PcmChunk) => {
+      log.audioChunks++;
+    },
+    endAudioStream: () => {},
+    sendFrame: () => {
+      log.frames++;
+    },
+    sendText: (text) => {
+      log.texts.push(text);
+      const reply = script.replies?.find(r => (typeof r.match === 'string' ? r.match === text : r.match.test(text)));
+      if (reply) play(reply.steps);
+    },
+    sendToolResponse: (response) => {
+      log.toolResponses.push(response);
+    },
+    close,
+  };
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { FeedbackCategory } from '../types';
+import { createNonVerbalAnalyzer } from './nonverbal-analytics';
+
+// Ten seconds without a face: enough coverage for the rules and long past the no-face threshold
+const feedMissingFace = (analyzer: ReturnType<typeof createNonVerbalAnalyzer>) => {
+  for (let at = 0; at <= 10000; at += 500) analyzer.processSample(null, at);
+  return analyzer.evaluate(10000);
+};
+
+describe('createNonVerbalAnalyzer', () => {
+  it('words tips in the interview language', () => {
+    const [english] = feedMissingFace(createNonVerbalAnalyzer());
+    expect(english).toMatchObject({ category: FeedbackCategory.POSTURE, message: expect.stringContaining("face isn't visible") });
+
+    const analyzer = createNonVerbalAnalyzer();
+    analyzer.reset('es-ES');
+    expect(feedMissingFace(analyzer)[0].message).toContain('No se te ve la cara');
+  });
+
+  it('keeps the language across resets that do not name one', () => {
+    const analyzer = createNonVerbalAnalyzer('de-DE');
+    analyzer.reset();
+    expect(feedMissingFace(analyzer)[0].message).toContain('Dein Gesicht');
+  });
+});
@@ -0,0 +1,223 @@
+import { FaceDistance, FaceSample, FeedbackCategory, FeedbackMessage, FeedbackSource, NonVerbalMetrics, Sentiment } from '../types';
+import { createTranslator, MessageKey } from './i18n';
+
+const WINDOW_MS = 15000;
+// Metrics that describe "where the candidate is now" use a shorter window
+const POSITION_WINDOW_MS = 3000;
+const FACE_VISIBLE_MS = 1000;
+
+const RULE_COOLDOWN_MS = 60000;
+const POSITIVE_COOLDOWN_MS = 180000;
+const MIN_WINDOW_COVERAGE_MS = 10000;
+const NO_FACE_MS = 5000;
+
+const LOW_EYE_CONTACT = 0.4;
+const GOOD_EYE_CONTACT = 0.8;
+const HIGH_HEAD_MOTION = 0.6;
+const OFF_CENTER = 0.2;
+const CLOSE_WIDTH = 0.5;
+const FAR_WIDTH = 0.18;
+
+// Frames go to the model at least this often, and at most this often when something changes
+const DEFAULT_FRAME_INTERVAL_MS = 2000;
+const MIN_FRAME_INTERVAL_MS = 1000;
+const MAX_FRAME_INTERVAL_MS = 6000;
+
+interface TimedSample {
+  at: number;
+  face: FaceSample | null;
+}
+
+interface Rule {
+  id: string;
+  category: FeedbackCategory.POSTURE | FeedbackCategory.EYE_CONTACT;
+  sentiment: Sentiment;
+  message: MessageKey;
+  cooldownMs: number;
+  test: (metrics: NonVerbalMetrics, faceMissingMs: number) => boolean;
+}
+
+const RULES: Rule[] = [
+  {
+    id: 'no-face',
+    category: FeedbackCategory.POSTURE,
+    sentiment: Sentiment.IMPROVEMENT,
+    message: 'tipNoFace',
+    cooldownMs: RULE_COOLDOWN_MS,
+    test: (_m, faceMissingMs) => faceMissingMs >= NO_FACE_MS,
+  },
+  {
+    id: 'low-eye-contact',
+    category: FeedbackCategory.EYE_CONTACT,
+    sentiment: Sentiment.IMPROVEMENT,
+    message: 'tipLookAway',
+    cooldownMs: RULE_COOLDOWN_MS,
+    test: m => m.isFaceVisible && m.eyeContactRatio < LOW_EYE_CONTACT,
+  },
+  {
+    id: 'good-eye-contact',
+    category: FeedbackCategory.EYE_CONTACT,
+    sentiment: Sentiment.POSITIVE,
+    message: 'tipEyeContact',
+    cooldownMs: POSITIVE_COOLDOWN_MS,
+    test: m => m.isFaceVisible && m.eyeContactRatio > GOOD_EYE_CONTACT,
+  },
+  {
+    id: 'head-motion',
+    category: FeedbackCategory.POSTURE,
+    sentiment: Sentiment.IMPROVEMENT,
+    message: 'tipHeadMotion',
+    cooldownMs: RULE_COOLDOWN_MS,
+    test: m => m.isFaceVisible && m.headMotion > HIGH_HEAD_MOTION,
+  },
+  {
+    id: 'off-center',
+    category: FeedbackCategory.POSTURE,
+    sentiment: Sentiment.IMPROVEMENT,
+    message: 'tipOffCenter',
+    cooldownMs: RULE_COOLDOWN_MS,
+    test: m => m.isFaceVisible && m.centerOffset > OFF_CENTER,
+  },
+  {
+    id: 'too-close',
+    category: FeedbackCategory.POSTURE,
+    sentiment: Sentiment.IMPROVEMENT,
+    message: 'tipTooClose',
+    cooldownMs: RULE_COOLDOWN_MS,
+    test: m => m.distance === 'close',
+  },
+  {
+    id: 'too-far',
+    category: FeedbackCategory.POSTURE,
+    sentiment: Sentiment.IMPROVEMENT,
+    message: 'tipTooFar',
+    cooldownMs: RULE_COOLDOWN_MS,
+    test: m => m.distance === 'far',
+  },
+];
+
+const EMPTY_METRICS: NonVerbalMetrics = {
+  isFaceVisible: false,
+  eyeContactRatio: 0,
+  headMotion: 0,
+  centerOffset: 0,
+  distance: 'unknown',
+};
+
+// True when the model would likely see something new compared with the reference frame
+const isSignificantChange = (reference: FaceSample | null, face: FaceSample | null) => {
+  if (!reference || !face) return reference !== face;
+  return reference.isLookingAtCamera !== face.isLookingAtCamera
+    || Math.hypot(face.centerX - reference.centerX, face.centerY - reference.centerY) > 0.08
+    || Math.abs(face.width - reference.width) > 0.05
+    || Math.abs(face.yaw - reference.yaw) > 0.2;
+};
+
+export interface NonVerbalAnalyzer {
+  /** Feeds one landmark result; null when no face was found in the frame. */
+  processSample: (face: FaceSample | null, now?: number) => void;
+  getMetrics: (now?: number) => NonVerbalMetrics;
+  /** Applies the posture and eye contact rules and returns any new feedback. */
+  evaluate: (now?: number) => FeedbackMessage[];
+  /** Adaptive frame rate: whether a camera frame should go to the model now. */
+  shouldSendFrame: (lastSentAt: number, now?: number) => boolean;
+  /** Clears everything for a new session, optionally in another interview language. */
+  reset: (language?: string) => void;
+}
+
+/**
+ * Local non-verbal analytics over face landmark samples. Like the speech
+ * analyzer, it coaches on thresholds independently of the model, in the
+ * interview language.
+ */
+export function createNonVerbalAnalyzer(initialLanguage = 'en-US'): NonVerbalAnalyzer {
+  let language = initialLanguage;
+  let translator = createTranslator(language);
+  let samples: TimedSample[] = [];
+  let lastFaceAt: number | null = null;
+  let firstSampleAt: number | null = null;
+  let reference: FaceSample | null = null;
+  let lastChangeAt = 0;
+  let lastFiredAt: Record<string, number> = {};
+
+  const processSample = (face: FaceSample | null, now = Date.now()) => {
+    firstSampleAt ??= now;
+    if (face) lastFaceAt = now;
+    samples.push({ at: now, face });
+    samples = samples.filter(s => now - s.at <= WINDOW_MS);
+    if (isSignificantChange(reference, face)) {
+      reference = face;
+      lastChangeAt = now;
+    }
+  };
+
+  const getMetrics = (now = Date.now()): NonVerbalMetrics => {
+    const faces = samples.filter((s): s is { at: number; face: FaceSample } => s.face !== null);
+    if (!faces.length) return EMPTY_METRICS;
+
+    let motion = 0;
+    for (let i = 1; i < faces.length; i++) {
+      const prev = faces[i - 1].face;
+      const cur = faces[i].face;
+      motion += Math.hypot(cur.centerX - prev.centerX, cur.centerY - prev.centerY) / Math.max(cur.width, 0.01);
+    }
+    const spanSeconds = (faces[faces.length - 1].at - faces[0].at) / 1000;
+
+    const recent = faces.filter(s => now - s.at <= POSITION_WINDOW_MS);
+    const positioned = recent.length ? recent : faces.slice(-1);
+    const average = (pick: (f: FaceSample) => number) => positioned.reduce((sum, s) => sum + pick(s.face), 0) / positioned.length;
+    const width = average(f => f.width);
+    const distance: FaceDistance = width > CLOSE_WIDTH ? 'close' : width < FAR_WIDTH ? 'far' : 'ok';
+
+    return {
+      isFaceVisible: lastFaceAt !== null && now - lastFaceAt <= FACE_VISIBLE_MS,
+      eyeContactRatio: faces.filter(s => s.face.isLookingAtCamera).length / faces.length,
+      headMotion: spanSeconds > 0 ? motion / spanSeconds : 0,
+      centerOffset: Math.hypot(average(f => f.centerX) - 0.5, average(f => f.centerY) - 0.5),
+      distance,
+    };
+  };
+
+  const evaluate = (now = Date.now()): FeedbackMessage[] => {
+    if (firstSampleAt === null || now - firstSampleAt < MIN_WINDOW_COVERAGE_MS) return [];
+    const metrics = getMetrics(now);
+    const faceMissingMs = now - (lastFaceAt ?? firstSampleAt);
+
+    const feedback: FeedbackMessage[] = [];
+    for (const rule of RULES) {
+      if (now - (lastFiredAt[rule.id] ?? -Infinity) < rule.cooldownMs) continue;
+      if (!rule.test(metrics, faceMissingMs)) continue;
+      lastFiredAt[rule.id] = now;
+      feedback.push({
+        id: Math.random().toString(36).substr(2, 9),
+        category: rule.category,
+        message: translator.t(rule.message),
+        sentiment: rule.sentiment,
+        timestamp: now,
+        source: FeedbackSource.ANALYTICS,
+      });
+    }
+    return feedback;
+  };
+
+  const shouldSendFrame = (lastSentAt: number, now = Date.now()) => {
+    const elapsed = now - lastSentAt;
+    // Without a tracker there is nothing to adapt to
+    if (firstSampleAt === null) return elapsed >= DEFAULT_FRAME_INTERVAL_MS;
+    if (elapsed >= MAX_FRAME_INTERVAL_MS) return true;
+    return elapsed >= MIN_FRAME_INTERVAL_MS && lastChangeAt > lastSentAt;
+  };
+
+  const reset = (nextLanguage = language) => {
+    language = nextLanguage;
+    translator = createTranslator(language);
+    samples = [];
+    lastFaceAt = null;
+    firstSampleAt = null;
+    reference = null;
+    lastChangeAt = 0;
+    lastFiredAt = {};
+  };
+
+  return { processSample, getMetrics, evaluate, shouldSendFrame, reset };
+}
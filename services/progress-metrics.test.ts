@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { StoredSession, TranscriptionEntry } from '../types';
+import { DEFAULT_INTERVIEW_CONFIG } from './interview-config';
+import { computeSessionMetrics } from './progress-metrics';
+
+const sixtyWords = Array.from({ length: 60 }, (_, i) => `word${i}`).join(' ');
+
+const sessionWith = (transcriptions: TranscriptionEntry[]): StoredSession => ({
+  id: 's1',
+  title: 'Session',
+  config: DEFAULT_INTERVIEW_CONFIG,
+  transcriptions,
+  feedbacks: [],
+  requirements: [],
+  scorecard: null,
+  startedAt: 0,
+  endedAt: 120000,
+  updatedAt: 120000,
+});
+
+describe('computeSessionMetrics', () => {
+  it("times answers by the candidate's own speech, not the interviewer's reply", () => {
+    // A 30 second answer, then a 30 second reply, committed together at the end of the turn
+    const metrics = computeSessionMetrics(sessionWith([
+      { role: 'user', text: sixtyWords, timestamp: 60000, spokenMs: 30000 },
+      { role: 'model', text: 'Thanks. Tell me more about the rollout.', timestamp: 60000, spokenMs: 30000 },
+    ]));
+    expect(metrics.speakingMinutes).toBe(0.5);
+    expect(metrics.wordsPerMinute).toBe(120);
+  });
+
+  it('falls back to the gap since the previous entry for older sessions', () => {
+    const metrics = computeSessionMetrics(sessionWith([
+      { role: 'model', text: 'Tell me about yourself.', timestamp: 10000 },
+      { role: 'user', text: sixtyWords, timestamp: 40000 },
+    ]));
+    expect(metrics.speakingMinutes).toBe(0.5);
+    expect(metrics.averageAnswerWords).toBe(60);
+  });
+});
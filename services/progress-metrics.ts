@@ -0,0 +1,90 @@
+import { CategoryRatio, ImprovementTheme, Sentiment, SessionMetrics, StoredSession } from '../types';
+import { countFillerWords, countWords } from './speech-analytics';
+import { categoryKey, contentWords, similarity } from './feedback-grouping';
+
+// Longest gap we attribute to a single answer; longer gaps are silence or idle time
+const MAX_ANSWER_MS = 3 * 60 * 1000;
+
+/**
+ * Derives speech metrics from a stored transcript. Answers are timed by how
+ * long the candidate spoke before the interviewer took over. Typed answers and
+ * sessions saved before that was recorded fall back to the gap since the
+ * previous entry, which also counts the interviewer's side of the turn.
+ */
+export function computeSessionMetrics(session: StoredSession): SessionMetrics {
+  let words = 0;
+  let fillers = 0;
+  let answers = 0;
+  let speakingMs = 0;
+  let previousTimestamp = session.startedAt;
+
+  for (const entry of session.transcriptions) {
+    if (entry.role === 'user') {
+      const count = countWords(entry.text);
+      if (count > 0) {
+        words += count;
+        fillers += countFillerWords(entry.text, session.config.language);
+        answers++;
+        speakingMs += Math.min(MAX_ANSWER_MS, Math.max(0, entry.spokenMs ?? entry.timestamp - previousTimestamp));
+      }
+    }
+    previousTimestamp = entry.timestamp;
+  }
+
+  const speakingMinutes = speakingMs / 60000;
+  return {
+    sessionId: session.id,
+    title: session.title,
+    startedAt: session.startedAt,
+    speakingMinutes,
+    wordsPerMinute: speakingMinutes > 0 ? words / speakingMinutes : 0,
+    fillersPerMinute: speakingMinutes > 0 ? fillers / speakingMinutes : 0,
+    averageAnswerWords: answers > 0 ? words / answers : 0,
+  };
+}
+
+export function computeCategoryRatios(sessions: StoredSession[]): CategoryRatio[] {
+  const ratios = new Map<string, CategoryRatio>();
+  for (const session of sessions) {
+    for (const fb of session.feedbacks) {
+      const key = categoryKey(fb.category);
+      if (!key) continue;
+      const ratio = ratios.get(key) ?? { category: fb.category.trim(), positive: 0, improvement: 0 };
+      if (fb.sentiment === Sentiment.POSITIVE) ratio.positive++;
+      if (fb.sentiment === Sentiment.IMPROVEMENT) ratio.improvement++;
+      ratios.set(key, ratio);
+    }
+  }
+  return [...ratios.values()]
+    .filter(r => r.positive + r.improvement > 0)
+    .sort((a, b) => (b.positive + b.improvement) - (a.positive + a.improvement));
+}
+
+/** Clusters similar improvement tips across sessions and returns the most frequent. */
+export function topImprovementThemes(sessions: StoredSession[], limit = 5): ImprovementTheme[] {
+  const clusters: { words: Set<string>; theme: ImprovementTheme; sessionIds: Set<string> }[] = [];
+
+  for (const session of sessions) {
+    for (const fb of session.feedbacks) {
+      if (fb.sentiment !== Sentiment.IMPROVEMENT) continue;
+      const words = contentWords(fb.message);
+      const match = clusters.find(c =>
+        categoryKey(c.theme.category) === categoryKey(fb.category) && similarity(c.words, words) >= 0.4);
+      if (match) {
+        match.theme.count++;
+        match.sessionIds.add(session.id);
+      } else {
+        clusters.push({
+          words,
+          theme: { label: fb.message, category: fb.category.trim(), count: 1, sessionCount: 0 },
+          sessionIds: new Set([session.id]),
+        });
+      }
+    }
+  }
+
+  return clusters
+    .map(c => ({ ...c.theme, sessionCount: c.sessionIds.size }))
+    .sort((a, b) => b.count - a.count || b.sessionCount - a.sessionCount)
+    .slice(0, limit);
+}
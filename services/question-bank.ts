@@ -0,0 +1,192 @@
+import { BankQuestion, InterviewType, QuestionSet } from '../types';
+import { LiveToolCall, LiveToolResponse } from './live-transport';
+
+const STORAGE_KEY = 'interview-coach:question-sets';
+const MAX_QUESTIONS = 30;
+
+type QuestionSeed = [text: string, followUps: string[], timeLimitSec: number, rubric: string];
+
+const builtIn = (id: string, title: string, role: string, interviewType: InterviewType, description: string, seeds: QuestionSeed[]): QuestionSet => ({
+  id,
+  title,
+  role,
+  interviewType,
+  description,
+  builtIn: true,
+  questions: seeds.map(([text, followUps, timeLimitSec, rubric], i) => ({ id: `${id}-q${i + 1}`, text, followUps, timeLimitSec, rubric })),
+});
+
+export const BUILT_IN_QUESTION_SETS: QuestionSet[] = [
+  builtIn('general-behavioral', 'Core behavioral loop', 'Any role', InterviewType.BEHAVIORAL, 'Five common behavioral questions for any role.', [
+    ['Tell me about yourself and what brings you to this role.', ['What are you looking for in your next team?'], 120, 'Concise arc of experience tied to the role; under two minutes; ends with motivation.'],
+    ['Describe a time you disagreed with a teammate. How did you handle it?', ['What would you do differently now?', 'How did the relationship change afterwards?'], 180, 'Clear situation, respectful disagreement, concrete actions, resolution and reflection.'],
+    ['Tell me about a project that failed or did not go to plan.', ['What did you learn?', 'What signals did you miss early on?'], 180, 'Owns their part of the failure; specific lessons applied later.'],
+    ['Give an example of when you went beyond your role to get something done.', ['How did others react?'], 180, 'Initiative with measurable impact; avoids taking credit for the team.'],
+    ['Why do you want to work here, and why now?', [], 120, 'Specific to the company and role; coherent with their story.'],
+  ]),
+  builtIn('backend-engineer', 'Backend engineer', 'Backend Engineer', InterviewType.TECHNICAL, 'Service design, reliability and debugging for backend roles.', [
+    ['Walk me through a backend service you built or own end to end.', ['How is it deployed and monitored?', 'What would you redesign today?'], 240, 'Clear architecture, data flow and ownership; honest about trade-offs.'],
+    ['How would you debug a sudden rise in p99 latency on an API?', ['What metrics would you look at first?', 'How would you confirm the root cause?'], 240, 'Systematic: scope, recent changes, dashboards, traces, hypotheses, rollback.'],
+    ['When would you choose a relational database over a document store?', ['How do you handle schema migrations safely?'], 180, 'Consistency, query patterns and scale reasoning rather than preference.'],
+    ['Describe how you make an endpoint idempotent.', ['How would retries interact with it?'], 180, 'Idempotency keys, deduplication storage, safe retries and failure modes.'],
+    ['Tell me about a production incident you handled.', ['What changed afterwards?'], 180, 'Calm triage, communication, blameless follow-up and lasting fixes.'],
+  ]),
+  builtIn('frontend-engineer', 'Frontend engineer', 'Frontend Engineer', InterviewType.TECHNICAL, 'UI architecture, performance and accessibility for frontend roles.', [
+    ['How do you decide where state should live in a React app?', ['When is a global store worth it?'], 180, 'Colocation first, lifting state, server vs client state, avoiding prop drilling pain.'],
+    ['A page feels slow on low-end phones. How do you investigate?', ['Which metrics do you track?', 'What fixes have you shipped before?'], 240, 'Measures first (Web Vitals, profiler), bundle and render costs, targeted fixes.'],
+    ['How do you make a custom dropdown accessible?', ['How would you test it?'], 180, 'Roles, keyboard support, focus management, screen reader announcements.'],
+    ['Tell me about a UI you rebuilt or refactored. Why and how?', ['How did you avoid regressions?'], 180, 'Clear motivation, incremental plan, testing strategy, measurable outcome.'],
+  ]),
+  builtIn('product-manager', 'Product manager', 'Product Manager', InterviewType.CASE, 'Prioritisation, metrics and stakeholder questions for PM roles.', [
+    ['Tell me about a product you launched from idea to release.', ['How did you validate the problem?', 'What did the launch metrics show?'], 240, 'Problem framing, user evidence, scoping decisions and measured outcome.'],
+    ['You have three high-priority requests and capacity for one. How do you choose?', ['How do you say no to the others?'], 180, 'Explicit criteria (impact, effort, strategy), data, and stakeholder communication.'],
+    ['Which metrics would you use to judge the success of a new onboarding flow?', ['What guardrail metrics would you watch?'], 180, 'North-star vs input metrics, leading indicators, guardrails and experiment design.'],
+    ['Describe a time engineering pushed back on your plan.', ['What did you change?'], 180, 'Listens, understands constraints, finds a trade-off, keeps trust.'],
+  ]),
+  builtIn('sales-representative', 'Sales representative', 'Sales Representative', InterviewType.BEHAVIORAL, 'Pipeline, objection handling and motivation for sales roles.', [
+    ['Walk me through the biggest deal you closed.', ['Who were the decision makers?', 'What almost lost you the deal?'], 180, 'Clear sales process, stakeholder mapping, numbers and their personal contribution.'],
+    ['A prospect says your product is too expensive. What do you say?', ['What if they still say no?'], 120, 'Explores value and the real objection before discounting.'],
+    ['How do you build and manage your pipeline each week?', ['How do you decide which deals to drop?'], 180, 'Concrete routine, qualification criteria and forecasting discipline.'],
+    ['Tell me about a quarter where you missed your target.', ['What did you change the next quarter?'], 180, 'Takes ownership, diagnoses causes, shows adjustment and recovery.'],
+  ]),
+  builtIn('data-scientist', 'Data scientist', 'Data Scientist', InterviewType.TECHNICAL, 'Modelling, experimentation and communication for data roles.', [
+    ['Tell me about a model you shipped to production.', ['How did you monitor it after launch?', 'What baseline did you compare against?'], 240, 'Problem framing, baseline, evaluation, deployment and monitoring for drift.'],
+    ['How would you design an A/B test for a new pricing page?', ['How do you pick the sample size?', 'What could invalidate the result?'], 240, 'Hypothesis, metric, power analysis, randomisation unit and pitfalls like peeking.'],
+    ['How do you explain a complex result to a non-technical stakeholder?', ['Give me an example.'], 180, 'Leads with the decision, uses plain language and visuals, states uncertainty.'],
+    ['Your model performs well offline but poorly in production. What do you check?', [], 180, 'Data leakage, training-serving skew, distribution shift and feedback loops.'],
+  ]),
+];
+
+// Accepts 90, "90", "90s", "5m", "5 min" or "1m30s"
+const parseTimeLimit = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) && value > 0 ? Math.round(value) : null;
+  if (typeof value !== 'string') return null;
+  const match = value.trim().toLowerCase().match(/^(?:(\d+)\s*m(?:in)?\s*)?(?:(\d+)\s*s?(?:ec)?)?$/);
+  if (!match || (!match[1] && !match[2])) return null;
+  const seconds = Number(match[1] ?? 0) * 60 + Number(match[2] ?? 0);
+  return seconds > 0 ? seconds : null;
+};
+
+const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+const textList = (value: unknown): string[] =>
+  (Array.isArray(value) ? value : typeof value === 'string' ? [value] : []).map(text).filter(Boolean);
+
+const slug = (value: string) => value.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-|-$/g, '') || 'set';
+
+function toQuestion(raw: unknown, setId: string, index: number): BankQuestion {
+  const entry = (typeof raw === 'string' ? { question: raw } : raw) as Record<string, unknown> | null;
+  const questionText = text(entry?.question ?? entry?.text);
+  if (!questionText) throw new Error(`Question ${index + 1} has no text.`);
+  return {
+    id: `${setId}-q${index + 1}`,
+    text: questionText,
+    followUps: textList(entry.followUps ?? entry.follow_ups ?? entry.followups),
+    timeLimitSec: parseTimeLimit(entry.timeLimit ?? entry.time_limit ?? entry.timeLimitSec),
+    rubric: textList(entry.rubric).join(' '),
+  };
+}
+
+/** Validates an imported question set; `fallbackTitle` is used when the file has none. */
+export function toQuestionSet(raw: unknown, fallbackTitle: string): QuestionSet {
+  const data = (Array.isArray(raw) ? { questions: raw } : raw) as Record<string, unknown> | null;
+  if (!data || typeof data !== 'object' || !Array.isArray(data.questions)) {
+    throw new Error('The file needs a "questions" list.');
+  }
+  if (data.questions.length === 0) throw new Error('The question list is empty.');
+  if (data.questions.length > MAX_QUESTIONS) throw new Error(`A question set can have at most ${MAX_QUESTIONS} questions.`);
+
+  const title = text(data.title) || fallbackTitle;
+  const id = `custom-${slug(title)}-${Date.now().toString(36)}`;
+  const interviewType = Object.values(InterviewType).includes(data.interviewType as InterviewType) ? data.interviewType as InterviewType : null;
+  return {
+    id,
+    title,
+    role: text(data.role) || 'Any role',
+    interviewType,
+    description: text(data.description),
+    questions: data.questions.map((q, i) => toQuestion(q, id, i)),
+    builtIn: false,
+  };
+}
+
+/** Reads a team-authored question set from a .json, .yaml or .yml file. */
+export async function readQuestionSetFile(file: File): Promise<QuestionSet> {
+  const source = await file.text();
+  const fallbackTitle = file.name.replace(/\.(json|ya?ml)$/i, '');
+  let raw: unknown;
+  try {
+    if (/\.json$/i.test(file.name)) {
+      raw = JSON.parse(source);
+    } else {
+      const { parse } = await import('yaml');
+      raw = parse(source);
+    }
+  } catch (err) {
+    throw new Error(`Could not parse ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return toQuestionSet(raw, fallbackTitle);
+}
+
+export function loadCustomQuestionSets(): QuestionSet[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const stored = raw ? JSON.parse(raw) : [];
+    return Array.isArray(stored) ? stored.filter((s: QuestionSet) => s && typeof s.id === 'string' && Array.isArray(s.questions)) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveCustomQuestionSets(sets: QuestionSet[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sets));
+  } catch (err) {
+    console.warn('Could not persist question sets:', err);
+  }
+}
+
+export function addCustomQuestionSet(set: QuestionSet): QuestionSet[] {
+  const sets = [...loadCustomQuestionSets(), set];
+  saveCustomQuestionSets(sets);
+  return sets;
+}
+
+export function deleteCustomQuestionSet(id: string): QuestionSet[] {
+  const sets = loadCustomQuestionSets().filter(s => s.id !== id);
+  saveCustomQuestionSets(sets);
+  return sets;
+}
+
+export function getQuestionSet(id: string | null): QuestionSet | null {
+  if (!id) return null;
+  return BUILT_IN_QUESTION_SETS.find(s => s.id === id) ?? loadCustomQuestionSets().find(s => s.id === id) ?? null;
+}
+
+/**
+ * The `getNextQuestion` response for the question at `index` in the plan.
+ * Past the end it tells the interviewer to wrap up instead.
+ */
+export function nextQuestionResponse(call: LiveToolCall, plan: QuestionSet, index: number): LiveToolResponse {
+  const question = plan.questions[index];
+  if (!question) {
+    return {
+      id: call.id,
+      name: call.name,
+      result: { done: true, instruction: 'All planned questions have been asked. Wrap up and invite the candidate to end the interview.' },
+    };
+  }
+  return {
+    id: call.id,
+    name: call.name,
+    result: {
+      done: false,
+      number: index + 1,
+      total: plan.questions.length,
+      question: question.text,
+      followUpHints: question.followUps,
+      timeLimitSeconds: question.timeLimitSec,
+      rubric: question.rubric,
+    },
+  };
+}
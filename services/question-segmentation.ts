@@ -0,0 +1,97 @@
+import { FeedbackMessage, QuestionMarker, QuestionTurn, TranscriptionEntry } from '../types';
+
+/**
+ * Infers question markers from the interviewer's transcript for sessions where
+ * the model never called `markQuestion`: every interviewer turn that ends in a
+ * question starts a new top-level question.
+ */
+export function inferQuestionMarkers(transcriptions: TranscriptionEntry[]): QuestionMarker[] {
+  return transcriptions
+    .filter(t => t.role === 'model' && t.text.includes('?'))
+    .map(t => {
+      const sentences = t.text.match(/[^.!?]*\?/g) ?? [t.text];
+      return { question: sentences[sentences.length - 1].trim(), isFollowUp: false, timestamp: t.timestamp };
+    });
+}
+
+const newTurn = (marker: QuestionMarker, index: number): QuestionTurn => ({
+  id: `q${index + 1}-${marker.timestamp}`,
+  question: marker.question,
+  answer: '',
+  startedAt: marker.timestamp,
+  endedAt: null,
+  entries: [],
+  feedbackIds: [],
+  followUps: [],
+});
+
+/**
+ * Groups a flat transcript into interviewer questions and the candidate's
+ * answers. Transcript entries are only stamped when a turn completes, so a
+ * marker reported during an interviewer turn attaches to the next interviewer
+ * entry; candidate entries before it still answer the previous question.
+ */
+export function segmentQuestions(
+  transcriptions: TranscriptionEntry[],
+  feedbacks: FeedbackMessage[],
+  markers: QuestionMarker[],
+  endedAt: number | null = null,
+): QuestionTurn[] {
+  const sortedMarkers = [...(markers.length ? markers : inferQuestionMarkers(transcriptions))]
+    .sort((a, b) => a.timestamp - b.timestamp);
+  const turns: QuestionTurn[] = [];
+  // Every turn in order of asking, top-level and follow-up alike
+  const sequence: QuestionTurn[] = [];
+  let current: QuestionTurn | null = null;
+  let markerIndex = 0;
+
+  const open = (marker: QuestionMarker) => {
+    const turn = newTurn(marker, sequence.length);
+    if (current) current.endedAt = marker.timestamp;
+    const parent = turns[turns.length - 1];
+    if (marker.isFollowUp && parent) {
+      parent.followUps.push(turn);
+    } else {
+      turns.push(turn);
+    }
+    sequence.push(turn);
+    current = turn;
+  };
+
+  for (const entry of transcriptions) {
+    if (entry.role === 'model') {
+      while (markerIndex < sortedMarkers.length && sortedMarkers[markerIndex].timestamp <= entry.timestamp) {
+        open(sortedMarkers[markerIndex++]);
+      }
+    }
+    if (!current) continue;
+    const turn: QuestionTurn = current;
+    turn.entries.push(entry);
+    if (entry.role === 'user') {
+      turn.answer = turn.answer ? `${turn.answer} ${entry.text.trim()}` : entry.text.trim();
+    }
+  }
+  // Questions asked in a turn that has not completed yet
+  while (markerIndex < sortedMarkers.length) {
+    open(sortedMarkers[markerIndex++]);
+  }
+  if (current && endedAt !== null) (current as QuestionTurn).endedAt = endedAt;
+
+  for (const fb of feedbacks) {
+    const owner = [...sequence].reverse().find(t => t.startedAt <= fb.timestamp);
+    owner?.feedbackIds.push(fb.id);
+  }
+
+  return turns;
+}
+
+/** Transcript entries not attached to any question (introductions and small talk). */
+export function preambleEntries(transcriptions: TranscriptionEntry[], turns: QuestionTurn[]): TranscriptionEntry[] {
+  const assigned = new Set<TranscriptionEntry>();
+  const collect = (turn: QuestionTurn) => {
+    turn.entries.forEach(e => assigned.add(e));
+    turn.followUps.forEach(collect);
+  };
+  turns.forEach(collect);
+  return transcriptions.filter(t => !assigned.has(t));
+}
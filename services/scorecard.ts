@@ -0,0 +1,61 @@
+import { InterviewScorecard, QuestionRating, ScoreDimension } from '../types';
+
+export const MAX_SCORE = 5;
+
+export const SCORE_DIMENSION_LABELS: Record<ScoreDimension, string> = {
+  [ScoreDimension.PACE]: 'Pace',
+  [ScoreDimension.CLARITY]: 'Clarity',
+  [ScoreDimension.STRUCTURE]: 'Structure',
+  [ScoreDimension.RELEVANCE]: 'Relevance',
+  [ScoreDimension.NON_VERBAL]: 'Non-verbal',
+};
+
+const clampScore = (value: unknown): number => {
+  const n = typeof value === 'number' ? value : Number(value);
+  if (!Number.isFinite(n)) return 0;
+  return Math.min(MAX_SCORE, Math.max(0, Math.round(n * 10) / 10));
+};
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && v.trim() !== '').map(v => v.trim()) : [];
+
+const record = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+
+const trimmedString = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+/** Coerces the raw `submitSummary` tool-call arguments into a scorecard, stamped with when the call arrived. */
+export function parseScorecard(raw: unknown, createdAt: number): InterviewScorecard {
+  const args = record(raw);
+  const rawScores = record(args.scores);
+  const scores = Object.values(ScoreDimension).reduce((acc, dim) => {
+    acc[dim] = clampScore(rawScores[dim]);
+    return acc;
+  }, {} as Record<ScoreDimension, number>);
+
+  const questionRatings: QuestionRating[] = Array.isArray(args.questionRatings)
+    ? args.questionRatings
+        .map(record)
+        .filter(q => typeof q.question === 'string')
+        .map(q => ({
+          question: trimmedString(q.question),
+          rating: clampScore(q.rating),
+          comment: trimmedString(q.comment),
+        }))
+    : [];
+
+  return {
+    strengths: toStringList(args.strengths),
+    improvements: toStringList(args.improvements),
+    scores,
+    questionRatings,
+    overallComment: trimmedString(args.overallComment),
+    createdAt,
+  };
+}
+
+/** Mean of the observed dimensions; a 0 marks one the interviewer could not observe, e.g. non-verbal with the camera off. */
+export function averageScore(scorecard: InterviewScorecard): number {
+  const values = Object.values(scorecard.scores).filter(v => v > 0);
+  return values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { InterviewType, Seniority, StoredSession } from '../types';
+import { DEFAULT_INTERVIEW_CONFIG } from './interview-config';
+import { EXPORT_SCHEMA, parseSessionJson, toJson } from './session-export';
+
+const session: StoredSession = {
+  id: 's1',
+  title: 'Product Manager · Behavioral',
+  config: { ...DEFAULT_INTERVIEW_CONFIG, jobRole: 'Product Manager', interviewType: InterviewType.BEHAVIORAL },
+  transcriptions: [],
+  feedbacks: [],
+  requirements: [],
+  scorecard: null,
+  recording: { mimeType: 'video/webm', startedAt: 1000, durationMs: 60000, sizeBytes: 1024 },
+  startedAt: 1000,
+  endedAt: 61000,
+  updatedAt: 61000,
+};
+
+const exportOf = (fields: Record<string, unknown>) =>
+  JSON.stringify({ schema: EXPORT_SCHEMA, version: 1, exportedAt: 0, session: { ...session, ...fields } });
+
+describe('parseSessionJson', () => {
+  it('round-trips an export, minus the recording', () => {
+    expect(parseSessionJson(toJson(session))).toEqual({ ...session, recording: null });
+  });
+
+  it('fills in a config from an older or hand-edited file', () => {
+    const parsed = parseSessionJson(exportOf({ config: { jobRole: 'Designer', seniority: 'wizard', language: 'xx' } }));
+    expect(parsed.config).toMatchObject({ jobRole: 'Designer', seniority: DEFAULT_INTERVIEW_CONFIG.seniority, language: 'en-US' });
+    expect(parseSessionJson(exportOf({ config: undefined })).config).toEqual(DEFAULT_INTERVIEW_CONFIG);
+  });
+
+  it('titles untitled sessions after their config', () => {
+    const parsed = parseSessionJson(exportOf({ title: '  ', config: { jobRole: 'Designer', seniority: Seniority.SENIOR, interviewType: InterviewType.TECHNICAL } }));
+    expect(parsed.title).toBe('Designer · Technical');
+  });
+
+  it('rejects sessions without a usable start time', () => {
+    expect(() => parseSessionJson(exportOf({ startedAt: 'yesterday' }))).toThrow('start time');
+    expect(() => parseSessionJson(exportOf({ startedAt: undefined }))).toThrow('start time');
+  });
+});
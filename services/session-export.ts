@@ -0,0 +1,302 @@
+import { AnswerAnalysis, FeedbackMessage, InterviewScorecard, ScoreDimension, StoredSession, TranscriptionEntry } from '../types';
+import { INTERVIEW_TYPE_LABELS, normalizeInterviewConfig, SENIORITY_LABELS } from './interview-config';
+import { MAX_SCORE, SCORE_DIMENSION_LABELS } from './scorecard';
+import { countWords } from './speech-analytics';
+import { normalizeFeedbackCategories } from './tool-calls';
+
+export const EXPORT_SCHEMA = 'interview-coach/session';
+export const EXPORT_SCHEMA_VERSION = 1;
+
+export type ExportFormat = 'markdown' | 'json' | 'html' | 'srt' | 'vtt';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  markdown: 'Markdown',
+  json: 'JSON',
+  html: 'Printable Report',
+  srt: 'SRT Captions',
+  vtt: 'WebVTT Captions',
+};
+
+interface SessionExportFile {
+  schema: typeof EXPORT_SCHEMA;
+  version: number;
+  exportedAt: number;
+  session: StoredSession;
+}
+
+// Spoken English averages around 150 words per minute
+const WORDS_PER_SECOND = 2.5;
+const MIN_CAPTION_MS = 1000;
+
+const speakerName = (entry: TranscriptionEntry) =>
+  entry.role === 'user' ? 'Candidate' : 'Interviewer';
+
+const formatClock = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const fileSlug = (session: StoredSession) =>
+  session.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'interview-session';
+
+function describeConfig(session: StoredSession): string {
+  const { config } = session;
+  return `${SENIORITY_LABELS[config.seniority]} ${config.jobRole} · ${INTERVIEW_TYPE_LABELS[config.interviewType]}`;
+}
+
+export function toMarkdown(session: StoredSession): string {
+  const lines: string[] = [
+    `# ${session.title}`,
+    '',
+    `- **Interview:** ${describeConfig(session)}`,
+    `- **Started:** ${new Date(session.startedAt).toLocaleString()}`,
+  ];
+  if (session.endedAt) lines.push(`- **Ended:** ${new Date(session.endedAt).toLocaleString()}`);
+
+  if (session.scorecard) {
+    lines.push('', '## Summary', '');
+    lines.push(...scorecardMarkdown(session.scorecard));
+  }
+
+  if (session.feedbacks.length) {
+    lines.push('', '## Coaching Feedback', '');
+    for (const fb of [...session.feedbacks].sort((a, b) => a.timestamp - b.timestamp)) {
+      lines.push(`- \`${formatClock(fb.timestamp)}\` **${fb.category}** (${fb.sentiment}${fb.severity ? `, ${fb.severity}` : ''}): ${fb.message}`);
+    }
+  }
+
+  if (session.answerAnalyses?.length) {
+    lines.push('', '## Answer Structure', '');
+    for (const analysis of session.answerAnalyses) lines.push(...analysisMarkdown(analysis));
+  }
+
+  lines.push('', '## Transcript', '');
+  for (const entry of session.transcriptions) {
+    lines.push(`**${speakerName(entry)}** \`${formatClock(entry.timestamp)}\``, '', entry.text.trim(), '');
+  }
+
+  return lines.join('\n').trimEnd() + '\n';
+}
+
+function scorecardMarkdown(scorecard: InterviewScorecard): string[] {
+  const lines: string[] = [];
+  if (scorecard.overallComment) lines.push(scorecard.overallComment, '');
+  lines.push('| Dimension | Score |', '| --- | --- |');
+  for (const dim of Object.values(ScoreDimension)) {
+    lines.push(`| ${SCORE_DIMENSION_LABELS[dim]} | ${scorecard.scores[dim]} / ${MAX_SCORE} |`);
+  }
+  if (scorecard.strengths.length) lines.push('', '### Strengths', '', ...scorecard.strengths.map(s => `- ${s}`));
+  if (scorecard.improvements.length) lines.push('', '### Areas for Improvement', '', ...scorecard.improvements.map(s => `- ${s}`));
+  if (scorecard.questionRatings.length) {
+    lines.push('', '### Questions', '');
+    for (const q of scorecard.questionRatings) {
+      lines.push(`- **${q.question}** — ${q.rating} / ${MAX_SCORE}${q.comment ? `: ${q.comment}` : ''}`);
+    }
+  }
+  return lines;
+}
+
+function analysisMarkdown(analysis: AnswerAnalysis): string[] {
+  const lines = [`### ${analysis.question}`, ''];
+  for (const segment of analysis.star) {
+    const label = segment.part.charAt(0).toUpperCase() + segment.part.slice(1);
+    const body = segment.present ? `"${segment.quote}"` : '_missing_';
+    lines.push(`- **${label}:** ${body}${segment.note ? ` — ${segment.note}` : ''}`);
+  }
+  const metrics = analysis.impact.metrics.length ? ` (${analysis.impact.metrics.join(', ')})` : '';
+  lines.push(`- **Impact:** ${analysis.impact.quantified ? 'quantified' : 'not quantified'}${metrics}${analysis.impact.suggestion ? ` — ${analysis.impact.suggestion}` : ''}`);
+  if (analysis.rewrite) lines.push('', `> ${analysis.rewrite.replace(/\n/g, '\n> ')}`);
+  lines.push('');
+  return lines;
+}
+
+export function toJson(session: StoredSession): string {
+  const file: SessionExportFile = {
+    schema: EXPORT_SCHEMA,
+    version: EXPORT_SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    session,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const feedbackRow = (fb: FeedbackMessage) =>
+  `<li class="fb ${fb.sentiment}"><span class="time">${formatClock(fb.timestamp)}</span><strong>${escapeHtml(fb.category)}</strong> ${escapeHtml(fb.message)}</li>`;
+
+/** Builds a standalone, print-friendly HTML report (print to PDF from the browser). */
+export function toHtmlReport(session: StoredSession): string {
+  const scorecard = session.scorecard;
+  const scoreRows = scorecard
+    ? Object.values(ScoreDimension)
+        .map(dim => `<tr><td>${SCORE_DIMENSION_LABELS[dim]}</td><td>${scorecard.scores[dim]} / ${MAX_SCORE}</td></tr>`)
+        .join('')
+    : '';
+  const list = (items: string[]) => `<ul>${items.map(i => `<li>${escapeHtml(i)}</li>`).join('')}</ul>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(session.title)}</title>
+<style>
+  body { font-family: 'Inter', system-ui, sans-serif; color: #0f172a; max-width: 760px; margin: 40px auto; padding: 0 24px; line-height: 1.5; }
+  h1 { margin-bottom: 4px; }
+  .meta { color: #64748b; font-size: 14px; margin-bottom: 24px; }
+  h2 { border-bottom: 1px solid #e2e8f0; padding-bottom: 4px; margin-top: 32px; }
+  table { border-collapse: collapse; }
+  td { padding: 4px 16px 4px 0; }
+  ul { padding-left: 20px; }
+  .fb { list-style: none; margin-left: -20px; padding: 6px 10px; border-left: 4px solid #94a3b8; margin-bottom: 6px; }
+  .fb.positive { border-color: #10b981; }
+  .fb.improvement { border-color: #f59e0b; }
+  .time { color: #94a3b8; font-size: 12px; margin-right: 8px; }
+  .turn { margin-bottom: 12px; page-break-inside: avoid; }
+  .speaker { font-weight: 600; font-size: 13px; color: #475569; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(session.title)}</h1>
+<div class="meta">${escapeHtml(describeConfig(session))} · ${new Date(session.startedAt).toLocaleString()}</div>
+${scorecard ? `<h2>Summary</h2>
+${scorecard.overallComment ? `<p>${escapeHtml(scorecard.overallComment)}</p>` : ''}
+<table>${scoreRows}</table>
+${scorecard.strengths.length ? `<h3>Strengths</h3>${list(scorecard.strengths)}` : ''}
+${scorecard.improvements.length ? `<h3>Areas for Improvement</h3>${list(scorecard.improvements)}` : ''}
+${scorecard.questionRatings.length ? `<h3>Questions</h3>${list(scorecard.questionRatings.map(q => `${q.question} — ${q.rating} / ${MAX_SCORE}${q.comment ? `: ${q.comment}` : ''}`))}` : ''}` : ''}
+${session.feedbacks.length ? `<h2>Coaching Feedback</h2>
+<ul>${[...session.feedbacks].sort((a, b) => a.timestamp - b.timestamp).map(feedbackRow).join('')}</ul>` : ''}
+<h2>Transcript</h2>
+${session.transcriptions.map(t => `<div class="turn"><div class="speaker">${speakerName(t)} <span class="time">${formatClock(t.timestamp)}</span></div><div>${escapeHtml(t.text)}</div></div>`).join('\n')}
+</body>
+</html>
+`;
+}
+
+export interface Caption {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Transcript entries are stamped when their turn completes, so each caption
+ * ends at its timestamp and starts where the previous one ended, extended
+ * backwards by an estimate of how long the text takes to say. Times are in
+ * milliseconds relative to `originMs`.
+ */
+export function buildCaptions(transcriptions: TranscriptionEntry[], originMs: number): Caption[] {
+  const captions: Caption[] = [];
+  let previousEnd = 0;
+  for (const entry of transcriptions) {
+    const text = entry.text.trim();
+    if (!text) continue;
+    const spokenMs = Math.max(MIN_CAPTION_MS, (countWords(text) / WORDS_PER_SECOND) * 1000);
+    const stampedEnd = Math.max(0, entry.timestamp - originMs);
+    const start = Math.max(previousEnd, stampedEnd - spokenMs);
+    const end = Math.max(stampedEnd, start + spokenMs);
+    captions.push({ start, end, text: `${speakerName(entry)}: ${text}` });
+    previousEnd = end;
+  }
+  return captions;
+}
+
+const formatCaptionTime = (ms: number, separator: ',' | '.') => {
+  const total = Math.round(ms);
+  const h = Math.floor(total / 3600000);
+  const m = Math.floor((total % 3600000) / 60000);
+  const s = Math.floor((total % 60000) / 1000);
+  const pad = (n: number, width = 2) => n.toString().padStart(width, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(total % 1000, 3)}`;
+};
+
+export function toSrt(session: StoredSession): string {
+  return buildCaptions(session.transcriptions, session.startedAt)
+    .map((c, i) => `${i + 1}\n${formatCaptionTime(c.start, ',')} --> ${formatCaptionTime(c.end, ',')}\n${c.text}\n`)
+    .join('\n');
+}
+
+export function toVtt(session: StoredSession): string {
+  const cues = buildCaptions(session.transcriptions, session.startedAt)
+    .map(c => `${formatCaptionTime(c.start, '.')} --> ${formatCaptionTime(c.end, '.')}\n${c.text}\n`)
+    .join('\n');
+  return `WEBVTT\n\n${cues}`;
+}
+
+const FORMAT_FILES: Record<ExportFormat, { extension: string; mimeType: string; render: (s: StoredSession) => string }> = {
+  markdown: { extension: 'md', mimeType: 'text/markdown', render: toMarkdown },
+  json: { extension: 'json', mimeType: 'application/json', render: toJson },
+  html: { extension: 'html', mimeType: 'text/html', render: toHtmlReport },
+  srt: { extension: 'srt', mimeType: 'application/x-subrip', render: toSrt },
+  vtt: { extension: 'vtt', mimeType: 'text/vtt', render: toVtt },
+};
+
+export function downloadFile(filename: string, content: string | Blob, mimeType: string): void {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function exportSession(session: StoredSession, format: ExportFormat): void {
+  const { extension, mimeType, render } = FORMAT_FILES[format];
+  const content = render(session);
+
+  if (format === 'html') {
+    // Open the report and hand it to the browser's print dialog for PDF output
+    const report = window.open('', '_blank');
+    if (report) {
+      report.document.write(content);
+      report.document.close();
+      report.focus();
+      report.print();
+      return;
+    }
+  }
+  downloadFile(`${fileSlug(session)}.${extension}`, content, mimeType);
+}
+
+/** Parses a JSON export back into a session. Throws if the file is not a supported export. */
+export function parseSessionJson(text: string): StoredSession {
+  let file: Partial<SessionExportFile>;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (file.schema !== EXPORT_SCHEMA || typeof file.version !== 'number') {
+    throw new Error('The file is not an interview session export.');
+  }
+  if (file.version > EXPORT_SCHEMA_VERSION) {
+    throw new Error(`This export was made by a newer version of the app (v${file.version}).`);
+  }
+
+  const session = file.session;
+  if (!session || typeof session.id !== 'string' || !Array.isArray(session.transcriptions) || !Array.isArray(session.feedbacks)) {
+    throw new Error('The export is missing session data.');
+  }
+  if (typeof session.startedAt !== 'number' || !Number.isFinite(session.startedAt)) {
+    throw new Error('The export is missing the session start time.');
+  }
+
+  const config = normalizeInterviewConfig(session.config ?? {});
+  const endedAt = typeof session.endedAt === 'number' && Number.isFinite(session.endedAt) ? session.endedAt : null;
+  return {
+    ...session,
+    title: typeof session.title === 'string' && session.title.trim()
+      ? session.title.trim()
+      : `${config.jobRole} · ${INTERVIEW_TYPE_LABELS[config.interviewType]}`,
+    config,
+    feedbacks: normalizeFeedbackCategories(session.feedbacks),
+    requirements: Array.isArray(session.requirements) ? session.requirements : [],
+    scorecard: session.scorecard ?? null,
+    // The video stays in the exporting browser's storage; a reference to it would not resolve here
+    recording: null,
+    endedAt,
+    updatedAt: typeof session.updatedAt === 'number' && Number.isFinite(session.updatedAt) ? session.updatedAt : endedAt ?? session.startedAt,
+  };
+}
@@ -0,0 +1,59 @@
+const VIDEO_MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+const AUDIO_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm'];
+const TIMESLICE_MS = 1000;
+
+export interface SessionRecorder {
+  startedAt: number;
+  mimeType: string;
+  /** Stops recording and resolves with the finished WebM file. */
+  stop: () => Promise<Blob>;
+}
+
+interface RecordingSources {
+  micStream: MediaStream;
+  videoStream: MediaStream | null;
+  /** Node carrying the interviewer's playback audio; its context also mixes the mic. */
+  interviewerOutput: AudioNode;
+}
+
+const pickMimeType = (hasVideo: boolean) =>
+  (hasVideo ? VIDEO_MIME_TYPES : AUDIO_MIME_TYPES).find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+
+/**
+ * Records the candidate's camera plus a mix of their mic and the interviewer's
+ * output audio into a single local WebM via MediaRecorder.
+ */
+export function startSessionRecording({ micStream, videoStream, interviewerOutput }: RecordingSources): SessionRecorder {
+  const ctx = interviewerOutput.context as AudioContext;
+  const mixDestination = ctx.createMediaStreamDestination();
+  const micSource = ctx.createMediaStreamSource(micStream);
+  micSource.connect(mixDestination);
+  interviewerOutput.connect(mixDestination);
+
+  const videoTracks = videoStream?.getVideoTracks() ?? [];
+  const stream = new MediaStream([...videoTracks, ...mixDestination.stream.getAudioTracks()]);
+  const mimeType = pickMimeType(videoTracks.length > 0);
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  recorder.start(TIMESLICE_MS);
+
+  const stop = () => new Promise<Blob>((resolve) => {
+    const finish = () => {
+      micSource.disconnect();
+      interviewerOutput.disconnect(mixDestination);
+      resolve(new Blob(chunks, { type: recorder.mimeType || mimeType || 'video/webm' }));
+    };
+    if (recorder.state === 'inactive') {
+      finish();
+      return;
+    }
+    recorder.onstop = finish;
+    recorder.stop();
+  });
+
+  return { startedAt: Date.now(), mimeType: recorder.mimeType || mimeType, stop };
+}
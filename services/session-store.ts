@@ -0,0 +1,95 @@
+import { StoredSession } from '../types';
+import { normalizeFeedbackCategories } from './tool-calls';
+
+const DB_NAME = 'interview-coach';
+const DB_VERSION = 2;
+const SESSION_STORE = 'sessions';
+// Recordings are kept apart from session records so listing sessions stays cheap
+const RECORDING_STORE = 'recordings';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          const store = db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+          store.createIndex('startedAt', 'startedAt');
+        }
+        if (!db.objectStoreNames.contains(RECORDING_STORE)) {
+          db.createObjectStore(RECORDING_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName: string = SESSION_STORE,
+): Promise<T> {
+  const db = await openDb();
+  const tx = db.transaction(storeName, mode);
+  return promisify(run(tx.objectStore(storeName)));
+}
+
+// Sessions saved before the fixed feedback taxonomy carry free-form categories
+const migrate = (session: StoredSession): StoredSession => ({ ...session, feedbacks: normalizeFeedbackCategories(session.feedbacks) });
+
+/** Returns all saved sessions, most recent first. */
+export async function listSessions(): Promise<StoredSession[]> {
+  const sessions = await withStore<StoredSession[]>('readonly', store => store.getAll());
+  return sessions.map(migrate).sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export async function getSession(id: string): Promise<StoredSession | null> {
+  const session = await withStore<StoredSession | undefined>('readonly', store => store.get(id));
+  return session ? migrate(session) : null;
+}
+
+export async function saveSession(session: StoredSession): Promise<void> {
+  await withStore('readwrite', store => store.put(session));
+}
+
+export async function renameSession(id: string, title: string): Promise<StoredSession | null> {
+  const session = await getSession(id);
+  if (!session) return null;
+  const renamed = { ...session, title, updatedAt: Date.now() };
+  await saveSession(renamed);
+  return renamed;
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+  await deleteRecording(id);
+}
+
+export async function saveRecording(sessionId: string, blob: Blob): Promise<void> {
+  await withStore('readwrite', store => store.put(blob, sessionId), RECORDING_STORE);
+}
+
+export async function getRecording(sessionId: string): Promise<Blob | null> {
+  const blob = await withStore<Blob | undefined>('readonly', store => store.get(sessionId), RECORDING_STORE);
+  return blob ?? null;
+}
+
+export async function deleteRecording(sessionId: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(sessionId), RECORDING_STORE);
+}
@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import { FeedbackSource, Sentiment, TranscriptionEntry } from '../types';
+import { chunks, concat, FIXTURE_SAMPLE_RATE, silence, tone, TRANSCRIPTS } from '../fixtures/audio';
+import { computeRms, countFillerWords, countWords, createSpeechAnalyzer, rmsToDb } from './speech-analytics';
+
+const answer = (text: string): TranscriptionEntry => ({ role: 'user', text, timestamp: 0 });
+
+// Feeds a signal in the 100 ms chunks the mic pipeline delivers
+const play = (analyzer: ReturnType<typeof createSpeechAnalyzer>, samples: Float32Array) =>
+  chunks(samples, 100).forEach(chunk => analyzer.processAudio(chunk, FIXTURE_SAMPLE_RATE));
+
+const words = (count: number) => Array.from({ length: count }, () => 'word').join(' ');
+
+describe('countWords', () => {
+  it('counts words in every interview language', () => {
+    for (const { text, words } of Object.values(TRANSCRIPTS)) expect(countWords(text)).toBe(words);
+  });
+
+  it('keeps contractions whole and ignores punctuation', () => {
+    expect(countWords("I'm sure -- it's fine!")).toBe(4);
+    expect(countWords('   ')).toBe(0);
+  });
+});
+
+describe('countFillerWords', () => {
+  it('counts the fillers of the interview language', () => {
+    expect(countFillerWords(TRANSCRIPTS.en.text, 'en-US')).toBe(TRANSCRIPTS.en.fillers);
+    expect(countFillerWords(TRANSCRIPTS.es.text, 'es-ES')).toBe(TRANSCRIPTS.es.fillers);
+    expect(countFillerWords(TRANSCRIPTS.de.text, 'de-DE')).toBe(TRANSCRIPTS.de.fillers);
+    expect(countFillerWords(TRANSCRIPTS.hi.text, 'hi-IN')).toBe(TRANSCRIPTS.hi.fillers);
+  });
+
+  it('matches whole words and phrases only', () => {
+    expect(countFillerWords('I would likely umpire the game')).toBe(0);
+    expect(countFillerWords('You know, you KNOW.')).toBe(2);
+  });
+
+  it('does not count English fillers in another language', () => {
+    expect(countFillerWords(TRANSCRIPTS.en.text, 'de-DE')).toBe(0);
+  });
+
+  it('counts nothing for a language without a filler list', () => {
+    expect(countFillerWords('Euh, alors, genre, voilà.', 'fr-FR')).toBe(0);
+  });
+});
+
+describe('computeRms', () => {
+  it('is amplitude over root two for a sine', () => {
+    expect(computeRms(tone(100, 0.5))).toBeCloseTo(0.5 / Math.SQRT2, 3);
+  });
+
+  it('is zero for silence and empty input', () => {
+    expect(computeRms(silence(100))).toBe(0);
+    expect(computeRms(new Float32Array(0))).toBe(0);
+  });
+
+  it('converts to dBFS with a floor for silence', () => {
+    expect(rmsToDb(1)).toBe(0);
+    expect(rmsToDb(0.1)).toBeCloseTo(-20);
+    expect(rmsToDb(0)).toBe(-100);
+  });
+});
+
+describe('pauses and talk time', () => {
+  it('records pauses inside a turn, skipping short gaps and turn breaks', () => {
+    const analyzer = createSpeechAnalyzer();
+    play(analyzer, concat(
+      tone(500), silence(400),
+      tone(500), silence(200),
+      tone(500), silence(6000),
+      tone(500),
+    ));
+    const metrics = analyzer.getMetrics();
+    expect(metrics.averagePauseMs).toBeCloseTo(400);
+    expect(metrics.longestPauseMs).toBeCloseTo(400);
+    expect(metrics.isVoiceActive).toBe(true);
+  });
+
+  it('splits talk time between candidate and interviewer', () => {
+    const analyzer = createSpeechAnalyzer();
+    play(analyzer, concat(tone(3000), silence(1000)));
+    analyzer.addInterviewerSpeech(1000);
+    expect(analyzer.getMetrics().talkTimeRatio).toBeCloseTo(0.75);
+    expect(analyzer.getMetrics().isVoiceActive).toBe(false);
+  });
+
+  it('derives words and fillers per minute from voiced time', () => {
+    const analyzer = createSpeechAnalyzer();
+    play(analyzer, tone(30000));
+    analyzer.processTranscript(answer(TRANSCRIPTS.en.text));
+    analyzer.processTranscript({ role: 'model', text: words(50), timestamp: 0 });
+    const metrics = analyzer.getMetrics();
+    expect(metrics.wordsPerMinute).toBeCloseTo(TRANSCRIPTS.en.words * 2);
+    expect(metrics.fillerCount).toBe(TRANSCRIPTS.en.fillers);
+    expect(metrics.fillersPerMinute).toBeCloseTo(TRANSCRIPTS.en.fillers * 2);
+  });
+});
+
+describe('rule windows', () => {
+  it('waits for enough voiced speech in the window', () => {
+    const analyzer = createSpeechAnalyzer();
+    analyzer.evaluate(0);
+    play(analyzer, tone(10000));
+    analyzer.processTranscript(answer(words(100)));
+    expect(analyzer.evaluate(10000)).toEqual([]);
+  });
+
+  it('flags a fast pace once, then cools down', () => {
+    const analyzer = createSpeechAnalyzer();
+    analyzer.evaluate(0);
+    play(analyzer, tone(20000));
+    analyzer.processTranscript(answer(words(100)));
+
+    const [tip, ...rest] = analyzer.evaluate(20000);
+    expect(rest).toEqual([]);
+    expect(tip).toMatchObject({ message: 'Slow down slightly; you are speaking quickly.', sentiment: Sentiment.IMPROVEMENT, source: FeedbackSource.ANALYTICS });
+
+    play(analyzer, tone(20000));
+    analyzer.processTranscript(answer(words(100)));
+    expect(analyzer.evaluate(40000)).toEqual([]);
+  });
+
+  it('only looks at the last minute', () => {
+    const analyzer = createSpeechAnalyzer();
+    analyzer.evaluate(0);
+    play(analyzer, tone(20000));
+    analyzer.processTranscript(answer(words(100)));
+    analyzer.evaluate(20000);
+    // Past the cooldown, but the fast stretch has left the window
+    expect(analyzer.evaluate(130000)).toEqual([]);
+  });
+
+  it('praises a steady pace without fillers', () => {
+    const analyzer = createSpeechAnalyzer();
+    analyzer.evaluate(0);
+    play(analyzer, tone(30000));
+    analyzer.processTranscript(answer(words(70)));
+    expect(analyzer.evaluate(30000).map(f => f.sentiment)).toEqual([Sentiment.POSITIVE]);
+  });
+
+  it('flags quiet speech', () => {
+    const analyzer = createSpeechAnalyzer();
+    analyzer.evaluate(0);
+    play(analyzer, tone(20000, 0.035));
+    analyzer.processTranscript(answer(words(45)));
+    expect(analyzer.evaluate(20000).map(f => f.message)).toEqual(['Speak up a little; you sound quiet.']);
+  });
+
+  it('words tips in the interview language', () => {
+    const analyzer = createSpeechAnalyzer();
+    analyzer.reset('es-ES');
+    analyzer.evaluate(0);
+    play(analyzer, tone(20000));
+    analyzer.processTranscript(answer(`${words(80)} ${'o sea '.repeat(10)}`));
+    expect(analyzer.evaluate(20000).map(f => f.message)).toEqual([
+      'Habla un poco más despacio; vas rápido.',
+      'Cuidado con las muletillas; mejor haz una pausa en silencio.',
+    ]);
+  });
+
+  it('skips filler rules for a language without a filler list', () => {
+    const analyzer = createSpeechAnalyzer('fr-FR');
+    analyzer.evaluate(0);
+    play(analyzer, tone(30000));
+    analyzer.processTranscript(answer(words(70)));
+    expect(analyzer.evaluate(30000)).toEqual([]);
+  });
+});
@@ -0,0 +1,254 @@
+import { FeedbackCategory, FeedbackMessage, FeedbackSource, Sentiment, SpeechMetrics, TranscriptionEntry } from '../types';
+import { createTranslator, MessageKey } from './i18n';
+
+// Keyed by base language; a language without a list gets no filler counting or filler tips
+export const FILLER_PHRASES: Record<string, string[]> = {
+  en: ['um', 'uh', 'erm', 'like', 'you know'],
+  es: ['eh', 'em', 'este', 'o sea', 'pues', 'tipo'],
+  de: ['äh', 'ähm', 'öh', 'halt', 'sozusagen', 'quasi'],
+  hi: ['मतलब', 'यानी', 'हम्म', 'अम्म'],
+};
+
+const baseLanguage = (language: string) => language.split('-')[0].toLowerCase();
+
+export const fillerPhrasesFor = (language: string): string[] => FILLER_PHRASES[baseLanguage(language)] ?? [];
+
+// Chunks quieter than this (about -34 dBFS) are treated as silence
+const VOICE_RMS_THRESHOLD = 0.02;
+const MIN_PAUSE_MS = 300;
+// Silence longer than this ends the candidate's turn rather than counting as a pause
+const MAX_PAUSE_MS = 5000;
+const SILENCE_DB = -100;
+const LOUDNESS_SMOOTHING = 0.3;
+
+const RULE_WINDOW_MS = 60000;
+const RULE_COOLDOWN_MS = 90000;
+const MIN_WINDOW_VOICED_MS = 15000;
+
+const FAST_WPM = 170;
+const SLOW_WPM = 100;
+const MAX_FILLERS_PER_MINUTE = 5;
+// Loudness is only tracked over voiced chunks (at least about -34 dBFS), so this sits just above the threshold
+const QUIET_DB = -30;
+
+// Marks are part of the word, e.g. Devanagari vowel signs
+export function countWords(text: string): number {
+  const words = text.trim().match(/[\p{L}\p{M}\p{N}']+/gu);
+  return words ? words.length : 0;
+}
+
+export function countFillerWords(text: string, language = 'en-US'): number {
+  const normalized = ` ${text.toLowerCase().replace(/[^\p{L}\p{M}\p{N}'\s]/gu, ' ').replace(/\s+/g, ' ')} `;
+  return fillerPhrasesFor(language).reduce((total, phrase) => {
+    // Lookarounds leave the separating spaces in place, so back-to-back repeats all count
+    const matches = normalized.match(new RegExp(`(?<= )${phrase}(?= )`, 'g'));
+    return total + (matches ? matches.length : 0);
+  }, 0);
+}
+
+export function computeRms(samples: Float32Array): number {
+  if (samples.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i];
+  }
+  return Math.sqrt(sum / samples.length);
+}
+
+export function rmsToDb(rms: number): number {
+  return rms > 0 ? Math.max(SILENCE_DB, 20 * Math.log10(rms)) : SILENCE_DB;
+}
+
+interface Snapshot {
+  at: number;
+  words: number;
+  fillers: number;
+  voicedMs: number;
+}
+
+interface AnalyticsRule {
+  id: string;
+  category: FeedbackCategory;
+  sentiment: Sentiment;
+  message: MessageKey;
+  /** Left out for languages it cannot judge. */
+  needsFillers?: boolean;
+  test: (window: { wordsPerMinute: number; fillersPerMinute: number; words: number }, loudnessDb: number) => boolean;
+}
+
+const RULES: AnalyticsRule[] = [
+  {
+    id: 'pace-fast',
+    category: FeedbackCategory.PACE,
+    sentiment: Sentiment.IMPROVEMENT,
+    message: 'tipPaceFast',
+    test: w => w.wordsPerMinute > FAST_WPM,
+  },
+  {
+    id: 'pace-slow',
+    category: FeedbackCategory.PACE,
+    sentiment: Sentiment.IMPROVEMENT,
+    message: 'tipPaceSlow',
+    test: w => w.words >= 30 && w.wordsPerMinute < SLOW_WPM,
+  },
+  {
+    id: 'fillers',
+    category: FeedbackCategory.FILLER_WORDS,
+    sentiment: Sentiment.IMPROVEMENT,
+    message: 'tipFillers',
+    needsFillers: true,
+    test: w => w.fillersPerMinute > MAX_FILLERS_PER_MINUTE,
+  },
+  {
+    id: 'quiet',
+    category: FeedbackCategory.VOLUME,
+    sentiment: Sentiment.IMPROVEMENT,
+    message: 'tipQuiet',
+    test: (_, loudnessDb) => loudnessDb < QUIET_DB,
+  },
+  {
+    id: 'steady',
+    category: FeedbackCategory.PACE,
+    sentiment: Sentiment.POSITIVE,
+    message: 'tipSteady',
+    needsFillers: true,
+    test: w => w.words >= 60 && w.wordsPerMinute >= 120 && w.wordsPerMinute <= 160 && w.fillersPerMinute < 2,
+  },
+];
+
+export interface SpeechAnalyzer {
+  /** Feeds one chunk of candidate microphone PCM. */
+  processAudio: (samples: Float32Array, sampleRate: number) => void;
+  /** Feeds a completed transcript entry; only candidate entries are counted. */
+  processTranscript: (entry: TranscriptionEntry) => void;
+  /** Records interviewer playback time for the talk-time ratio. */
+  addInterviewerSpeech: (durationMs: number) => void;
+  getMetrics: () => SpeechMetrics;
+  /** Applies the threshold rules to the last minute and returns any new feedback. */
+  evaluate: (now?: number) => FeedbackMessage[];
+  /** Clears everything for a new session, optionally in another interview language. */
+  reset: (language?: string) => void;
+}
+
+/**
+ * Deterministic speech analytics over the candidate's mic PCM and transcript.
+ * Runs entirely locally, independent of whether the model chooses to coach.
+ * Fillers and tip wording follow the interview language.
+ */
+export function createSpeechAnalyzer(initialLanguage = 'en-US'): SpeechAnalyzer {
+  let language = initialLanguage;
+  let translator = createTranslator(language);
+  let words = 0;
+  let fillers = 0;
+  let voicedMs = 0;
+  let interviewerMs = 0;
+  let pauses: number[] = [];
+  let silenceRunMs = 0;
+  let inTurn = false;
+  let isVoiceActive = false;
+  let loudnessDb = SILENCE_DB;
+  let voicedLoudnessDb = SILENCE_DB;
+  let snapshots: Snapshot[] = [];
+  let lastFiredAt: Record<string, number> = {};
+
+  const perMinute = (count: number, ms: number) => (ms > 0 ? count / (ms / 60000) : 0);
+
+  const processAudio = (samples: Float32Array, sampleRate: number) => {
+    const chunkMs = (samples.length / sampleRate) * 1000;
+    const rms = computeRms(samples);
+    const db = rmsToDb(rms);
+    loudnessDb = loudnessDb === SILENCE_DB ? db : loudnessDb + (db - loudnessDb) * LOUDNESS_SMOOTHING;
+    isVoiceActive = rms >= VOICE_RMS_THRESHOLD;
+
+    if (isVoiceActive) {
+      if (inTurn && silenceRunMs >= MIN_PAUSE_MS) {
+        pauses.push(silenceRunMs);
+      }
+      silenceRunMs = 0;
+      inTurn = true;
+      voicedMs += chunkMs;
+      voicedLoudnessDb = voicedLoudnessDb === SILENCE_DB ? db : voicedLoudnessDb + (db - voicedLoudnessDb) * LOUDNESS_SMOOTHING;
+    } else {
+      silenceRunMs += chunkMs;
+      if (silenceRunMs > MAX_PAUSE_MS) inTurn = false;
+    }
+  };
+
+  const processTranscript = (entry: TranscriptionEntry) => {
+    if (entry.role !== 'user') return;
+    words += countWords(entry.text);
+    fillers += countFillerWords(entry.text, language);
+  };
+
+  const addInterviewerSpeech = (durationMs: number) => {
+    interviewerMs += Math.max(0, durationMs);
+  };
+
+  const getMetrics = (): SpeechMetrics => {
+    const totalTalkMs = voicedMs + interviewerMs;
+    return {
+      wordsPerMinute: perMinute(words, voicedMs),
+      fillerCount: fillers,
+      fillersPerMinute: perMinute(fillers, voicedMs),
+      averagePauseMs: pauses.length ? pauses.reduce((a, b) => a + b, 0) / pauses.length : 0,
+      longestPauseMs: pauses.length ? Math.max(...pauses) : 0,
+      talkTimeRatio: totalTalkMs > 0 ? voicedMs / totalTalkMs : 0,
+      loudnessDb,
+      isVoiceActive,
+    };
+  };
+
+  const evaluate = (now = Date.now()): FeedbackMessage[] => {
+    snapshots.push({ at: now, words, fillers, voicedMs });
+    // Compare against the newest snapshot that is at least one window old
+    const baselineIndex = snapshots.findIndex(s => now - s.at < RULE_WINDOW_MS) - 1;
+    const baseline = baselineIndex >= 0 ? snapshots[baselineIndex] : snapshots[0];
+    snapshots = snapshots.slice(Math.max(0, baselineIndex));
+
+    const windowVoicedMs = voicedMs - baseline.voicedMs;
+    if (windowVoicedMs < MIN_WINDOW_VOICED_MS) return [];
+
+    const window = {
+      words: words - baseline.words,
+      wordsPerMinute: perMinute(words - baseline.words, windowVoicedMs),
+      fillersPerMinute: perMinute(fillers - baseline.fillers, windowVoicedMs),
+    };
+
+    const countsFillers = fillerPhrasesFor(language).length > 0;
+    const feedback: FeedbackMessage[] = [];
+    for (const rule of RULES) {
+      if (rule.needsFillers && !countsFillers) continue;
+      if (now - (lastFiredAt[rule.id] ?? -Infinity) < RULE_COOLDOWN_MS) continue;
+      if (!rule.test(window, voicedLoudnessDb)) continue;
+      lastFiredAt[rule.id] = now;
+      feedback.push({
+        id: Math.random().toString(36).substr(2, 9),
+        category: rule.category,
+        message: translator.t(rule.message),
+        sentiment: rule.sentiment,
+        timestamp: now,
+        source: FeedbackSource.ANALYTICS,
+      });
+    }
+    return feedback;
+  };
+
+  const reset = (nextLanguage = language) => {
+    language = nextLanguage;
+    translator = createTranslator(language);
+    words = 0;
+    fillers = 0;
+    voicedMs = 0;
+    interviewerMs = 0;
+    pauses = [];
+    silenceRunMs = 0;
+    inTurn = false;
+    isVoiceActive = false;
+    loudnessDb = SILENCE_DB;
+    voicedLoudnessDb = SILENCE_DB;
+    snapshots = [];
+    lastFiredAt = {};
+  };
+
+  return { processAudio, processTranscript, addInterviewerSpeech, getMetrics, evaluate, reset };
+}
@@ -0,0 +1,186 @@
+import { InterviewConfig, InterviewType, JobRequirement, QuestionSet, SessionMode, TranscriptionEntry } from '../types';
+import { getInterviewLanguage, getPersona, SENIORITY_LABELS } from './interview-config';
+
+const INTERVIEW_TYPE_GUIDANCE: Record<InterviewType, string> = {
+  [InterviewType.BEHAVIORAL]: `- Focus on past experiences: teamwork, conflict, ownership, failure and impact.
+            - Encourage answers in Situation, Task, Action, Result form.`,
+  [InterviewType.TECHNICAL]: `- Ask about fundamentals, problem solving and hands-on experience relevant to the role.
+            - Ask the candidate to reason out loud and explain trade-offs.`,
+  [InterviewType.SYSTEM_DESIGN]: `- Pose one open-ended design problem and explore it in depth.
+            - Probe requirements, scale, data modelling, bottlenecks and trade-offs.`,
+  [InterviewType.CASE]: `- Present a realistic business scenario for the role and let the candidate drive.
+            - Probe structure, assumptions, prioritisation and the final recommendation.`,
+};
+
+function buildGroundingSection(config: InterviewConfig, requirements: JobRequirement[]): string {
+  const lines: string[] = [];
+
+  if (config.jobDescription.trim()) {
+    lines.push('Job description (provided by the candidate):', '"""', config.jobDescription.trim(), '"""', '');
+  }
+  if (requirements.length > 0) {
+    lines.push(
+      'Key requirements to probe:',
+      ...requirements.map(r => `- [${r.id}] ${r.text}`),
+      '- Over the interview, ask questions that test these requirements.',
+      '- Whenever you ask a question that targets a requirement, call markRequirementCovered with its id.',
+      '',
+    );
+  }
+  if (config.resume.trim()) {
+    lines.push(
+      'Candidate résumé:', '"""', config.resume.trim(), '"""',
+      '- Ask the candidate to go deeper on the experience they list and relate it to the role.',
+      '',
+    );
+  }
+
+  return lines.length ? `\n\n${lines.join('\n').trim()}` : '';
+}
+
+export interface SessionPromptOptions {
+  /** Restricts the session to practising a single question again. */
+  retryQuestion?: string;
+  /** Conversation so far, used to re-seed the context after a reconnect. */
+  resumeTranscript?: TranscriptionEntry[];
+  /** Question set served one question at a time through getNextQuestion. */
+  plan?: QuestionSet | null;
+  /** How the candidate takes part; defaults to video. */
+  mode?: SessionMode;
+}
+
+function buildModeSection(mode: SessionMode = 'video'): string {
+  if (mode === 'audio') {
+    return `
+
+            Audio-only session:
+            - The candidate's camera is off; you receive their voice but no video.
+            - Do not give feedback on eye contact, posture or body language.
+            - In submitSummary, score non-verbal communication 0 to mark it as not observed.`;
+  }
+  if (mode === 'text') {
+    return `
+
+            Text session:
+            - The candidate types their answers; you receive no audio or video of them.
+            - Your replies are shown as text, so keep each one short and easy to read.
+            - Treat "speaking" below as typing: wait for each typed answer before responding.
+            - Only coach on what text shows: content, structure, clarity and relevance. Do not give feedback on pace, volume, tone, filler words, eye contact, posture or body language.
+            - In submitSummary, score pace and non-verbal communication 0 to mark them as not observed.`;
+  }
+  return '';
+}
+
+function buildPlanSection(plan?: QuestionSet | null): string {
+  if (!plan) return '';
+  return `
+
+            Interview plan "${plan.title}":
+            - Follow this fixed plan of ${plan.questions.length} questions instead of inventing your own main questions.
+            - Before each main question, call getNextQuestion and ask the returned question as written.
+            - Use its follow-up hints for at most two follow-ups, and keep the answer within its time limit.
+            - Use its rubric privately for feedback and question ratings; never read it out.
+            - When getNextQuestion reports the plan is done, wrap up the interview.`;
+}
+
+function buildResumeSection(transcript?: TranscriptionEntry[]): string {
+  if (!transcript?.length) return '';
+  const lines = transcript.map(t => `${t.role === 'user' ? 'Candidate' : 'Interviewer'}: ${t.text.trim()}`);
+  return [
+    '',
+    '',
+    'Resumed session:',
+    '- The connection dropped and was restored. The conversation so far is below.',
+    '- Do not reintroduce yourself or restart; continue from the last exchange.',
+    '"""',
+    ...lines,
+    '"""',
+  ].join('\n');
+}
+
+function buildRetrySection(retryQuestion?: string): string {
+  if (!retryQuestion) return '';
+  return `
+
+            Focused retry:
+            - This is a short practice session for a single question the candidate wants to retry.
+            - After a one-line introduction, ask exactly this question: "${retryQuestion}"
+            - Ask at most two follow-ups, then tell the candidate the retry is complete.`;
+}
+
+/** Sent when the candidate ends the interview, before the socket closes. */
+export const SUMMARY_REQUEST = 'End interview. Call submitSummary with the structured performance report now.';
+
+/** Sent after a dropped connection is restored; names the language since the nudge itself is English. */
+export const buildReconnectInstruction = (config: InterviewConfig): string =>
+  `We were briefly disconnected. Continue the interview in ${getInterviewLanguage(config.language).englishName} from where we left off.`;
+
+export function buildSystemInstruction(
+  config: InterviewConfig,
+  requirements: JobRequirement[] = [],
+  options: SessionPromptOptions = {},
+): string {
+  const persona = getPersona(config.personaId);
+  const seniority = SENIORITY_LABELS[config.seniority];
+  const language = getInterviewLanguage(config.language).englishName;
+
+  return `You are a real-time interview system.
+            Language rules:
+            - Conduct the whole interview in ${language}: questions, follow-ups, coaching and the spoken summary.
+            - Expect the candidate to answer in ${language} and transcribe their speech in ${language}.
+            - If speech is unclear or in another language, ask the user to repeat in ${language}.
+            - Write every tool call's free text (feedback messages, questions, notes, summary) in ${language}; keep enum values such as categories and sentiments exactly as defined.
+
+            You have two roles:
+            1. Interviewer named ${persona.name}
+            2. Communication coach
+
+            Interview setup:
+            - Role: ${config.jobRole}
+            - Seniority: ${seniority}
+            - Interview style: ${persona.style}
+            ${INTERVIEW_TYPE_GUIDANCE[config.interviewType]}
+            - Calibrate question difficulty to a ${seniority} ${config.jobRole}.${buildGroundingSection(config, requirements)}${buildPlanSection(options.plan)}${buildRetrySection(options.retryQuestion)}${buildModeSection(options.mode)}${buildResumeSection(options.resumeTranscript)}
+
+            Interview behavior:
+            - Start with a brief introduction using your name.
+            - Ask one interview question at a time.
+            - Every time you ask a question, call markQuestion with its text; set isFollowUp when it follows up on the previous answer.
+            - Wait until the candidate finishes speaking before responding.
+            - Ask follow-up questions when answers are unclear or incomplete.
+            - Adapt questions based on previous responses.
+            - Maintain interview context throughout the session.
+
+            Live coaching behavior:
+            - Continuously observe live audio and video input.
+            - Detect clear communication signals such as:
+              - Excess filler words
+              - Speaking too fast or too slowly
+              - Answer drifting from the question
+              - Strong clarity or structure
+              - Limited eye contact or excessive movement
+            - Provide feedback ONLY when a clear signal is detected.
+            - Feedback must be under 12 words.
+            - Do not repeat the same feedback consecutively.
+            - Do not interrupt the candidate while speaking.
+
+            Feedback scope:
+            - Speech pace
+            - Clarity and structure
+            - Relevance of answers
+            - Use of filler words
+            - Basic non-verbal cues (eye direction, posture)
+
+            Restrictions:
+            - Do not provide medical, psychological, or diagnostic advice.
+            - Feedback must be skill-focused and observational.
+
+            Ending the interview:
+            - When the candidate says “end interview”, or you are asked for the summary, stop asking questions.
+            - Call submitSummary exactly once with a structured performance report including:
+              - Strengths
+              - Areas for improvement
+              - Scores from 1 to 5 for pace, clarity, structure, relevance and non-verbal communication
+              - A rating from 1 to 5 for each question asked, with a short comment
+            - Then give a brief spoken summary of the main communication observations.`;
+}
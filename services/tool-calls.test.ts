@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { FeedbackCategory } from '../types';
+import { normalizeFeedbackCategory } from './tool-calls';
+
+describe('normalizeFeedbackCategory', () => {
+  it('keeps the fixed categories whatever their spelling', () => {
+    expect(normalizeFeedbackCategory('eye_contact')).toBe(FeedbackCategory.EYE_CONTACT);
+    expect(normalizeFeedbackCategory(' Filler-Words ')).toBe(FeedbackCategory.FILLER_WORDS);
+  });
+
+  it('maps free-form categories by their words, first category first', () => {
+    expect(normalizeFeedbackCategory('Speaking Rate')).toBe(FeedbackCategory.PACE);
+    expect(normalizeFeedbackCategory('Voice Volume')).toBe(FeedbackCategory.VOLUME);
+    expect(normalizeFeedbackCategory('Non-verbal cues')).toBe(FeedbackCategory.BODY_LANGUAGE);
+    expect(normalizeFeedbackCategory('STAR method')).toBe(FeedbackCategory.STRUCTURE);
+    expect(normalizeFeedbackCategory('Leaning in')).toBe(FeedbackCategory.POSTURE);
+  });
+
+  it('does not match on word prefixes', () => {
+    expect(normalizeFeedbackCategory('Rating')).toBe(FeedbackCategory.GENERAL);
+    expect(normalizeFeedbackCategory('Learning')).toBe(FeedbackCategory.GENERAL);
+    expect(normalizeFeedbackCategory('Strong start')).toBe(FeedbackCategory.GENERAL);
+    expect(normalizeFeedbackCategory('Pacific time')).toBe(FeedbackCategory.GENERAL);
+  });
+
+  it('falls back to General', () => {
+    expect(normalizeFeedbackCategory('Overall impression')).toBe(FeedbackCategory.GENERAL);
+    expect(normalizeFeedbackCategory(42)).toBe(FeedbackCategory.GENERAL);
+  });
+});
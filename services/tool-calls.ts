@@ -0,0 +1,178 @@
+import { FeedbackCategory, FeedbackMessage, FeedbackSeverity, JobRequirement, Sentiment, TranscriptSpan, TranscriptionEntry } from '../types';
+import { LiveToolCall, LiveToolResponse } from './live-transport';
+import { categoryKey } from './feedback-grouping';
+
+export interface FeedbackArgs {
+  category: FeedbackCategory;
+  message: string;
+  sentiment: Sentiment;
+  severity?: FeedbackSeverity;
+  quote?: string;
+}
+
+export interface QuestionArgs {
+  question: string;
+  isFollowUp: boolean;
+}
+
+export interface RequirementArgs {
+  requirementId: string;
+  note?: string;
+}
+
+/** A tool call whose arguments have been checked and normalized. */
+export type ParsedToolCall =
+  | { name: 'provideFeedback'; args: FeedbackArgs }
+  | { name: 'markQuestion'; args: QuestionArgs }
+  | { name: 'submitSummary'; args: Record<string, unknown> }
+  | { name: 'markRequirementCovered'; args: RequirementArgs };
+
+export type ToolCallParseResult = { ok: true; call: ParsedToolCall } | { ok: false; error: string };
+
+// Checked in order against each word of a free-form category, so "Voice Volume" is Volume rather than Tone.
+// Whole words only: prefixes would file "Rating" under Pace and "Learning" under Posture.
+const CATEGORY_WORDS: [FeedbackCategory, string[]][] = [
+  [FeedbackCategory.FILLER_WORDS, ['filler', 'fillers', 'hedge', 'hedges', 'hedging']],
+  [FeedbackCategory.PACE, ['pace', 'pacing', 'speed', 'tempo', 'rate', 'rush', 'rushed', 'rushing']],
+  [FeedbackCategory.VOLUME, ['volume', 'loud', 'loudness', 'quiet', 'projection', 'audible', 'audibility', 'inaudible']],
+  [FeedbackCategory.EYE_CONTACT, ['eye', 'eyes', 'gaze', 'camera']],
+  [FeedbackCategory.POSTURE, ['posture', 'sitting', 'framing', 'position', 'positioning', 'lean', 'leaning', 'slouch', 'slouching']],
+  [FeedbackCategory.BODY_LANGUAGE, ['body', 'gesture', 'gestures', 'gesturing', 'hands', 'facial', 'fidget', 'fidgeting', 'smile', 'smiling', 'nonverbal']],
+  [FeedbackCategory.STRUCTURE, ['structure', 'structured', 'structural', 'star', 'organization', 'organisation', 'organized', 'organised', 'story', 'storytelling', 'flow', 'framework']],
+  [FeedbackCategory.CLARITY, ['clarity', 'clear', 'concise', 'conciseness', 'articulate', 'articulation', 'jargon', 'ramble', 'rambling', 'brevity']],
+  [FeedbackCategory.TONE, ['tone', 'voice', 'energy', 'enthusiasm', 'confidence', 'confident', 'delivery', 'warmth']],
+  [FeedbackCategory.CONTENT, ['content', 'substance', 'example', 'examples', 'relevance', 'relevant', 'detail', 'details', 'impact', 'technical', 'answer', 'answers', 'depth']],
+];
+
+const CATEGORY_BY_KEY = new Map(Object.values(FeedbackCategory).map(c => [categoryKey(c), c]));
+
+/** Maps any category the model or an old session used onto the fixed taxonomy. */
+export function normalizeFeedbackCategory(raw: unknown): FeedbackCategory {
+  if (typeof raw !== 'string') return FeedbackCategory.GENERAL;
+  const key = categoryKey(raw);
+  const exact = CATEGORY_BY_KEY.get(key);
+  if (exact) return exact;
+  const words = key.replace(/\bnon verbal\b/g, 'nonverbal').split(/[^\p{L}]+/u).filter(Boolean);
+  const match = CATEGORY_WORDS.find(([, aliases]) => words.some(w => aliases.includes(w)));
+  return match ? match[0] : FeedbackCategory.GENERAL;
+}
+
+/** Brings tips saved before the fixed taxonomy onto it. */
+export const normalizeFeedbackCategories = (feedbacks: FeedbackMessage[]): FeedbackMessage[] =>
+  feedbacks.map(fb => (Object.values(FeedbackCategory).includes(fb.category) ? fb : { ...fb, category: normalizeFeedbackCategory(fb.category) }));
+
+const SENTIMENTS = Object.values(Sentiment) as string[];
+const SEVERITIES = Object.values(FeedbackSeverity) as string[];
+
+const nonEmptyString = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
+const optionalString = (value: unknown): string | undefined => nonEmptyString(value) ?? undefined;
+
+const parseFeedback = (args: Record<string, unknown>): ToolCallParseResult => {
+  const message = nonEmptyString(args.message);
+  if (!message) return { ok: false, error: 'message must be a non-empty string' };
+  const sentiment = typeof args.sentiment === 'string' ? args.sentiment.trim().toLowerCase() : '';
+  if (!SENTIMENTS.includes(sentiment)) return { ok: false, error: `sentiment must be one of ${SENTIMENTS.join(', ')}` };
+  let severity: FeedbackSeverity | undefined;
+  if (args.severity !== undefined && args.severity !== null) {
+    const raw = typeof args.severity === 'string' ? args.severity.trim().toLowerCase() : '';
+    if (!SEVERITIES.includes(raw)) return { ok: false, error: `severity must be one of ${SEVERITIES.join(', ')}` };
+    severity = raw as FeedbackSeverity;
+  }
+  return {
+    ok: true,
+    call: {
+      name: 'provideFeedback',
+      args: {
+        category: normalizeFeedbackCategory(args.category),
+        message,
+        sentiment: sentiment as Sentiment,
+        severity,
+        quote: optionalString(args.quote),
+      },
+    },
+  };
+};
+
+const parseQuestion = (args: Record<string, unknown>): ToolCallParseResult => {
+  const question = nonEmptyString(args.question);
+  if (!question) return { ok: false, error: 'question must be a non-empty string' };
+  if (args.isFollowUp !== undefined && typeof args.isFollowUp !== 'boolean') {
+    return { ok: false, error: 'isFollowUp must be a boolean' };
+  }
+  return { ok: true, call: { name: 'markQuestion', args: { question, isFollowUp: args.isFollowUp === true } } };
+};
+
+const parseSummary = (args: Record<string, unknown>): ToolCallParseResult => {
+  if (!Array.isArray(args.strengths) || !Array.isArray(args.improvements)) {
+    return { ok: false, error: 'strengths and improvements must be arrays of strings' };
+  }
+  if (!args.scores || typeof args.scores !== 'object' || Array.isArray(args.scores)) {
+    return { ok: false, error: 'scores must be an object with a score per dimension' };
+  }
+  if (args.questionRatings !== undefined && !Array.isArray(args.questionRatings)) {
+    return { ok: false, error: 'questionRatings must be an array' };
+  }
+  // Individual values are clamped and coerced by parseScorecard
+  return { ok: true, call: { name: 'submitSummary', args } };
+};
+
+const parseRequirement = (args: Record<string, unknown>, requirements: JobRequirement[]): ToolCallParseResult => {
+  const requirementId = nonEmptyString(args.requirementId);
+  if (!requirementId) return { ok: false, error: 'requirementId must be a non-empty string' };
+  if (!requirements.some(r => r.id === requirementId)) return { ok: false, error: `unknown requirementId "${requirementId}"` };
+  return { ok: true, call: { name: 'markRequirementCovered', args: { requirementId, note: optionalString(args.note) } } };
+};
+
+/** Validates a tool call from the model against the tool schemas, normalizing what can be salvaged. */
+export function parseToolCall(call: LiveToolCall, requirements: JobRequirement[]): ToolCallParseResult {
+  const args = call.args && typeof call.args === 'object' ? call.args : {};
+  switch (call.name) {
+    case 'provideFeedback':
+      return parseFeedback(args);
+    case 'markQuestion':
+      return parseQuestion(args);
+    case 'submitSummary':
+      return parseSummary(args);
+    case 'markRequirementCovered':
+      return parseRequirement(args, requirements);
+    default:
+      return { ok: false, error: `unknown tool "${call.name}"` };
+  }
+}
+
+const ACKNOWLEDGEMENTS: Record<ParsedToolCall['name'], string> = {
+  provideFeedback: 'feedback_received',
+  markQuestion: 'question_recorded',
+  submitSummary: 'summary_received',
+  markRequirementCovered: 'coverage_recorded',
+};
+
+/** The response sent back to the model: an acknowledgement, or the validation error so it can retry. */
+export function toolCallResponse(call: LiveToolCall, requirements: JobRequirement[]): LiveToolResponse {
+  const parsed = parseToolCall(call, requirements);
+  return 'error' in parsed
+    ? { id: call.id, name: call.name, error: `invalid_arguments: ${parsed.error}` }
+    : { id: call.id, name: call.name, result: ACKNOWLEDGEMENTS[parsed.call.name] };
+}
+
+/**
+ * Finds a quote from the candidate in the transcript, newest first. Speech
+ * still in the buffer resolves to the index it will take once committed.
+ */
+export function resolveTranscriptSpan(quote: string, transcriptions: TranscriptionEntry[], pendingUserText: string): TranscriptSpan | undefined {
+  const needle = quote.toLowerCase();
+  const find = (text: string, entryIndex: number): TranscriptSpan | undefined => {
+    const start = text.toLowerCase().indexOf(needle);
+    return start === -1 ? undefined : { entryIndex, start, end: start + quote.length, quote: text.slice(start, start + quote.length) };
+  };
+  const pending = find(pendingUserText, transcriptions.length);
+  if (pending) return pending;
+  for (let i = transcriptions.length - 1; i >= 0; i--) {
+    if (transcriptions[i].role !== 'user') continue;
+    const span = find(transcriptions[i].text, i);
+    if (span) return span;
+  }
+  return undefined;
+}
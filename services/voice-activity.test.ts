@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { chunks, noise, silence, tone } from '../fixtures/audio';
+import { createVoiceActivityDetector, VadResult } from './voice-activity';
+
+const CHUNK_MS = 100;
+
+const run = (vad: ReturnType<typeof createVoiceActivityDetector>, samples: Float32Array): VadResult[] =>
+  chunks(samples, CHUNK_MS).map(chunk => vad.process(chunk, CHUNK_MS));
+
+// -50 dBFS room noise (uniform noise has RMS amplitude / √3) and a -45 dBFS voice just above it
+const ROOM_NOISE = 0.0055;
+const SOFT_VOICE = 0.008;
+
+describe('createVoiceActivityDetector', () => {
+  it('stays silent on silence', () => {
+    const results = run(createVoiceActivityDetector(), silence(1000));
+    expect(results.every(r => !r.isSpeaking && !r.started && !r.ended)).toBe(true);
+  });
+
+  it('starts on the first voiced chunk', () => {
+    const vad = createVoiceActivityDetector();
+    run(vad, silence(500));
+    const [first, second] = run(vad, tone(200));
+    expect(first).toEqual({ isSpeaking: true, started: true, ended: false });
+    expect(second).toEqual({ isSpeaking: true, started: false, ended: false });
+  });
+
+  it('holds on through the hangover, then ends once', () => {
+    const vad = createVoiceActivityDetector();
+    run(vad, tone(300));
+    const results = run(vad, silence(800));
+    expect(results.map(r => r.isSpeaking)).toEqual([true, true, true, true, false, false, false, false]);
+    expect(results.filter(r => r.ended)).toHaveLength(1);
+    expect(results[4].ended).toBe(true);
+  });
+
+  it('bridges a short gap between words without restarting', () => {
+    const vad = createVoiceActivityDetector();
+    run(vad, tone(300));
+    run(vad, silence(300));
+    const [resumed] = run(vad, tone(100));
+    expect(resumed).toEqual({ isSpeaking: true, started: false, ended: false });
+  });
+
+  it('learns the room noise floor and stops hearing voices buried in it', () => {
+    const fresh = createVoiceActivityDetector();
+    expect(run(fresh, tone(100, SOFT_VOICE))[0].isSpeaking).toBe(true);
+
+    const adapted = createVoiceActivityDetector();
+    const settling = run(adapted, noise(10000, ROOM_NOISE));
+    expect(settling.some(r => r.isSpeaking)).toBe(false);
+    expect(run(adapted, tone(100, SOFT_VOICE))[0].isSpeaking).toBe(false);
+    // A normal speaking voice still clears the raised floor
+    expect(run(adapted, tone(100, 0.1))[0].started).toBe(true);
+  });
+
+  it('drops the floor as soon as the room goes quiet', () => {
+    const vad = createVoiceActivityDetector();
+    run(vad, noise(10000, ROOM_NOISE));
+    run(vad, silence(100));
+    expect(run(vad, tone(100, SOFT_VOICE))[0].isSpeaking).toBe(true);
+  });
+
+  it('forgets the floor and speech state on reset', () => {
+    const vad = createVoiceActivityDetector();
+    run(vad, noise(10000, ROOM_NOISE));
+    run(vad, tone(100));
+    vad.reset();
+    expect(run(vad, tone(100, SOFT_VOICE))[0]).toEqual({ isSpeaking: true, started: true, ended: false });
+  });
+});
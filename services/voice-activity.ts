@@ -0,0 +1,56 @@
+import { computeRms, rmsToDb } from './speech-analytics';
+
+// Speech must rise this far above the tracked noise floor to count as voice
+const VOICE_MARGIN_DB = 12;
+// Never treat anything quieter than this as voice, however quiet the room
+const MIN_VOICE_DB = -55;
+const INITIAL_NOISE_FLOOR_DB = -60;
+// How quickly the floor creeps up towards louder chunks; it drops immediately
+const NOISE_FLOOR_RISE = 0.02;
+// Keep "speaking" through short gaps between words
+const HANGOVER_MS = 500;
+
+export interface VadResult {
+  /** True while the candidate is speaking, including the hangover after the last voiced chunk. */
+  isSpeaking: boolean;
+  /** True for the first chunk after silence, so callers can flush any pre-roll. */
+  started: boolean;
+  /** True for the first silent chunk after speech. */
+  ended: boolean;
+}
+
+export interface VoiceActivityDetector {
+  process: (samples: Float32Array, durationMs: number) => VadResult;
+  reset: () => void;
+}
+
+/** Energy-based voice activity detector with an adaptive noise floor. */
+export function createVoiceActivityDetector(): VoiceActivityDetector {
+  let noiseFloorDb = INITIAL_NOISE_FLOOR_DB;
+  let silenceMs = HANGOVER_MS;
+  let isSpeaking = false;
+
+  return {
+    process: (samples, durationMs) => {
+      const db = rmsToDb(computeRms(samples));
+      const voiced = db >= Math.max(MIN_VOICE_DB, noiseFloorDb + VOICE_MARGIN_DB);
+
+      if (voiced) {
+        silenceMs = 0;
+      } else {
+        silenceMs += durationMs;
+        // Only learn the floor from non-voice chunks so long answers don't raise it
+        noiseFloorDb = db < noiseFloorDb ? db : noiseFloorDb + (db - noiseFloorDb) * NOISE_FLOOR_RISE;
+      }
+
+      const wasSpeaking = isSpeaking;
+      isSpeaking = voiced || silenceMs < HANGOVER_MS;
+      return { isSpeaking, started: isSpeaking && !wasSpeaking, ended: wasSpeaking && !isSpeaking };
+    },
+    reset: () => {
+      noiseFloorDb = INITIAL_NOISE_FLOOR_DB;
+      silenceMs = HANGOVER_MS;
+      isSpeaking = false;
+    },
+  };
+}
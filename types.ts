@@ -5,18 +5,66 @@ export enum Sentiment {
   IMPROVEMENT = 'improvement'
 }
 
+export enum FeedbackSource {
+  MODEL = 'model',
+  ANALYTICS = 'analytics'
+}
+
+/** The fixed feedback taxonomy; values double as display labels. */
+export enum FeedbackCategory {
+  PACE = 'Pace',
+  FILLER_WORDS = 'Filler Words',
+  VOLUME = 'Volume',
+  TONE = 'Tone',
+  CLARITY = 'Clarity',
+  STRUCTURE = 'Structure',
+  CONTENT = 'Content',
+  POSTURE = 'Posture',
+  EYE_CONTACT = 'Eye Contact',
+  BODY_LANGUAGE = 'Body Language',
+  GENERAL = 'General'
+}
+
+export enum FeedbackSeverity {
+  LOW = 'low',
+  MEDIUM = 'medium',
+  HIGH = 'high'
+}
+
+export type FeedbackRating = 'up' | 'down';
+
+/** The stretch of the transcript a tip refers to. */
+export interface TranscriptSpan {
+  /** Index into the session's transcriptions. */
+  entryIndex: number;
+  /** Character offsets of the quote within the entry's text. */
+  start: number;
+  end: number;
+  quote: string;
+}
+
 export interface FeedbackMessage {
   id: string;
-  category: string;
+  category: FeedbackCategory;
   message: string;
   sentiment: Sentiment;
   timestamp: number;
+  source?: FeedbackSource;
+  severity?: FeedbackSeverity;
+  transcriptSpan?: TranscriptSpan;
+  /** Kept at the top of the feed by the candidate. */
+  pinned?: boolean;
+  /** The candidate's thumbs up/down on the tip. */
+  rating?: FeedbackRating;
 }
 
 export interface TranscriptionEntry {
   role: 'user' | 'model';
   text: string;
+  /** When the turn was committed, which is after both sides of it have spoken. */
   timestamp: number;
+  /** How long this side spoke: from its first transcribed words until the other side took over or the turn ended. Absent on typed answers and older sessions. */
+  spokenMs?: number;
 }
 
 export interface InterviewState {
@@ -26,3 +74,270 @@ export interface InterviewState {
   transcriptions: TranscriptionEntry[];
   currentQuestionCount: number;
 }
+
+export enum InterviewType {
+  BEHAVIORAL = 'behavioral',
+  TECHNICAL = 'technical',
+  SYSTEM_DESIGN = 'system_design',
+  CASE = 'case'
+}
+
+export enum Seniority {
+  JUNIOR = 'junior',
+  MID = 'mid',
+  SENIOR = 'senior',
+  LEAD = 'lead'
+}
+
+export interface InterviewerPersona {
+  id: string;
+  name: string;
+  voiceName: string;
+  description: string;
+  style: string;
+}
+
+export interface InterviewConfig {
+  jobRole: string;
+  seniority: Seniority;
+  interviewType: InterviewType;
+  personaId: string;
+  jobDescription: string;
+  resume: string;
+  recordSession: boolean;
+  /** Question set to follow in order; null lets the interviewer improvise. */
+  questionSetId: string | null;
+  answerLimits: AnswerLimits;
+  /** Total interview length; the summary starts when it runs out. Null for no countdown. */
+  interviewMinutes: number | null;
+  /** BCP-47 code of the language the interview is held in, e.g. "es-ES". */
+  language: string;
+}
+
+export interface InterviewLanguage {
+  code: string;
+  /** Name in the language itself, for the picker. */
+  label: string;
+  /** Name in English, for the system prompt. */
+  englishName: string;
+}
+
+/** Per-answer time box: a nudge at the soft limit, a wrap-up request at the hard one. */
+export interface AnswerLimits {
+  softSec: number;
+  hardSec: number;
+}
+
+export interface BankQuestion {
+  id: string;
+  text: string;
+  /** Hints the interviewer can draw follow-ups from. */
+  followUps: string[];
+  /** Suggested time for the answer, in seconds. */
+  timeLimitSec: number | null;
+  /** What a strong answer covers, for the interviewer's evaluation. */
+  rubric: string;
+}
+
+export interface QuestionSet {
+  id: string;
+  title: string;
+  role: string;
+  interviewType: InterviewType | null;
+  description: string;
+  questions: BankQuestion[];
+  builtIn: boolean;
+}
+
+export interface JobRequirement {
+  id: string;
+  text: string;
+  covered: boolean;
+  coveredAt?: number;
+  note?: string;
+}
+
+export enum ScoreDimension {
+  PACE = 'pace',
+  CLARITY = 'clarity',
+  STRUCTURE = 'structure',
+  RELEVANCE = 'relevance',
+  NON_VERBAL = 'nonVerbal'
+}
+
+export interface QuestionRating {
+  question: string;
+  rating: number;
+  comment: string;
+}
+
+export interface InterviewScorecard {
+  strengths: string[];
+  improvements: string[];
+  scores: Record<ScoreDimension, number>;
+  questionRatings: QuestionRating[];
+  overallComment: string;
+  createdAt: number;
+}
+
+export interface QuestionMarker {
+  question: string;
+  isFollowUp: boolean;
+  timestamp: number;
+}
+
+export interface QuestionTurn {
+  id: string;
+  question: string;
+  answer: string;
+  startedAt: number;
+  endedAt: number | null;
+  entries: TranscriptionEntry[];
+  feedbackIds: string[];
+  followUps: QuestionTurn[];
+}
+
+export enum StarPart {
+  SITUATION = 'situation',
+  TASK = 'task',
+  ACTION = 'action',
+  RESULT = 'result',
+}
+
+export interface StarSegment {
+  part: StarPart;
+  /** The candidate's own words for this part; empty when it is missing. */
+  quote: string;
+  present: boolean;
+  note: string;
+}
+
+/** Post-answer structure review of one question, follow-ups included. */
+export interface AnswerAnalysis {
+  /** The `QuestionTurn` it belongs to. */
+  turnId: string;
+  question: string;
+  /** Always the four parts, in STAR order. */
+  star: StarSegment[];
+  impact: {
+    quantified: boolean;
+    /** Numbers and measurable outcomes the candidate mentioned. */
+    metrics: string[];
+    suggestion: string;
+  };
+  rewrite: string;
+  createdAt: number;
+}
+
+export interface RecordingInfo {
+  mimeType: string;
+  startedAt: number;
+  durationMs: number;
+  sizeBytes: number;
+}
+
+export interface StoredSession {
+  id: string;
+  title: string;
+  config: InterviewConfig;
+  transcriptions: TranscriptionEntry[];
+  feedbacks: FeedbackMessage[];
+  requirements: JobRequirement[];
+  scorecard: InterviewScorecard | null;
+  recording?: RecordingInfo | null;
+  questionMarkers?: QuestionMarker[];
+  answerAnalyses?: AnswerAnalysis[];
+  startedAt: number;
+  endedAt: number | null;
+  updatedAt: number;
+}
+
+export interface SessionMetrics {
+  sessionId: string;
+  title: string;
+  startedAt: number;
+  speakingMinutes: number;
+  wordsPerMinute: number;
+  fillersPerMinute: number;
+  averageAnswerWords: number;
+}
+
+export interface CategoryRatio {
+  category: string;
+  positive: number;
+  improvement: number;
+}
+
+export interface ImprovementTheme {
+  label: string;
+  category: string;
+  count: number;
+  sessionCount: number;
+}
+
+export interface SpeechMetrics {
+  wordsPerMinute: number;
+  fillerCount: number;
+  fillersPerMinute: number;
+  averagePauseMs: number;
+  longestPauseMs: number;
+  talkTimeRatio: number;
+  loudnessDb: number;
+  isVoiceActive: boolean;
+}
+
+/** One face observation from the local landmark model, in normalized frame coordinates. */
+export interface FaceSample {
+  centerX: number;
+  centerY: number;
+  /** Face width as a fraction of the frame width; a proxy for distance. */
+  width: number;
+  /** Head turn, roughly -1 (left) to 1 (right). */
+  yaw: number;
+  /** Head tilt, roughly -1 (down) to 1 (up). */
+  pitch: number;
+  isLookingAtCamera: boolean;
+}
+
+export type FaceDistance = 'unknown' | 'close' | 'ok' | 'far';
+
+export interface NonVerbalMetrics {
+  isFaceVisible: boolean;
+  /** Share of recent face samples with gaze on the camera, 0–1. */
+  eyeContactRatio: number;
+  /** Recent head movement in face-widths per second. */
+  headMotion: number;
+  /** Distance of the face from the frame center, 0 (centered) to ~0.7 (corner). */
+  centerOffset: number;
+  distance: FaceDistance;
+}
+
+export enum ConnectionState {
+  IDLE = 'idle',
+  CONNECTING = 'connecting',
+  CONNECTED = 'connected',
+  RECONNECTING = 'reconnecting'
+}
+
+/** Chosen capture and playback devices; null means the system default. */
+export interface DeviceSelection {
+  cameraId: string | null;
+  microphoneId: string | null;
+  speakerId: string | null;
+}
+
+/**
+ * How the candidate takes part: on camera, by voice with the camera off, or
+ * by typing answers when no mic is available or wanted.
+ */
+export type SessionMode = 'video' | 'audio' | 'text';
+
+/** Media handed from the pre-flight check to the live session. */
+export interface SessionMedia {
+  mode: SessionMode;
+  /** One stream carrying the mic and, in video mode, camera tracks; null in text mode. */
+  stream: MediaStream | null;
+  speakerId: string | null;
+  /** Whether the interviewer's replies are also played aloud; always true outside text mode. */
+  speakReplies: boolean;
+}